@@ -2,7 +2,7 @@
  * Unified check() API
  *
  * Composes extractConfig() + validate() + registry lookups into a single call.
- * Never throws.
+ * Never throws for bad responses.
  */
 
 import type { CheckResult, AcceptSummary } from './types/check'
@@ -10,22 +10,27 @@ import type { ValidationOptions } from './validation/orchestrator'
 import type { ResponseLike } from './extraction/extract'
 import { extractConfig } from './extraction/extract'
 import { validate } from './validation/orchestrator'
+import { assertPriceBounds } from './validation/rules'
 import { getNetworkInfo } from './registries/networks'
 import { getAssetInfo } from './registries/assets'
+import { getSchemeInfo } from './registries/schemes'
 
 /**
  * Check an HTTP 402 response: extract config, validate, and enrich with registry data.
  *
- * Never throws. All failures are represented in the returned CheckResult.
+ * Never throws for bad responses. All failures are represented in the returned CheckResult.
  *
  * @param response - Response-like object with body and/or headers
  * @param options - Validation options (e.g. strict mode)
  * @returns Unified check result
+ * @throws TypeError when options.maxPrice or options.minPrice is not a plain decimal string
  */
 export function check(
   response: ResponseLike,
   options?: ValidationOptions,
 ): CheckResult {
+  assertPriceBounds(options)
+
   // ── Extract ──────────────────────────────────────────────────────────
   const extraction = extractConfig(response)
 
@@ -55,6 +60,7 @@ export function check(
     const entry = accepts[i]!
     const networkInfo = getNetworkInfo(entry.network)
     const assetInfo = getAssetInfo(entry.network, entry.asset)
+    const schemeInfo = getSchemeInfo(entry.scheme)
 
     summary.push({
       index: i,
@@ -67,6 +73,9 @@ export function check(
       assetSymbol: assetInfo?.symbol ?? null,
       assetDecimals: assetInfo?.decimals ?? null,
       scheme: entry.scheme,
+      schemeName: schemeInfo?.name ?? null,
+      schemeDescription: schemeInfo?.description ?? null,
+      schemeNamespaces: schemeInfo ? [...schemeInfo.namespaces] : null,
     })
   }
 
@@ -6,17 +6,35 @@
  */
 
 import { parseCliArgs } from './cli/args'
+import { resolveSettings } from './cli/config'
 import { fetchWithRedirects } from './cli/fetch'
+import { writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
 import { resolveInput, readStdin, isUrl } from './cli/detect'
-import { formatManifestResult, formatValidationResult, formatCheckResult, calculateExitCode } from './cli/format'
+import {
+  formatManifestResult,
+  formatValidationResult,
+  formatCheckResult,
+  formatFixChanges,
+  calculateExitCode,
+} from './cli/format'
 import { validate } from './validation/orchestrator'
 import { validateManifest } from './validation/manifest'
 import { check } from './check'
+import { fix } from './fix'
 import { VERSION } from './index'
 import { detect } from './detection/detect'
 import { isManifestConfig } from './detection/guards'
-import type { ManifestConfig, ManifestValidationResult } from './types/manifest'
+import { registerNetwork } from './registries/networks'
+import { registerAsset } from './registries/assets'
+import { registerSimpleName } from './registries/simple-names'
+import { diffRegistry } from './registries/import'
+import { runRegistryCommand } from './cli/registry'
+import type { ManifestConfig } from './types/manifest'
 import type { CliArgs } from './cli/args'
+import type { InputResult } from './cli/detect'
+import type { CliSettings } from './cli/config'
+import type { ValidationOptions } from './validation/orchestrator'
 
 // ── Help text ────────────────────────────────────────────────────────────
 
@@ -29,84 +47,52 @@ Usage:
   x402lint <url>               Fetch URL and check 402 response
   x402lint -                   Read from stdin
   echo '...' | x402lint        Validate from stdin
+  x402lint registry list       List known networks, assets and simple names
+  x402lint registry search <q> Search the registry
+  x402lint registry diff       Show config and --registry entries that differ
+                               from the built-in registry (exit 1 on conflicts)
 
 Flags:
   --strict        Promote all warnings to errors
   --json          Output raw JSON result
   --quiet, -q     Suppress output, exit code only
   --header <H:V>  Add custom header (repeatable, for URL fetching)
+  --config <path> Use this config file instead of discovering one
+  --registry <path>
+                  Load extra networks, assets and simple names from a JSON file,
+                  a Token List or a chainlist-style array (repeatable)
+  --print-config  Print the effective settings (config file + flags) and exit
+  --fix           Apply safe fixes to the input file in place, then validate
+  --fix-dry-run   Show the fixes --fix would apply without writing the file
+  --max-price <n> Fail amounts above n units of the asset (e.g. 5.00)
+  --min-price <n> Fail amounts below n units of the asset (e.g. 0.0001)
   -h, --help      Show this help
   -v, --version   Show version
 
+Config file:
+  .x402lintrc, .x402lintrc.json or x402lint.config.json, searched from the
+  current directory upwards. Sets strict, rules, ignore, registry, headers,
+  format, maxPrice and minPrice; command-line flags take precedence.
+
 Exit codes:
   0  Valid config or majority of endpoints pass
   1  Invalid config or majority of endpoints fail
-  2  Input error (no input, bad file, fetch failure)
+  2  Input error (no input, bad file, bad config, fetch failure)
 
 Examples:
   x402lint '{"x402Version":2,"accepts":[...]}'
   x402lint config.json
   x402lint manifest.json
+  x402lint config.json --fix
   x402lint https://api.example.com/resource --strict
   x402lint https://api.example.com/resource --header "Authorization: Bearer xyz"
   curl -s https://example.com | x402lint --json
   echo '{}' | x402lint -
 `
 
-// ── Strict mode helper for manifests ────────────────────────────────────
-
-/**
- * Apply strict mode to manifest result (promotes warnings to errors)
- *
- * Since validateManifest() doesn't accept options, we apply strict mode
- * post-validation by promoting all warnings to errors and recomputing validity.
- */
-function applyStrictMode(result: ManifestValidationResult): ManifestValidationResult {
-  // Promote manifest-level warnings to errors
-  const manifestErrors = [...result.errors]
-  const manifestWarnings: typeof result.warnings = []
-
-  for (const warning of result.warnings) {
-    manifestErrors.push({ ...warning, severity: 'error' })
-  }
-
-  // Promote endpoint-level warnings to errors
-  const newEndpointResults: typeof result.endpointResults = {}
-
-  for (const [endpointId, endpointResult] of Object.entries(result.endpointResults)) {
-    const endpointErrors = [...endpointResult.errors]
-
-    for (const warning of endpointResult.warnings) {
-      endpointErrors.push({ ...warning, severity: 'error' })
-    }
-
-    // Recompute valid flag (invalid if any errors)
-    const valid = endpointErrors.length === 0
-
-    newEndpointResults[endpointId] = {
-      ...endpointResult,
-      valid,
-      errors: endpointErrors,
-      warnings: [],
-    }
-  }
-
-  // Recompute manifest-level valid flag
-  const allEndpointsValid = Object.values(newEndpointResults).every(r => r.valid)
-  const valid = manifestErrors.length === 0 && allEndpointsValid
-
-  return {
-    valid,
-    errors: manifestErrors,
-    warnings: manifestWarnings,
-    endpointResults: newEndpointResults,
-    normalized: result.normalized,
-  }
-}
-
 // ── URL handler ──────────────────────────────────────────────────────────
 
-async function handleUrl(url: string, args: CliArgs): Promise<number> {
+async function handleUrl(url: string, args: CliArgs, options: ValidationOptions): Promise<number> {
   try {
     const { status, body, headers } = await fetchWithRedirects(url, {
       headers: args.headers,
@@ -124,15 +110,14 @@ async function handleUrl(url: string, args: CliArgs): Promise<number> {
           console.log(`Detected: manifest with ${endpointCount} endpoints`)
         }
 
-        let result = validateManifest(body as ManifestConfig)
-        if (args.strict) {
-          result = applyStrictMode(result)
-        }
+        const result = validateManifest(body as ManifestConfig, options)
 
         const output = formatManifestResult(result, args)
         if (output) console.log(output)
 
-        return calculateExitCode(result, args.strict)
+        // Strict mode is already applied by validateManifest(); remaining warnings were
+        // explicitly configured as warnings via rules
+        return calculateExitCode(result, false)
       }
     }
 
@@ -150,7 +135,7 @@ async function handleUrl(url: string, args: CliArgs): Promise<number> {
       }
     }
 
-    const result = check({ body, headers }, { strict: args.strict })
+    const result = check({ body, headers }, options)
     const output = formatCheckResult(result, args)
     if (output) console.log(output)
 
@@ -161,11 +146,40 @@ async function handleUrl(url: string, args: CliArgs): Promise<number> {
   }
 }
 
+// ── Fix handler ──────────────────────────────────────────────────────────
+
+/**
+ * Apply safe fixes to a file input (write it unless dry run) and return the
+ * input with the fixed content, so validation reports what remains
+ */
+function applyFixes(resolved: InputResult, args: CliArgs, options: ValidationOptions): InputResult {
+  if (!resolved.file || resolved.source === undefined) {
+    throw new Error('--fix and --fix-dry-run need a JSON file in x402 config or manifest format')
+  }
+
+  const result = fix(resolved.source, options)
+  const dryRun = args.fixDryRun
+
+  if (!dryRun && result.changes.length > 0) {
+    writeFileSync(resolve(resolved.file), result.text!)
+  }
+
+  if (!args.quiet && !args.json) {
+    console.log(formatFixChanges(result.changes, resolved.file, dryRun))
+  }
+
+  return { ...resolved, data: result.config ?? resolved.data, source: result.text ?? resolved.source }
+}
+
 // ── File or JSON handler ─────────────────────────────────────────────────
 
-async function handleFileOrJson(rawInput: string, args: CliArgs): Promise<number> {
+async function handleFileOrJson(
+  rawInput: string,
+  args: CliArgs,
+  options: ValidationOptions,
+): Promise<number> {
   try {
-    const resolved = resolveInput(rawInput)
+    let resolved = resolveInput(rawInput)
 
     // Show normalization warnings if present (wild manifest conversion)
     if (resolved.normalizationWarnings && resolved.normalizationWarnings.length > 0) {
@@ -177,6 +191,11 @@ async function handleFileOrJson(rawInput: string, args: CliArgs): Promise<number
       }
     }
 
+    // Auto-fix (--fix-dry-run wins over --fix), then validate the fixed content
+    if (args.fix || args.fixDryRun) {
+      resolved = applyFixes(resolved, args, options)
+    }
+
     // Manifest path
     if (resolved.type === 'manifest') {
       const manifestData = resolved.data as ManifestConfig
@@ -186,15 +205,14 @@ async function handleFileOrJson(rawInput: string, args: CliArgs): Promise<number
         console.log(`Detected: manifest with ${endpointCount} endpoints`)
       }
 
-      let result = validateManifest(manifestData)
-      if (args.strict) {
-        result = applyStrictMode(result)
-      }
+      // Validate the JSON text when available so issues carry line/column
+      const result = validateManifest(resolved.source ?? manifestData, options)
 
-      const output = formatManifestResult(result, args)
+      const output = formatManifestResult(result, args, resolved.file)
       if (output) console.log(output)
 
-      return calculateExitCode(result, args.strict)
+      // Strict mode already applied by validateManifest()
+      return calculateExitCode(result, false)
     }
 
     // Single-config path
@@ -207,8 +225,8 @@ async function handleFileOrJson(rawInput: string, args: CliArgs): Promise<number
       }
     }
 
-    const result = validate(resolved.data, { strict: args.strict })
-    const output = formatValidationResult(result, args)
+    const result = validate(resolved.source ?? (resolved.data as string | object), options)
+    const output = formatValidationResult(result, args, resolved.file)
     if (output) console.log(output)
 
     return result.valid ? 0 : 1
@@ -218,21 +236,91 @@ async function handleFileOrJson(rawInput: string, args: CliArgs): Promise<number
   }
 }
 
+// ── Settings ─────────────────────────────────────────────────────────────
+
+/**
+ * Register extra networks, assets and simple names from the config and registry files
+ */
+function applyRegistry(settings: CliSettings): void {
+  for (const [caip2, info] of Object.entries(settings.registry.networks ?? {})) {
+    registerNetwork(caip2, info)
+  }
+  for (const [network, assets] of Object.entries(settings.registry.assets ?? {})) {
+    for (const [address, info] of Object.entries(assets)) {
+      registerAsset(network, address, info)
+    }
+  }
+  for (const [name, caip2] of Object.entries(settings.registry.simpleNames ?? {})) {
+    registerSimpleName(name, caip2)
+  }
+}
+
 // ── Main ─────────────────────────────────────────────────────────────────
 
 async function main(): Promise<number> {
-  const args = parseCliArgs(process.argv.slice(2))
+  const cliArgs = parseCliArgs(process.argv.slice(2))
 
-  if (args.version) {
+  if (cliArgs.version) {
     console.log(VERSION)
     return 0
   }
 
-  if (args.help) {
+  if (cliArgs.help) {
     console.log(HELP)
     return 0
   }
 
+  // Merge config file with flags (flags win)
+  let settings: CliSettings
+  try {
+    settings = resolveSettings(cliArgs, process.cwd())
+  } catch (err) {
+    console.error(`Config error: ${(err as Error).message}`)
+    return 2
+  }
+
+  if (cliArgs.printConfig) {
+    console.log(JSON.stringify(settings, null, 2))
+    return 0
+  }
+
+  try {
+    applyRegistry(settings)
+  } catch (err) {
+    console.error(`Config error: ${(err as Error).message}`)
+    return 2
+  }
+
+  const args: CliArgs = {
+    ...cliArgs,
+    strict: settings.strict,
+    json: settings.format === 'json',
+    headers: settings.headers,
+  }
+
+  if (args.command === 'registry') {
+    return runRegistryCommand(args, settings.registry)
+  }
+
+  // Imported entries win over built-in ones, so point out where they disagree
+  if (!args.quiet) {
+    for (const conflict of diffRegistry(settings.registry).filter((d) => d.change === 'changed')) {
+      const subject =
+        conflict.entry === 'simpleName'
+          ? `simple name ${conflict.name}`
+          : `${conflict.entry} ${conflict.network}${conflict.address ? ` ${conflict.address}` : ''}`
+      const fields = conflict.differences.map((d) => d.field).join(', ')
+      console.error(`Registry conflict: ${subject} overrides the built-in ${fields}`)
+    }
+  }
+  const options: ValidationOptions = {
+    strict: settings.strict,
+    rules: settings.rules,
+    ignore: settings.ignore,
+    maxPrice: settings.maxPrice ?? undefined,
+    minPrice: settings.minPrice ?? undefined,
+  }
+
   // Resolve input source
   let rawInput: string | null = args.input
 
@@ -260,11 +348,15 @@ async function main(): Promise<number> {
 
   // URL mode: fetch then detect manifest vs single
   if (isUrl(rawInput)) {
-    return handleUrl(rawInput, args)
+    if (args.fix || args.fixDryRun) {
+      console.error('--fix and --fix-dry-run only work on files.')
+      return 2
+    }
+    return handleUrl(rawInput, args, options)
   }
 
   // File or inline JSON mode
-  return handleFileOrJson(rawInput, args)
+  return handleFileOrJson(rawInput, args, options)
 }
 
 main().then(
@@ -2,7 +2,8 @@
  * CLI argument parsing
  *
  * Parses command-line arguments using Node's util.parseArgs API.
- * Supports repeatable --header flags for custom HTTP headers.
+ * Supports repeatable --header and --registry flags and the registry subcommand.
+ * Project config files are handled separately (see ./config).
  */
 
 import { parseArgs } from 'node:util'
@@ -11,6 +12,8 @@ import { parseArgs } from 'node:util'
  * Parsed CLI arguments
  */
 export interface CliArgs {
+  command: 'registry' | null
+  commandArgs: string[]
   input: string | null
   strict: boolean
   json: boolean
@@ -18,6 +21,13 @@ export interface CliArgs {
   help: boolean
   version: boolean
   headers: Record<string, string>
+  config: string | null
+  registry: string[]
+  printConfig: boolean
+  fix: boolean
+  fixDryRun: boolean
+  maxPrice: string | null
+  minPrice: string | null
 }
 
 /**
@@ -40,6 +50,13 @@ export function parseCliArgs(argv: string[]): CliArgs {
       help: { type: 'boolean', short: 'h' },
       version: { type: 'boolean', short: 'v' },
       header: { type: 'string', multiple: true },
+      config: { type: 'string' },
+      registry: { type: 'string', multiple: true },
+      'print-config': { type: 'boolean' },
+      fix: { type: 'boolean' },
+      'fix-dry-run': { type: 'boolean' },
+      'max-price': { type: 'string' },
+      'min-price': { type: 'string' },
     },
     allowPositionals: true,
   })
@@ -62,13 +79,26 @@ export function parseCliArgs(argv: string[]): CliArgs {
     }
   }
 
+  // `x402lint registry <list|search|diff>` subcommand
+  const [first, ...rest] = parsed.positionals
+  const command = first === 'registry' ? 'registry' : null
+
   return {
-    input: parsed.positionals[0] ?? null,
+    command,
+    commandArgs: command ? rest : [],
+    input: command ? null : (first ?? null),
     strict: parsed.values.strict ?? false,
     json: parsed.values.json ?? false,
     quiet: parsed.values.quiet ?? false,
     help: parsed.values.help ?? false,
     version: parsed.values.version ?? false,
     headers,
+    config: parsed.values.config ?? null,
+    registry: parsed.values.registry ?? [],
+    printConfig: parsed.values['print-config'] ?? false,
+    fix: parsed.values.fix ?? false,
+    fixDryRun: parsed.values['fix-dry-run'] ?? false,
+    maxPrice: parsed.values['max-price'] ?? null,
+    minPrice: parsed.values['min-price'] ?? null,
   }
 }
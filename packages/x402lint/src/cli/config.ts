@@ -0,0 +1,404 @@
+/**
+ * Project config file discovery and merging
+ *
+ * Looks for .x402lintrc, .x402lintrc.json or x402lint.config.json walking up
+ * from the working directory, validates it, and merges it with CLI flags
+ * (flags win).
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import type { RuleSeverity, RuleSeverityMap } from '../types/validation'
+import type { NetworkInfo, NetworkType } from '../registries/networks'
+import type { AssetInfo } from '../registries/assets'
+import { ErrorCode } from '../types/errors'
+import { isValidCaip2 } from '../registries/networks'
+import { parseChainList, parseTokenList } from '../registries/import'
+import { isValidPrice } from '../validation/rules/amount'
+import type { CliArgs } from './args'
+
+/**
+ * Config file names, in lookup order within each directory
+ */
+export const CONFIG_FILE_NAMES = ['.x402lintrc', '.x402lintrc.json', 'x402lint.config.json'] as const
+
+/**
+ * Output format selectable from the config file
+ */
+export type OutputFormat = 'text' | 'json'
+
+/**
+ * Extra registry entries declared in the config file
+ */
+export interface RegistryConfig {
+  networks?: Record<string, NetworkInfo>
+  assets?: Record<string, Record<string, AssetInfo>> // keyed by network, then asset address
+  simpleNames?: Record<string, string> // simple name -> CAIP-2 network
+}
+
+/**
+ * Shape of a project config file
+ */
+export interface CliConfig {
+  strict?: boolean
+  rules?: RuleSeverityMap
+  ignore?: string[]
+  registry?: RegistryConfig
+  headers?: Record<string, string>
+  format?: OutputFormat
+  maxPrice?: string
+  minPrice?: string
+}
+
+/**
+ * Effective settings after merging config file and CLI flags
+ */
+export interface CliSettings {
+  configFile: string | null
+  strict: boolean
+  rules: RuleSeverityMap
+  ignore: string[]
+  registry: RegistryConfig
+  headers: Record<string, string>
+  format: OutputFormat
+  maxPrice: string | null
+  minPrice: string | null
+}
+
+const NETWORK_TYPES: readonly NetworkType[] = ['evm', 'solana', 'stellar', 'aptos', 'stacks', 'cosmos']
+const SEVERITIES = ['off', 'warning', 'error']
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return v !== null && typeof v === 'object' && !Array.isArray(v)
+}
+
+/**
+ * Find the nearest config file, walking up from startDir to the filesystem root
+ *
+ * @param startDir - Directory to start from (typically process.cwd())
+ * @returns Absolute path of the config file, or null if none found
+ */
+export function findConfigFile(startDir: string): string | null {
+  let dir = resolve(startDir)
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name)
+      if (existsSync(candidate)) {
+        return candidate
+      }
+    }
+
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+/**
+ * Validate registry entries (the config file's registry section or a --registry file)
+ *
+ * @param value - Parsed JSON
+ * @param prefix - Path prefix for error messages, e.g. "registry."
+ */
+function parseRegistry(value: unknown, prefix: string): RegistryConfig {
+  if (!isObject(value)) {
+    const subject = prefix ? `"${prefix.slice(0, -1)}"` : 'registry'
+    throw new Error(`${subject} must be an object with networks, assets and/or simpleNames`)
+  }
+
+  const registry: RegistryConfig = {}
+
+  if (value.networks !== undefined) {
+    if (!isObject(value.networks)) {
+      throw new Error(`"${prefix}networks" must be an object keyed by CAIP-2 network`)
+    }
+    registry.networks = {}
+    for (const [caip2, info] of Object.entries(value.networks)) {
+      if (!isValidCaip2(caip2)) {
+        throw new Error(`"${prefix}networks": invalid CAIP-2 network "${caip2}"`)
+      }
+      if (
+        !isObject(info) ||
+        typeof info.name !== 'string' ||
+        !NETWORK_TYPES.includes(info.type as NetworkType) ||
+        typeof info.testnet !== 'boolean'
+      ) {
+        throw new Error(
+          `"${prefix}networks.${caip2}" must be { name: string, type: ${NETWORK_TYPES.join('|')}, testnet: boolean }`,
+        )
+      }
+      const network: NetworkInfo = { name: info.name, type: info.type as NetworkType, testnet: info.testnet }
+      if (info.bech32Prefix !== undefined) {
+        if (typeof info.bech32Prefix !== 'string' || !/^[a-z0-9]+$/.test(info.bech32Prefix)) {
+          throw new Error(`"${prefix}networks.${caip2}.bech32Prefix" must be a lowercase bech32 prefix, e.g. "noble"`)
+        }
+        network.bech32Prefix = info.bech32Prefix
+      }
+      registry.networks[caip2] = network
+    }
+  }
+
+  if (value.assets !== undefined) {
+    if (!isObject(value.assets)) {
+      throw new Error(`"${prefix}assets" must be an object keyed by CAIP-2 network`)
+    }
+    registry.assets = {}
+    for (const [network, assets] of Object.entries(value.assets)) {
+      if (!isValidCaip2(network)) {
+        throw new Error(`"${prefix}assets": invalid CAIP-2 network "${network}"`)
+      }
+      if (!isObject(assets)) {
+        throw new Error(`"${prefix}assets.${network}" must be an object keyed by asset address`)
+      }
+      const networkAssets: Record<string, AssetInfo> = {}
+      for (const [address, info] of Object.entries(assets)) {
+        if (
+          !isObject(info) ||
+          typeof info.symbol !== 'string' ||
+          typeof info.name !== 'string' ||
+          typeof info.decimals !== 'number' ||
+          !Number.isInteger(info.decimals) ||
+          info.decimals < 0
+        ) {
+          throw new Error(
+            `"${prefix}assets.${network}.${address}" must be { symbol: string, name: string, decimals: integer }`,
+          )
+        }
+        const asset: AssetInfo = { symbol: info.symbol, name: info.name, decimals: info.decimals }
+        if (info.eip712 !== undefined) {
+          if (!isObject(info.eip712) || typeof info.eip712.name !== 'string' || typeof info.eip712.version !== 'string') {
+            throw new Error(`"${prefix}assets.${network}.${address}.eip712" must be { name: string, version: string }`)
+          }
+          asset.eip712 = { name: info.eip712.name, version: info.eip712.version }
+        }
+        networkAssets[address] = asset
+      }
+      registry.assets[network] = networkAssets
+    }
+  }
+
+  if (value.simpleNames !== undefined) {
+    if (!isObject(value.simpleNames)) {
+      throw new Error(`"${prefix}simpleNames" must be an object mapping names to CAIP-2 networks`)
+    }
+    registry.simpleNames = {}
+    for (const [name, caip2] of Object.entries(value.simpleNames)) {
+      if (typeof caip2 !== 'string' || !isValidCaip2(caip2)) {
+        throw new Error(`"${prefix}simpleNames.${name}" must be a CAIP-2 network, e.g. "eip155:8453"`)
+      }
+      registry.simpleNames[name] = caip2
+    }
+  }
+
+  return registry
+}
+
+/**
+ * Validate a parsed config object
+ *
+ * @param value - Parsed JSON from the config file
+ * @returns Typed config
+ * @throws Error describing the first invalid setting
+ */
+export function parseConfig(value: unknown): CliConfig {
+  if (!isObject(value)) {
+    throw new Error('config must be a JSON object')
+  }
+
+  const known = ['strict', 'rules', 'ignore', 'registry', 'headers', 'format', 'maxPrice', 'minPrice', '$schema']
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      throw new Error(`unknown setting "${key}"`)
+    }
+  }
+
+  const config: CliConfig = {}
+
+  if (value.strict !== undefined) {
+    if (typeof value.strict !== 'boolean') throw new Error('"strict" must be a boolean')
+    config.strict = value.strict
+  }
+
+  if (value.rules !== undefined) {
+    if (!isObject(value.rules)) throw new Error('"rules" must be an object mapping error codes to severities')
+    const rules: RuleSeverityMap = {}
+    for (const [code, severity] of Object.entries(value.rules)) {
+      if (!Object.prototype.hasOwnProperty.call(ErrorCode, code)) {
+        throw new Error(`"rules": unknown error code "${code}"`)
+      }
+      if (typeof severity !== 'string' || !SEVERITIES.includes(severity)) {
+        throw new Error(`"rules.${code}" must be one of ${SEVERITIES.join(', ')}`)
+      }
+      rules[code as keyof RuleSeverityMap] = severity as RuleSeverity
+    }
+    config.rules = rules
+  }
+
+  if (value.ignore !== undefined) {
+    if (!Array.isArray(value.ignore) || !value.ignore.every((p) => typeof p === 'string')) {
+      throw new Error('"ignore" must be an array of field paths')
+    }
+    config.ignore = value.ignore as string[]
+  }
+
+  if (value.registry !== undefined) {
+    config.registry = parseRegistry(value.registry, 'registry.')
+  }
+
+  if (value.headers !== undefined) {
+    if (!isObject(value.headers) || !Object.values(value.headers).every((v) => typeof v === 'string')) {
+      throw new Error('"headers" must be an object of string header values')
+    }
+    config.headers = value.headers as Record<string, string>
+  }
+
+  if (value.format !== undefined) {
+    if (value.format !== 'text' && value.format !== 'json') {
+      throw new Error('"format" must be "text" or "json"')
+    }
+    config.format = value.format
+  }
+
+  for (const key of ['maxPrice', 'minPrice'] as const) {
+    const price = value[key]
+    if (price !== undefined) {
+      if (typeof price !== 'string' || !isValidPrice(price)) {
+        throw new Error(`"${key}" must be a decimal string in asset units, e.g. "5.00"`)
+      }
+      config[key] = price
+    }
+  }
+
+  return config
+}
+
+/**
+ * Read a JSON file
+ *
+ * @param path - Path to the file
+ * @param kind - File kind for error messages
+ * @returns Parsed JSON
+ * @throws Error if the file cannot be read or is not JSON
+ */
+function readJsonFile(path: string, kind: 'Config' | 'Registry'): unknown {
+  let text: string
+  try {
+    text = readFileSync(path, 'utf-8')
+  } catch (err) {
+    const error = err as NodeJS.ErrnoException
+    if (error.code === 'ENOENT') {
+      throw new Error(`${kind} file not found: ${path}`)
+    }
+    throw new Error(`Cannot read ${kind.toLowerCase()} file: ${error.message}`)
+  }
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new Error(`Invalid ${kind.toLowerCase()} file ${path}: not valid JSON`)
+  }
+}
+
+/**
+ * Read and validate a config file
+ *
+ * @param path - Path to the config file
+ * @returns Typed config
+ * @throws Error if the file cannot be read, is not JSON, or has invalid settings
+ */
+export function loadConfigFile(path: string): CliConfig {
+  const parsed = readJsonFile(path, 'Config')
+  try {
+    return parseConfig(parsed)
+  } catch (err) {
+    throw new Error(`Invalid config file ${path}: ${(err as Error).message}`)
+  }
+}
+
+/**
+ * Read and validate a registry file (--registry)
+ *
+ * Accepts a Uniswap Token List (an object with a "tokens" array), a
+ * chainlist-style array of chains, or the shape of the config file's
+ * "registry" section: { networks, assets, simpleNames }.
+ *
+ * @param path - Path to the registry file
+ * @returns Typed registry entries
+ * @throws Error if the file cannot be read, is not JSON, or has invalid entries
+ */
+export function loadRegistryFile(path: string): RegistryConfig {
+  const parsed = readJsonFile(path, 'Registry')
+  try {
+    if (Array.isArray(parsed)) {
+      return { networks: parseChainList(parsed).networks }
+    }
+    if (isObject(parsed) && Array.isArray(parsed.tokens)) {
+      return { assets: parseTokenList(parsed).assets }
+    }
+    return parseRegistry(parsed, '')
+  } catch (err) {
+    throw new Error(`Invalid registry file ${path}: ${(err as Error).message}`)
+  }
+}
+
+/**
+ * Merge registry entries, later sources winning per network, asset and name
+ */
+function mergeRegistries(...sources: RegistryConfig[]): RegistryConfig {
+  const merged: RegistryConfig = {}
+  for (const source of sources) {
+    if (source.networks) {
+      merged.networks = { ...merged.networks, ...source.networks }
+    }
+    if (source.assets) {
+      merged.assets = { ...merged.assets }
+      for (const [network, assets] of Object.entries(source.assets)) {
+        merged.assets[network] = { ...merged.assets[network], ...assets }
+      }
+    }
+    if (source.simpleNames) {
+      merged.simpleNames = { ...merged.simpleNames, ...source.simpleNames }
+    }
+  }
+  return merged
+}
+
+/**
+ * Resolve effective settings from the config file and CLI flags
+ *
+ * Uses --config when given, otherwise discovers a config file from cwd.
+ * CLI flags override the config file: --strict forces strict mode, --json
+ * forces JSON output, --max-price/--min-price replace the configured bounds,
+ * --header values replace same-named config headers, and --registry entries
+ * replace same-named config registry entries.
+ *
+ * @param args - Parsed CLI arguments
+ * @param cwd - Directory to start discovery from
+ * @returns Effective settings
+ * @throws Error if the config file is missing (explicit --config), the
+ * registry file is missing, or either is invalid
+ */
+export function resolveSettings(args: CliArgs, cwd: string): CliSettings {
+  for (const [flag, price] of [['--max-price', args.maxPrice], ['--min-price', args.minPrice]] as const) {
+    if (price !== null && !isValidPrice(price)) {
+      throw new Error(`${flag} must be a decimal amount in asset units, e.g. 5.00`)
+    }
+  }
+
+  const configFile = args.config ? resolve(cwd, args.config) : findConfigFile(cwd)
+  const config = configFile ? loadConfigFile(configFile) : {}
+  const registryFiles = args.registry.map((path) => loadRegistryFile(resolve(cwd, path)))
+
+  return {
+    configFile,
+    strict: args.strict || config.strict === true,
+    rules: config.rules ?? {},
+    ignore: config.ignore ?? [],
+    registry: mergeRegistries(config.registry ?? {}, ...registryFiles),
+    headers: { ...config.headers, ...args.headers },
+    format: args.json ? 'json' : (config.format ?? 'text'),
+    maxPrice: args.maxPrice ?? config.maxPrice ?? null,
+    minPrice: args.minPrice ?? config.minPrice ?? null,
+  }
+}
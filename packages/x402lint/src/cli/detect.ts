@@ -21,6 +21,8 @@ export type InputType = 'manifest' | 'single-config' | 'url'
 export interface InputResult {
   type: InputType
   data: unknown
+  source?: string // JSON text matching data, for line/column locations
+  file?: string // path the JSON was read from
   normalizationWarnings?: string[]
 }
 
@@ -76,12 +78,14 @@ export function readStdin(): Promise<string> {
  */
 export function resolveInput(rawInput: string): InputResult {
   let jsonString = rawInput
+  let file: string | undefined
 
   // If not JSON-like, try to read as file
   if (!isJsonLike(rawInput)) {
     const filePath = resolve(rawInput)
     try {
       jsonString = readFileSync(filePath, 'utf-8')
+      file = rawInput
     } catch (err) {
       const error = err as NodeJS.ErrnoException
       if (error.code === 'ENOENT') {
@@ -91,23 +95,26 @@ export function resolveInput(rawInput: string): InputResult {
     }
   }
 
+  const located = file ? { source: jsonString, file } : { source: jsonString }
+
   // Parse JSON
   let parsed: unknown
   try {
     parsed = JSON.parse(jsonString)
   } catch {
-    // If parse fails, return as single-config and let validate() handle the error
-    return { type: 'single-config', data: rawInput }
+    // If parse fails, return as single-config and let validate() report where
+    return { type: 'single-config', data: jsonString, ...located }
   }
 
   // Detect format (JSON.parse returns unknown, but detect expects string | object)
   const format = detect(parsed as string | object)
 
   if (format === 'manifest') {
-    return { type: 'manifest', data: parsed }
+    return { type: 'manifest', data: parsed, ...located }
   }
 
   // Try wild manifest normalization for unknown formats
+  // (no source: the normalized manifest's paths don't exist in the file)
   if (format === 'unknown') {
     const wildResult = normalizeWildManifest(parsed)
     if (wildResult) {
@@ -120,5 +127,5 @@ export function resolveInput(rawInput: string): InputResult {
   }
 
   // Default to single-config (v1, v2, or truly unknown)
-  return { type: 'single-config', data: parsed }
+  return { type: 'single-config', data: parsed, ...located }
 }
@@ -9,7 +9,10 @@ import Table from 'cli-table3'
 import type { ValidationIssue, ValidationResult } from '../types/validation'
 import type { CheckResult } from '../types/check'
 import type { ManifestValidationResult } from '../types/manifest'
+import type { FixChange } from '../types/fix'
+import type { RegistryDiff } from '../registries/import'
 import type { CliArgs } from './args'
+import type { RegistryListing } from './registry'
 
 // ── Color helpers ────────────────────────────────────────────────────────
 
@@ -35,12 +38,51 @@ function dim(s: string): string {
   return useColor ? `\x1b[2m${s}\x1b[0m` : s
 }
 
+/**
+ * Table with column spacing only, no borders
+ */
+function borderlessTable(head: string[]): InstanceType<typeof Table> {
+  return new Table({
+    head,
+    style: {
+      head: useColor ? ['cyan'] : [],
+      border: [],
+    },
+    chars: {
+      top: '',
+      'top-mid': '',
+      'top-left': '',
+      'top-right': '',
+      bottom: '',
+      'bottom-mid': '',
+      'bottom-left': '',
+      'bottom-right': '',
+      left: '',
+      'left-mid': '',
+      mid: '',
+      'mid-mid': '',
+      right: '',
+      'right-mid': '',
+      middle: ' ',
+    },
+  })
+}
+
 // ── Issue formatting ─────────────────────────────────────────────────────
 
 /**
- * Format a single validation issue with icon and optional fix suggestion
+ * Format an issue's source location as file:line:col (line:col without a file)
+ */
+function formatLocation(issue: ValidationIssue, file: string | undefined): string | null {
+  if (issue.line === undefined || issue.column === undefined) return null
+  const position = `${issue.line}:${issue.column}`
+  return file ? `${file}:${position}` : position
+}
+
+/**
+ * Format a single validation issue with icon, source location and optional fix suggestion
  */
-export function formatIssue(issue: ValidationIssue, colorEnabled: boolean): string {
+export function formatIssue(issue: ValidationIssue, colorEnabled: boolean, file?: string): string {
   const icon = colorEnabled
     ? issue.severity === 'error'
       ? red('✗')
@@ -49,13 +91,38 @@ export function formatIssue(issue: ValidationIssue, colorEnabled: boolean): stri
       ? '✗'
       : '⚠'
 
-  const line = `  ${icon} ${issue.code} [${issue.field}]: ${issue.message}`
+  const location = formatLocation(issue, file)
+  const prefix = location ? `${colorEnabled ? dim(location) : location} ` : ''
+  const line = `  ${icon} ${prefix}${issue.code} [${issue.field}]: ${issue.message}`
   if (issue.fix) {
     return line + `\n      ↳ ${issue.fix}`
   }
   return line
 }
 
+// ── Fix changes ──────────────────────────────────────────────────────────
+
+/**
+ * Format changes applied (or, for a dry run, that would be applied) by --fix
+ */
+export function formatFixChanges(changes: FixChange[], file: string, dryRun: boolean): string {
+  if (changes.length === 0) {
+    return `No fixable issues in ${file}\n`
+  }
+
+  const noun = changes.length === 1 ? 'issue' : 'issues'
+  const lines = [dryRun ? `Would fix ${changes.length} ${noun} in ${file}:` : `Fixed ${changes.length} ${noun} in ${file}:`]
+  for (const change of changes) {
+    const location = change.line !== undefined ? `${file}:${change.line}:${change.column} ` : ''
+    const icon = useColor ? green('✓') : '✓'
+    lines.push(
+      `  ${icon} ${useColor ? dim(location) : location}${change.code} [${change.field}]: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`,
+    )
+  }
+  lines.push('')
+  return lines.join('\n')
+}
+
 // ── Single-config validation result ──────────────────────────────────────
 
 /**
@@ -65,8 +132,10 @@ export function formatIssue(issue: ValidationIssue, colorEnabled: boolean): stri
  * - quiet: Empty string (exit code only) — takes precedence
  * - json: Pure JSON output
  * - terminal: Status + errors + warnings
+ *
+ * @param file - Path the config was read from, prefixed to issue locations
  */
-export function formatValidationResult(result: ValidationResult, args: CliArgs): string {
+export function formatValidationResult(result: ValidationResult, args: CliArgs, file?: string): string {
   if (args.quiet) return ''
   if (args.json) return JSON.stringify(result, null, 2)
 
@@ -83,14 +152,14 @@ export function formatValidationResult(result: ValidationResult, args: CliArgs):
   if (result.errors.length > 0) {
     lines.push('')
     lines.push(`Errors (${result.errors.length}):`)
-    for (const e of result.errors) lines.push(formatIssue(e, useColor))
+    for (const e of result.errors) lines.push(formatIssue(e, useColor, file))
   }
 
   // Warnings
   if (result.warnings.length > 0) {
     lines.push('')
     lines.push(`Warnings (${result.warnings.length}):`)
-    for (const w of result.warnings) lines.push(formatIssue(w, useColor))
+    for (const w of result.warnings) lines.push(formatIssue(w, useColor, file))
   }
 
   return lines.join('\n')
@@ -167,38 +236,17 @@ export function formatCheckResult(result: CheckResult, args: CliArgs): string {
  * - quiet: Empty string (exit code only) — takes precedence
  * - json: Pure JSON output
  * - terminal: Summary table + endpoint details + cross-endpoint issues
+ *
+ * @param file - Path the manifest was read from, prefixed to issue locations
  */
-export function formatManifestResult(result: ManifestValidationResult, args: CliArgs): string {
+export function formatManifestResult(result: ManifestValidationResult, args: CliArgs, file?: string): string {
   if (args.quiet) return ''
   if (args.json) return JSON.stringify(result, null, 2)
 
   const lines: string[] = []
 
   // Summary table
-  const table = new Table({
-    head: ['Status', 'Endpoint', 'Errors', 'Warnings'],
-    style: {
-      head: useColor ? ['cyan'] : [],
-      border: [],
-    },
-    chars: {
-      top: '',
-      'top-mid': '',
-      'top-left': '',
-      'top-right': '',
-      bottom: '',
-      'bottom-mid': '',
-      'bottom-left': '',
-      'bottom-right': '',
-      left: '',
-      'left-mid': '',
-      mid: '',
-      'mid-mid': '',
-      right: '',
-      'right-mid': '',
-      middle: ' ',
-    },
-  })
+  const table = borderlessTable(['Status', 'Endpoint', 'Errors', 'Warnings'])
 
   const endpointIds = Object.keys(result.endpointResults)
   for (const endpointId of endpointIds) {
@@ -228,14 +276,14 @@ export function formatManifestResult(result: ManifestValidationResult, args: Cli
     if (endpointResult.errors.length > 0) {
       lines.push('')
       lines.push(`Errors (${endpointResult.errors.length}):`)
-      for (const e of endpointResult.errors) lines.push(formatIssue(e, useColor))
+      for (const e of endpointResult.errors) lines.push(formatIssue(e, useColor, file))
     }
 
     // Warnings
     if (endpointResult.warnings.length > 0) {
       lines.push('')
       lines.push(`Warnings (${endpointResult.warnings.length}):`)
-      for (const w of endpointResult.warnings) lines.push(formatIssue(w, useColor))
+      for (const w of endpointResult.warnings) lines.push(formatIssue(w, useColor, file))
     }
 
     lines.push('')
@@ -248,13 +296,13 @@ export function formatManifestResult(result: ManifestValidationResult, args: Cli
     if (result.errors.length > 0) {
       lines.push('')
       lines.push(`Errors (${result.errors.length}):`)
-      for (const e of result.errors) lines.push(formatIssue(e, useColor))
+      for (const e of result.errors) lines.push(formatIssue(e, useColor, file))
     }
 
     if (result.warnings.length > 0) {
       lines.push('')
       lines.push(`Warnings (${result.warnings.length}):`)
-      for (const w of result.warnings) lines.push(formatIssue(w, useColor))
+      for (const w of result.warnings) lines.push(formatIssue(w, useColor, file))
     }
 
     lines.push('')
@@ -318,3 +366,74 @@ export function calculateExitCode(result: ManifestValidationResult, strict: bool
   // Majority pass → success
   return passingCount > failingCount ? 0 : 1
 }
+
+// ── Registry subcommand ──────────────────────────────────────────────────
+
+/**
+ * Format registry entries (x402lint registry list / search)
+ *
+ * Modes:
+ * - quiet: Empty string
+ * - json: Pure JSON output
+ * - terminal: One table per non-empty section
+ */
+export function formatRegistryListing(listing: RegistryListing, args: CliArgs): string {
+  if (args.quiet) return ''
+  if (args.json) return JSON.stringify(listing, null, 2)
+
+  const sections: string[] = []
+
+  if (listing.networks.length > 0) {
+    const table = borderlessTable(['Network', 'Name', 'Type', 'Testnet'])
+    for (const n of listing.networks) table.push([n.caip2, n.name, n.type, n.testnet ? 'yes' : 'no'])
+    sections.push(`Networks (${listing.networks.length}):\n${table.toString()}`)
+  }
+
+  if (listing.assets.length > 0) {
+    const table = borderlessTable(['Network', 'Symbol', 'Name', 'Decimals', 'Address'])
+    for (const a of listing.assets) table.push([a.network, a.symbol, a.name, a.decimals.toString(), a.address])
+    sections.push(`Assets (${listing.assets.length}):\n${table.toString()}`)
+  }
+
+  if (listing.simpleNames.length > 0) {
+    const table = borderlessTable(['Name', 'Network'])
+    for (const n of listing.simpleNames) table.push([n.name, n.network])
+    sections.push(`Simple names (${listing.simpleNames.length}):\n${table.toString()}`)
+  }
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Format registry differences from the built-in registries (x402lint registry diff)
+ *
+ * Terminal lines use + for added entries and ~ for changed ones, e.g.
+ *   ~ asset eip155:8453 0x8335…: decimals 6 -> 18
+ */
+export function formatRegistryDiff(diffs: RegistryDiff[], args: CliArgs): string {
+  if (args.quiet) return ''
+  if (args.json) return JSON.stringify(diffs, null, 2)
+
+  if (diffs.length === 0) {
+    return 'No differences from the built-in registry'
+  }
+
+  return diffs
+    .map((d) => {
+      const subject =
+        d.entry === 'asset'
+          ? `asset ${d.network} ${d.address}`
+          : d.entry === 'simpleName'
+            ? `simple name ${d.name} -> ${d.network}`
+            : `network ${d.network}`
+      if (d.change === 'added') {
+        return `${green('+')} ${subject}`
+      }
+      const changes = d.differences.map(
+        (f) => `${f.field} ${JSON.stringify(f.builtIn) ?? 'unset'} -> ${JSON.stringify(f.value)}`,
+      )
+      return `${yellow('~')} ${subject}: ${changes.join(', ')}`
+    })
+    .join('\n')
+}
+
@@ -0,0 +1,129 @@
+/**
+ * `x402lint registry` subcommand
+ *
+ * Lists, searches and diffs the effective registry: the built-in networks,
+ * assets and simple names plus entries from the config file and --registry
+ * files (which must already be registered).
+ */
+
+import { getKnownNetworks, getNetworkInfo, getNetworkNamespace } from '../registries/networks'
+import type { NetworkInfo } from '../registries/networks'
+import { getKnownAssets } from '../registries/assets'
+import { getSimpleNames } from '../registries/simple-names'
+import { diffRegistry } from '../registries/import'
+import { toChecksumAddress } from '../crypto/eip55'
+import { formatRegistryDiff, formatRegistryListing } from './format'
+import type { CliArgs } from './args'
+import type { RegistryConfig } from './config'
+
+/**
+ * Effective registry entries, flattened for display
+ */
+export interface RegistryListing {
+  networks: ({ caip2: string } & NetworkInfo)[]
+  assets: { network: string; address: string; symbol: string; name: string; decimals: number }[]
+  simpleNames: { name: string; network: string }[]
+}
+
+const SECTIONS = ['networks', 'assets', 'names'] as const
+
+const USAGE = `Usage:
+  x402lint registry list [networks|assets|names]
+  x402lint registry search <query>
+  x402lint registry diff`
+
+/**
+ * Collect the effective registry
+ */
+function getRegistryListing(): RegistryListing {
+  return {
+    networks: getKnownNetworks().map((caip2) => ({ caip2, ...getNetworkInfo(caip2)! })),
+    assets: getKnownAssets().map(({ network, address, info }) => ({
+      network,
+      // EVM addresses are stored lowercase; show them checksummed
+      address: getNetworkNamespace(network) === 'eip155' ? toChecksumAddress(address) : address,
+      symbol: info.symbol,
+      name: info.name,
+      decimals: info.decimals,
+    })),
+    simpleNames: Object.entries(getSimpleNames()).map(([name, network]) => ({ name, network })),
+  }
+}
+
+/**
+ * Keep entries with any field containing the query (case-insensitive)
+ */
+function searchListing(listing: RegistryListing, query: string): RegistryListing {
+  const needle = query.toLowerCase()
+  const matches = (fields: (string | number | boolean | undefined)[]) =>
+    fields.some((field) => field !== undefined && String(field).toLowerCase().includes(needle))
+
+  return {
+    networks: listing.networks.filter((n) => matches([n.caip2, n.name, n.type, n.bech32Prefix])),
+    assets: listing.assets.filter((a) => matches([a.network, a.address, a.symbol, a.name])),
+    simpleNames: listing.simpleNames.filter((n) => matches([n.name, n.network])),
+  }
+}
+
+/**
+ * Run `x402lint registry <list|search|diff>`
+ *
+ * diff compares the config file and --registry entries with the built-in
+ * registries and exits 1 when any entry changes a built-in one.
+ *
+ * @param args - Parsed CLI arguments (commandArgs holds the action and its arguments)
+ * @param registry - Entries from the config file and --registry files
+ * @returns Exit code
+ */
+export function runRegistryCommand(args: CliArgs, registry: RegistryConfig): number {
+  const [action = 'list', ...rest] = args.commandArgs
+
+  switch (action) {
+    case 'list': {
+      const section = rest[0]
+      if (section !== undefined && !SECTIONS.includes(section as (typeof SECTIONS)[number])) {
+        console.error(`Unknown registry section "${section}".\n\n${USAGE}`)
+        return 2
+      }
+      const listing = getRegistryListing()
+      const output = formatRegistryListing(
+        {
+          networks: section === undefined || section === 'networks' ? listing.networks : [],
+          assets: section === undefined || section === 'assets' ? listing.assets : [],
+          simpleNames: section === undefined || section === 'names' ? listing.simpleNames : [],
+        },
+        args,
+      )
+      if (output) console.log(output)
+      return 0
+    }
+
+    case 'search': {
+      const query = rest.join(' ').trim()
+      if (!query) {
+        console.error(`Missing search query.\n\n${USAGE}`)
+        return 2
+      }
+      const listing = searchListing(getRegistryListing(), query)
+      const found = listing.networks.length + listing.assets.length + listing.simpleNames.length
+      if (found === 0 && !args.json) {
+        if (!args.quiet) console.log(`No registry entries match "${query}"`)
+        return 1
+      }
+      const output = formatRegistryListing(listing, args)
+      if (output) console.log(output)
+      return found === 0 ? 1 : 0
+    }
+
+    case 'diff': {
+      const diffs = diffRegistry(registry)
+      const output = formatRegistryDiff(diffs, args)
+      if (output) console.log(output)
+      return diffs.some((d) => d.change === 'changed') ? 1 : 0
+    }
+
+    default:
+      console.error(`Unknown registry command "${action}".\n\n${USAGE}`)
+      return 2
+  }
+}
@@ -22,3 +22,13 @@ export function decodeBase58(input: string): Uint8Array {
     throw new Error(`Invalid Base58: ${message}`)
   }
 }
+
+/**
+ * Encode bytes as a Base58 string
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base58 string
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  return base58.encode(bytes)
+}
@@ -0,0 +1,58 @@
+/**
+ * Bech32 / bech32m decoder wrapper (BIP-173, BIP-350)
+ * Uses @scure/base for audited, tree-shakeable implementation
+ */
+
+import { bech32, bech32m } from '@scure/base'
+
+/**
+ * Decoded bech32 string
+ */
+export interface DecodedBech32 {
+  /** Human-readable part, lowercase (e.g. "noble") */
+  prefix: string
+  /** Payload bytes */
+  bytes: Uint8Array
+  /** Checksum variant the string was encoded with */
+  encoding: 'bech32' | 'bech32m'
+}
+
+/**
+ * Decode a bech32 or bech32m string
+ *
+ * Tries the bech32 checksum first, then bech32m.
+ *
+ * @param input - Bech32 string, e.g. "cosmos1..."
+ * @returns Prefix, payload bytes and checksum variant
+ * @throws Error if the string is malformed, or "Invalid bech32 checksum" if neither checksum matches
+ */
+export function decodeBech32(input: string): DecodedBech32 {
+  // 90 is the BIP-173 limit; contract addresses with 32-byte payloads fit within it
+  try {
+    const { prefix, words } = bech32.decode(input as `${string}1${string}`, 90)
+    return { prefix, bytes: bech32.fromWords(words), encoding: 'bech32' }
+  } catch (error) {
+    try {
+      const { prefix, words } = bech32m.decode(input as `${string}1${string}`, 90)
+      return { prefix, bytes: bech32m.fromWords(words), encoding: 'bech32m' }
+    } catch (errorM) {
+      const message = error instanceof Error ? error.message : String(error)
+      const messageM = errorM instanceof Error ? errorM.message : String(errorM)
+      if (message.includes('Invalid checksum') && messageM.includes('Invalid checksum')) {
+        throw new Error('Invalid bech32 checksum')
+      }
+      throw new Error(`Invalid bech32: ${message}`)
+    }
+  }
+}
+
+/**
+ * Encode bytes as a bech32 string
+ *
+ * @param prefix - Human-readable part
+ * @param bytes - Payload bytes
+ * @returns Bech32 string
+ */
+export function encodeBech32(prefix: string, bytes: Uint8Array): string {
+  return bech32.encode(prefix, bech32.toWords(bytes), 90)
+}
@@ -0,0 +1,61 @@
+/**
+ * Ed25519 point decompression (RFC 8032 §5.1.3)
+ *
+ * Only answers whether 32 bytes encode a point on the curve. Solana
+ * program-derived addresses are deliberately off-curve, so this separates
+ * wallet keys from PDAs and token accounts.
+ */
+
+const P = 2n ** 255n - 19n
+const D = mod(-121665n * modPow(121666n, P - 2n))
+const SQRT_M1 = modPow(2n, (P - 1n) / 4n)
+
+function mod(a: bigint): bigint {
+  const r = a % P
+  return r >= 0n ? r : r + P
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n
+  let b = mod(base)
+  let e = exponent
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % P
+    b = (b * b) % P
+    e >>= 1n
+  }
+  return result
+}
+
+/**
+ * Check whether 32 bytes are a valid compressed ed25519 point
+ *
+ * @param bytes - Compressed point (little-endian y with the sign of x in the top bit)
+ * @returns true if the bytes decompress to a curve point
+ */
+export function isOnEd25519Curve(bytes: Uint8Array): boolean {
+  if (bytes.length !== 32) return false
+
+  let y = 0n
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) | BigInt(bytes[i]!)
+  }
+  const sign = y >> 255n
+  y &= (1n << 255n) - 1n
+  if (y >= P) return false
+
+  // x² = (y² - 1) / (d·y² + 1)
+  const y2 = (y * y) % P
+  const u = mod(y2 - 1n)
+  const v = mod(D * y2 + 1n)
+  const v3 = (v * v * v) % P
+  let x = (u * v3 % P) * modPow(u * v3 % P * v3 % P * v, (P - 5n) / 8n) % P
+
+  const vx2 = (v * x % P) * x % P
+  if (vx2 !== u) {
+    if (vx2 !== mod(-u)) return false
+    x = (x * SQRT_M1) % P
+  }
+
+  return !(x === 0n && sign === 1n)
+}
@@ -3,6 +3,19 @@
  */
 
 export { keccak256 } from './keccak256'
-export { decodeBase58 } from './base58'
+export { decodeBase58, encodeBase58 } from './base58'
 export { toChecksumAddress, isValidChecksum } from './eip55'
 export { decodeC32Address } from './c32check'
+export { decodeStrKey, crc16Xmodem, STRKEY_VERSIONS } from './strkey'
+export type { StrKeyType, DecodedStrKey } from './strkey'
+export { decodeBech32, encodeBech32 } from './bech32'
+export type { DecodedBech32 } from './bech32'
+export { isOnEd25519Curve } from './ed25519'
+export {
+  createProgramAddress,
+  findProgramAddress,
+  getAssociatedTokenAddress,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+} from './solana-pda'
@@ -0,0 +1,72 @@
+/**
+ * Solana program-derived address (PDA) derivation
+ * Uses @noble/hashes for SHA-256
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js'
+import { decodeBase58, encodeBase58 } from './base58'
+import { isOnEd25519Curve } from './ed25519'
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL'
+
+const PDA_MARKER = new TextEncoder().encode('ProgramDerivedAddress')
+
+/**
+ * Derive a program address from seeds (createProgramAddress)
+ *
+ * @param seeds - Seed byte arrays (each at most 32 bytes)
+ * @param programId - Base58 program id
+ * @returns Base58 address, or null if the hash lands on the curve
+ */
+export function createProgramAddress(seeds: Uint8Array[], programId: string): string | null {
+  const program = decodeBase58(programId)
+  const parts = [...seeds, program, PDA_MARKER]
+  const buffer = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    buffer.set(part, offset)
+    offset += part.length
+  }
+
+  const hash = sha256(buffer)
+  return isOnEd25519Curve(hash) ? null : encodeBase58(hash)
+}
+
+/**
+ * Find the canonical program address for seeds (findProgramAddress)
+ *
+ * Tries bump seeds from 255 down to 0 and returns the first off-curve result.
+ *
+ * @param seeds - Seed byte arrays
+ * @param programId - Base58 program id
+ * @returns Base58 address and its bump seed
+ * @throws Error if no bump yields an off-curve address
+ */
+export function findProgramAddress(seeds: Uint8Array[], programId: string): { address: string; bump: number } {
+  for (let bump = 255; bump >= 0; bump--) {
+    const address = createProgramAddress([...seeds, new Uint8Array([bump])], programId)
+    if (address !== null) return { address, bump }
+  }
+  throw new Error('Unable to find a viable program address bump seed')
+}
+
+/**
+ * Derive the associated token account of an owner for a mint
+ *
+ * @param owner - Base58 wallet address
+ * @param mint - Base58 mint address
+ * @param tokenProgramId - Token program owning the mint (classic SPL Token by default)
+ * @returns Base58 associated token account address
+ */
+export function getAssociatedTokenAddress(
+  owner: string,
+  mint: string,
+  tokenProgramId: string = TOKEN_PROGRAM_ID,
+): string {
+  return findProgramAddress(
+    [decodeBase58(owner), decodeBase58(tokenProgramId), decodeBase58(mint)],
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+  ).address
+}
@@ -0,0 +1,84 @@
+/**
+ * Stellar StrKey decoder
+ * Uses @scure/base for base32 (RFC 4648, unpadded), CRC16-XModem checksum per SEP-23
+ */
+
+import { base32nopad } from '@scure/base'
+
+/**
+ * StrKey version bytes (first decoded byte), keyed by the leading character
+ */
+export const STRKEY_VERSIONS = {
+  G: 6 << 3, // ed25519 public key (account)
+  S: 18 << 3, // ed25519 secret seed
+  M: 12 << 3, // muxed account
+  T: 19 << 3, // pre-auth transaction hash
+  X: 23 << 3, // sha256 hash
+  P: 15 << 3, // signed payload
+  C: 2 << 3, // contract
+} as const
+
+export type StrKeyType = keyof typeof STRKEY_VERSIONS
+
+/**
+ * Decoded StrKey
+ */
+export interface DecodedStrKey {
+  type: StrKeyType
+  payload: Uint8Array
+}
+
+/**
+ * Compute the CRC16-XModem checksum (polynomial 0x1021, initial value 0)
+ *
+ * @param bytes - Input bytes
+ * @returns 16-bit checksum
+ */
+export function crc16Xmodem(bytes: Uint8Array): number {
+  let crc = 0
+  for (const byte of bytes) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+  return crc
+}
+
+/**
+ * Decode a Stellar StrKey (G..., C..., M..., etc.)
+ *
+ * Verifies the base32 alphabet, the version byte and the trailing
+ * little-endian CRC16-XModem checksum.
+ *
+ * @param key - StrKey string
+ * @returns Key type and payload bytes (without version byte and checksum)
+ * @throws Error if the key has invalid characters, an unknown version byte or a bad checksum
+ */
+export function decodeStrKey(key: string): DecodedStrKey {
+  let bytes: Uint8Array
+  try {
+    bytes = base32nopad.decode(key)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Invalid StrKey encoding: ${message}`)
+  }
+
+  if (bytes.length < 3) {
+    throw new Error('Invalid StrKey encoding: too short')
+  }
+
+  const versionByte = bytes[0]!
+  const type = (Object.keys(STRKEY_VERSIONS) as StrKeyType[]).find((t) => STRKEY_VERSIONS[t] === versionByte)
+  if (type === undefined) {
+    throw new Error(`Invalid StrKey version byte: ${versionByte}`)
+  }
+
+  const data = bytes.subarray(0, bytes.length - 2)
+  const checksum = bytes[bytes.length - 2]! | (bytes[bytes.length - 1]! << 8)
+  if (crc16Xmodem(data) !== checksum) {
+    throw new Error('Invalid StrKey checksum')
+  }
+
+  return { type, payload: bytes.slice(1, bytes.length - 2) }
+}
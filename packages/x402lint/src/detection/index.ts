@@ -3,7 +3,8 @@
  */
 
 export { detect } from './detect'
-export { normalize } from './normalize'
+export { normalize, findNormalizationLoss } from './normalize'
+export type { NormalizationLoss } from './normalize'
 export * from './guards'
 export { normalizeWildManifest } from './wild-manifest'
 export type { WildManifestResult } from './wild-manifest'
@@ -7,11 +7,21 @@ import type {
   NormalizedConfig,
   AcceptsEntry,
   ConfigFormat,
+  Resource,
   V2Config,
   V1Config,
 } from '../types'
 import { parseInput } from '../types'
 import { detect } from './detect'
+import { isRecord } from './guards'
+
+/**
+ * A v1 field that the v2 shape cannot represent
+ */
+export interface NormalizationLoss {
+  field: string // path in the v1 input, e.g. "accepts[1].resource"
+  reason: string
+}
 
 /**
  * Normalize any x402 config format to canonical v2 shape
@@ -21,10 +31,12 @@ import { detect } from './detect'
  *
  * Normalization rules:
  * - v2: Pass through with new object (FMT-07)
- * - v1: Map maxAmountRequired → amount, lift per-entry resource (FMT-06)
+ * - v1: Map maxAmountRequired → amount, lift per-entry resource, description
+ *   and mimeType to the top-level resource, keep outputSchema (FMT-06)
  * - unknown: Return null
  *
  * All transformations preserve extensions and extra fields (FMT-08)
+ * Use findNormalizationLoss() to list v1 fields that have no v2 home.
  */
 export function normalize(input: string | object): NormalizedConfig | null {
   const { parsed, error } = parseInput(input)
@@ -72,17 +84,68 @@ function normalizeV2(config: V2Config): NormalizedConfig {
   return result
 }
 
+/**
+ * List the v1 fields normalize() cannot carry into the v2 shape
+ *
+ * v2 has a single resource for all entries, so per-entry resources,
+ * descriptions and MIME types that disagree with the lifted one are lost,
+ * as are descriptions and MIME types when no entry has a resource.
+ *
+ * @param input - JSON string or parsed object
+ * @returns Lost fields (empty for non-v1 input and lossless conversions)
+ */
+export function findNormalizationLoss(input: string | object): NormalizationLoss[] {
+  const { parsed, error } = parseInput(input)
+  if (error || detect(parsed as object) !== 'v1') return []
+  return convertV1(parsed as V1Config).losses
+}
+
+/**
+ * Structural equality for JSON values (key order ignored)
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (!isRecord(a) && !Array.isArray(a)) return false
+  if (!isRecord(b) && !Array.isArray(b)) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const aRecord = a as Record<string, unknown>
+  const bRecord = b as Record<string, unknown>
+  const keys = Object.keys(aRecord)
+  return keys.length === Object.keys(bRecord).length && keys.every((key) => isDeepEqual(aRecord[key], bRecord[key]))
+}
+
+/**
+ * Copy a v1 per-entry resource into the v2 object shape (a bare URL string becomes { url })
+ */
+function toResource(value: Resource | string): Resource {
+  return typeof value === 'string' ? { url: value } : { ...value }
+}
+
 /**
  * Normalize v1 config to v2
  * FMT-06: Map maxAmountRequired → amount, lift per-entry resource to top level
  */
 function normalizeV1ToV2(config: V1Config): NormalizedConfig {
-  let topLevelResource: NormalizedConfig['resource'] = undefined
+  return convertV1(config).config
+}
 
-  const mappedAccepts: AcceptsEntry[] = config.accepts.map((entry) => {
-    // Lift first resource to top level
-    if (entry.resource && !topLevelResource) {
-      topLevelResource = entry.resource
+/**
+ * Convert a v1 config to v2, recording what does not fit
+ */
+function convertV1(config: V1Config): { config: NormalizedConfig; losses: NormalizationLoss[] } {
+  const losses: NormalizationLoss[] = []
+  let topLevelResource: Resource | undefined = undefined
+  let resourceIndex = -1
+
+  const mappedAccepts: AcceptsEntry[] = config.accepts.map((entry, i) => {
+    // Lift first resource to top level; v2 has one resource for all entries
+    if (entry.resource) {
+      if (!topLevelResource) {
+        topLevelResource = toResource(entry.resource)
+        resourceIndex = i
+      } else if (!isDeepEqual(toResource(entry.resource), toResource(config.accepts[resourceIndex]!.resource!))) {
+        losses.push({ field: `accepts[${i}].resource`, reason: `differs from accepts[${resourceIndex}].resource` })
+      }
     }
 
     const mapped: AcceptsEntry = {
@@ -101,16 +164,40 @@ function normalizeV1ToV2(config: V1Config): NormalizedConfig {
       mapped.extra = entry.extra
     }
 
+    if (isRecord(entry.outputSchema)) {
+      mapped.outputSchema = entry.outputSchema
+    }
+
     return mapped
   })
 
+  // description and mimeType describe the resource in v2
+  // (cast: TS does not track the assignment inside the map callback)
+  const resource = topLevelResource as Resource | undefined
+  for (const key of ['description', 'mimeType'] as const) {
+    let source = `accepts[${resourceIndex}].resource.${key}`
+    config.accepts.forEach((entry, i) => {
+      const value = entry[key]
+      if (typeof value !== 'string') return
+      const field = `accepts[${i}].${key}`
+      if (!resource) {
+        losses.push({ field, reason: 'no entry has a resource to hold it' })
+      } else if (resource[key] === undefined) {
+        resource[key] = value
+        source = field
+      } else if (resource[key] !== value) {
+        losses.push({ field, reason: `differs from ${source}` })
+      }
+    })
+  }
+
   const result: NormalizedConfig = {
     x402Version: 2,
     accepts: mappedAccepts,
   }
 
-  if (topLevelResource !== undefined) {
-    result.resource = topLevelResource
+  if (resource !== undefined) {
+    result.resource = resource
   }
 
   if (config.error !== undefined) {
@@ -121,6 +208,5 @@ function normalizeV1ToV2(config: V1Config): NormalizedConfig {
     result.extensions = config.extensions
   }
 
-  return result
+  return { config: result, losses }
 }
-
@@ -0,0 +1,148 @@
+/**
+ * Auto-fix API
+ *
+ * Applies the safe suggestions of issues reported by validate() and
+ * validateManifest(). String input is edited in place so key order,
+ * indentation and everything else in the text is preserved.
+ * Never throws for bad input.
+ */
+
+import type { FixChange, FixResult } from './types/fix'
+import type { ManifestConfig } from './types/manifest'
+import type { FixSuggestion, SourceMap, ValidationIssue } from './types/validation'
+import type { ValidationOptions } from './validation/orchestrator'
+import { parseInput } from './types/parse-input'
+import { isRecord } from './detection/guards'
+import { detect } from './detection/detect'
+import { validate } from './validation/orchestrator'
+import { validateManifest } from './validation/manifest'
+import { assertPriceBounds } from './validation/rules'
+import { applyPatch, getAtPointer } from './patch'
+
+/**
+ * Only safe suggestions made of value replacements are applied: they are
+ * lossless (e.g. checksum casing, network aliases) and can be spliced into
+ * the source text. Amounts, suspicious recipients and format upgrades are
+ * never marked safe and are left for the user.
+ */
+function isApplicable(suggestion: FixSuggestion): boolean {
+  return suggestion.safe && suggestion.patch.every((operation) => operation.op === 'replace')
+}
+
+// Fixing one issue can surface another (e.g. a mapped network enables address checks)
+const MAX_PASSES = 3
+
+/**
+ * Apply safe fixes to an x402 config or manifest
+ *
+ * @param input - JSON string or parsed object (config or manifest)
+ * @param options - Validation options; issues turned off or ignored are not fixed
+ * @returns Corrected config, corrected text (string input) and applied changes
+ * @throws TypeError when options.maxPrice or options.minPrice is not a plain decimal string
+ */
+export function fix(input: string | object, options?: ValidationOptions | undefined): FixResult {
+  assertPriceBounds(options)
+
+  const changes: FixChange[] = []
+  let current = input
+
+  try {
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      const applied = fixPass(current, options)
+      if (applied.changes.length === 0) break
+      changes.push(...applied.changes)
+      current = applied.output
+    }
+  } catch {
+    // Safety net: fix() must never throw, keep what was fixed so far
+  }
+
+  const { parsed } = parseInput(current)
+  return {
+    config: isRecord(parsed) ? parsed : null,
+    text: typeof current === 'string' ? current : null,
+    changes,
+  }
+}
+
+/**
+ * Validate once and apply every available fix
+ */
+function fixPass(
+  input: string | object,
+  options: ValidationOptions | undefined,
+): { output: string | object; changes: FixChange[] } {
+  const { parsed, error, locations } = parseInput(input)
+  if (error || !isRecord(parsed)) return { output: input, changes: [] }
+
+  const changes: FixChange[] = []
+  const seen = new Set<string>()
+
+  for (const issue of collectIssues(parsed, options)) {
+    const suggestion = issue.suggestions?.find(isApplicable)
+    if (!suggestion) continue
+
+    for (const operation of suggestion.patch) {
+      if (operation.op !== 'replace' || seen.has(operation.path)) continue
+      const from = getAtPointer(parsed, operation.path)
+      if (from === undefined) continue
+
+      seen.add(operation.path)
+      changes.push({
+        code: issue.code,
+        field: issue.field,
+        label: suggestion.label,
+        path: operation.path,
+        from,
+        to: operation.value,
+      })
+    }
+  }
+
+  if (changes.length === 0) return { output: input, changes }
+
+  if (typeof input === 'string') {
+    return applyToText(input, changes, locations!)
+  }
+
+  const patch = changes.map((change) => ({ op: 'replace' as const, path: change.path, value: change.to }))
+  return { output: applyPatch(parsed, patch), changes }
+}
+
+/**
+ * Run the matching validator and flatten all issues
+ */
+function collectIssues(parsed: object, options: ValidationOptions | undefined): ValidationIssue[] {
+  if (detect(parsed) === 'manifest') {
+    const result = validateManifest(parsed as ManifestConfig, options)
+    const endpointIssues = Object.values(result.endpointResults).flatMap((r) => [...r.errors, ...r.warnings])
+    return [...endpointIssues, ...result.errors, ...result.warnings]
+  }
+
+  const result = validate(parsed, options)
+  return [...result.errors, ...result.warnings]
+}
+
+/**
+ * Replace each changed value in the source text, leaving everything else untouched
+ */
+function applyToText(
+  text: string,
+  changes: FixChange[],
+  locations: SourceMap,
+): { output: string; changes: FixChange[] } {
+  const edits = changes
+    .map((change) => ({ change, location: locations.get(change.path) }))
+    .filter((edit) => edit.location !== undefined)
+    .sort((a, b) => b.location!.value.start.offset - a.location!.value.start.offset)
+
+  let output = text
+  for (const { change, location } of edits) {
+    const { start, end } = location!.value
+    output = output.slice(0, start.offset) + JSON.stringify(change.to) + output.slice(end.offset)
+    change.line = start.line
+    change.column = start.column
+  }
+
+  return { output, changes: edits.map((edit) => edit.change).reverse() }
+}
@@ -8,13 +8,28 @@ export * from './types'
 export * from './registries'
 
 // Re-export detection (Phase 6 Plan 02)
-export { detect, normalize, isManifestConfig, isV2Config, isV1Config } from './detection'
+export { detect, normalize, findNormalizationLoss, isManifestConfig, isV2Config, isV1Config } from './detection'
+export type { NormalizationLoss } from './detection'
 
 // Re-export crypto primitives (Phase 7 Plan 01)
 export * from './crypto'
 
 // Re-export validation utilities (Phase 7 Plan 02)
-export { validateAddress, validateEvmAddress, validateSolanaAddress } from './validation'
+export {
+  validateAddress,
+  validateAssetAddress,
+  validateAptosAddress,
+  validateAptosAsset,
+  validateCosmosAddress,
+  validateEvmAddress,
+  validateSolanaAddress,
+  validateStellarAddress,
+  validateStellarAsset,
+} from './validation'
+
+// Re-export scheme validator registration
+export { registerSchemeValidator } from './validation'
+export type { SchemeValidator } from './validation'
 
 // Re-export validation orchestrator (Phase 8)
 export { validate } from './validation'
@@ -28,8 +43,16 @@ export type { ManifestValidationResult } from './types'
 export { extractConfig } from './extraction'
 export type { ExtractionResult, ExtractionSource, ResponseLike } from './extraction'
 
+// Re-export source location helpers
+export { parseJsonWithLocations, parseFieldPath, toJsonPointer, locateField, locateIssues } from './location'
+export type { JsonParseResult, JsonParseError } from './location'
+
 // Re-export unified check API
 export { check } from './check'
 
+// Re-export auto-fix API
+export { fix } from './fix'
+export { applyPatch, getAtPointer, parsePointer } from './patch'
+
 // Version constant
 export const VERSION = '0.3.1' as const
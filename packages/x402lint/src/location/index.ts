@@ -0,0 +1,7 @@
+/**
+ * Source location barrel export
+ */
+
+export { parseJsonWithLocations } from './json'
+export type { JsonParseResult, JsonParseError } from './json'
+export { parseFieldPath, toJsonPointer, locateField, locateIssues } from './locate'
@@ -0,0 +1,240 @@
+/**
+ * Position-aware JSON parser
+ *
+ * Accepts exactly what JSON.parse accepts and produces the same value, but also
+ * records the source range of every value (and property key) keyed by JSON Pointer.
+ */
+
+import type { SourceMap, SourcePosition, SourceRange } from '../types/validation'
+
+/**
+ * Result of parsing JSON text with locations
+ */
+export interface JsonParseResult {
+  value: unknown
+  locations: SourceMap
+  error: JsonParseError | null
+}
+
+/**
+ * Syntax error with the position where parsing stopped
+ */
+export interface JsonParseError {
+  message: string
+  position: SourcePosition
+}
+
+/**
+ * Escape a property name for use as a JSON Pointer segment (RFC 6901)
+ */
+export function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Build a position lookup for text, converting offsets to line/column
+ */
+function createPositionLookup(text: string): (offset: number) => SourcePosition {
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) lineStarts.push(i + 1)
+  }
+
+  return (offset) => {
+    // Binary search for the last line start <= offset
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid]! <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low]! + 1, offset }
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+
+/**
+ * Parse JSON text, recording the source range of every value
+ *
+ * @param text - JSON text
+ * @returns Parsed value and locations, or a syntax error with its position
+ */
+export function parseJsonWithLocations(text: string): JsonParseResult {
+  const toPosition = createPositionLookup(text)
+  const locations: SourceMap = new Map()
+  let pos = 0
+
+  const fail = (message: string): never => {
+    throw { message, offset: pos }
+  }
+
+  const range = (start: number, end: number): SourceRange => ({
+    start: toPosition(start),
+    end: toPosition(end),
+  })
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length) {
+      const c = text.charCodeAt(pos)
+      if (c === 32 || c === 9 || c === 10 || c === 13) {
+        pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  const parseString = (): string => {
+    pos++ // opening quote
+    let result = ''
+    let chunkStart = pos
+
+    while (true) {
+      if (pos >= text.length) fail('Unterminated string')
+      const c = text.charCodeAt(pos)
+
+      if (c === 34) {
+        result += text.slice(chunkStart, pos)
+        pos++
+        return result
+      }
+
+      if (c < 32) fail('Control character in string')
+
+      if (c === 92) {
+        result += text.slice(chunkStart, pos)
+        const escape = text[pos + 1]
+        if (escape === 'u') {
+          const hex = text.slice(pos + 2, pos + 6)
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape')
+          result += String.fromCharCode(parseInt(hex, 16))
+          pos += 6
+        } else if (escape !== undefined && escape in ESCAPES) {
+          result += ESCAPES[escape]
+          pos += 2
+        } else {
+          fail('Invalid escape sequence')
+        }
+        chunkStart = pos
+        continue
+      }
+
+      pos++
+    }
+  }
+
+  const parseValue = (pointer: string, key: SourceRange | undefined): unknown => {
+    skipWhitespace()
+    const start = pos
+    const c = text[pos]
+    let value: unknown
+
+    if (c === '{') {
+      pos++
+      const obj: Record<string, unknown> = {}
+      skipWhitespace()
+      if (text[pos] === '}') {
+        pos++
+      } else {
+        while (true) {
+          skipWhitespace()
+          if (text[pos] !== '"') fail('Expected property name')
+          const keyStart = pos
+          const name = parseString()
+          const keyRange = range(keyStart, pos)
+          skipWhitespace()
+          if (text[pos] !== ':') fail("Expected ':' after property name")
+          pos++
+          const child = parseValue(`${pointer}/${escapePointerSegment(name)}`, keyRange)
+          // defineProperty so "__proto__" becomes an own property, as with JSON.parse
+          Object.defineProperty(obj, name, { value: child, writable: true, enumerable: true, configurable: true })
+          skipWhitespace()
+          if (text[pos] === ',') {
+            pos++
+            continue
+          }
+          if (text[pos] === '}') {
+            pos++
+            break
+          }
+          fail("Expected ',' or '}' in object")
+        }
+      }
+      value = obj
+    } else if (c === '[') {
+      pos++
+      const arr: unknown[] = []
+      skipWhitespace()
+      if (text[pos] === ']') {
+        pos++
+      } else {
+        while (true) {
+          arr.push(parseValue(`${pointer}/${arr.length}`, undefined))
+          skipWhitespace()
+          if (text[pos] === ',') {
+            pos++
+            continue
+          }
+          if (text[pos] === ']') {
+            pos++
+            break
+          }
+          fail("Expected ',' or ']' in array")
+        }
+      }
+      value = arr
+    } else if (c === '"') {
+      value = parseString()
+    } else if (text.startsWith('true', pos)) {
+      pos += 4
+      value = true
+    } else if (text.startsWith('false', pos)) {
+      pos += 5
+      value = false
+    } else if (text.startsWith('null', pos)) {
+      pos += 4
+      value = null
+    } else {
+      NUMBER_PATTERN.lastIndex = pos
+      const match = NUMBER_PATTERN.exec(text)
+      if (!match) fail(pos >= text.length ? 'Unexpected end of input' : 'Unexpected token')
+      pos += match![0].length
+      value = Number(match![0])
+    }
+
+    locations.set(pointer, { key, value: range(start, pos) })
+    return value
+  }
+
+  try {
+    const value = parseValue('', undefined)
+    skipWhitespace()
+    if (pos < text.length) fail('Unexpected content after JSON value')
+    return { value, locations, error: null }
+  } catch (err) {
+    // Native errors (e.g. stack overflow on absurdly deep nesting) report the current position
+    const { message, offset } =
+      err instanceof Error ? { message: err.message, offset: pos } : (err as { message: string; offset: number })
+    return {
+      value: null,
+      locations: new Map(),
+      error: { message, position: toPosition(Math.min(offset, text.length)) },
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Map issue field paths to source locations
+ *
+ * Field paths use the repo's dotted/bracket form (accepts[0].payTo,
+ * endpoints["api-weather"].resource.url, $ for the root). They are resolved
+ * against a SourceMap from parseJsonWithLocations().
+ */
+
+import type { SourceMap, SourceRange, ValidationIssue } from '../types/validation'
+import { escapePointerSegment } from './json'
+
+/**
+ * Raw property names to try when a normalized field is absent from the source
+ * (v1 configs use maxAmountRequired where normalized v2 uses amount)
+ */
+const FIELD_ALIASES: Record<string, string> = {
+  amount: 'maxAmountRequired',
+}
+
+/**
+ * Split a field path into property names and array indices
+ *
+ * @param field - Field path, e.g. 'accepts[0].payTo' or 'endpoints["a"].resource'
+ * @returns Path segments, or null if the path is malformed
+ */
+export function parseFieldPath(field: string): Array<string | number> | null {
+  if (field === '$' || field === '') return []
+
+  const segments: Array<string | number> = []
+  let i = 0
+
+  while (i < field.length) {
+    if (field[i] === '[') {
+      if (field[i + 1] === '"') {
+        const close = field.indexOf('"]', i + 2)
+        if (close === -1) return null
+        segments.push(field.slice(i + 2, close))
+        i = close + 2
+      } else {
+        const close = field.indexOf(']', i)
+        const index = field.slice(i + 1, close)
+        if (close === -1 || !/^\d+$/.test(index)) return null
+        segments.push(Number(index))
+        i = close + 1
+      }
+    } else {
+      if (field[i] === '.') i++
+      let end = i
+      while (end < field.length && field[end] !== '.' && field[end] !== '[') end++
+      if (end === i) return null
+      segments.push(field.slice(i, end))
+      i = end
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Convert a field path to a JSON Pointer (RFC 6901)
+ *
+ * @param field - Field path, e.g. 'accepts[0].payTo'
+ * @returns JSON Pointer, e.g. '/accepts/0/payTo', or null if the path is malformed
+ */
+export function toJsonPointer(field: string): string | null {
+  const segments = parseFieldPath(field)
+  if (segments === null) return null
+  return segments.map((s) => `/${escapePointerSegment(String(s))}`).join('')
+}
+
+/**
+ * Find the source range for a field path
+ *
+ * Falls back to the nearest enclosing value that exists in the source, so a
+ * missing field points at the object that should contain it.
+ *
+ * @param field - Field path
+ * @param locations - Source map of the validated document
+ * @returns Value range, or undefined if the path is malformed or nothing matches
+ */
+export function locateField(field: string, locations: SourceMap): SourceRange | undefined {
+  const segments = parseFieldPath(field)
+  if (segments === null) return undefined
+
+  let pointer = ''
+  for (const segment of segments) {
+    const name = String(segment)
+    const candidates = FIELD_ALIASES[name] ? [name, FIELD_ALIASES[name]] : [name]
+    const next = candidates
+      .map((c) => `${pointer}/${escapePointerSegment(c)}`)
+      .find((p) => locations.has(p))
+    if (next === undefined) break
+    pointer = next
+  }
+
+  return locations.get(pointer)?.value
+}
+
+/**
+ * Attach line, column and range to issues
+ *
+ * Issues that already carry a range (e.g. JSON syntax errors) are left as is.
+ *
+ * @param issues - Issues to locate
+ * @param locations - Source map of the validated document
+ * @returns New issue objects with locations where the field could be resolved
+ */
+export function locateIssues(issues: ValidationIssue[], locations: SourceMap): ValidationIssue[] {
+  return issues.map((issue) => {
+    if (issue.range) return issue
+    const range = locateField(issue.field, locations)
+    if (!range) return issue
+    return { ...issue, line: range.start.line, column: range.start.column, range }
+  })
+}
@@ -0,0 +1,202 @@
+/**
+ * JSON Patch (RFC 6902)
+ *
+ * Applies the operations carried by FixSuggestion.patch. Documents are never
+ * mutated: every container on a changed path is copied.
+ */
+
+import type { JsonPatchOperation } from './types/validation'
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped segments
+ *
+ * @param pointer - JSON Pointer, e.g. '/accepts/0/payTo' ('' is the root)
+ * @returns Segments, e.g. ['accepts', '0', 'payTo']
+ * @throws Error if the pointer is not '' and does not start with '/'
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`)
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Read the value at a JSON Pointer
+ *
+ * @param document - JSON document
+ * @param pointer - JSON Pointer
+ * @returns Value, or undefined if the path does not exist
+ */
+export function getAtPointer(document: unknown, pointer: string): unknown {
+  let current = document
+  for (const segment of parsePointer(pointer)) {
+    if (current === null || typeof current !== 'object') return undefined
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+function arrayIndex(array: unknown[], segment: string, allowEnd: boolean): number {
+  if (allowEnd && segment === '-') return array.length
+  if (!/^(0|[1-9]\d*)$/.test(segment)) {
+    throw new Error(`Invalid array index: ${segment}`)
+  }
+  const index = Number(segment)
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index out of bounds: ${segment}`)
+  }
+  return index
+}
+
+/**
+ * Rebuild document with the container at segments replaced by update(container)
+ */
+function updateAt(
+  document: unknown,
+  segments: string[],
+  update: (container: unknown, key: string) => unknown,
+): unknown {
+  const [head, ...rest] = segments
+  if (head === undefined) {
+    throw new Error('Cannot update the document root')
+  }
+  if (rest.length === 0) {
+    return update(document, head)
+  }
+  if (document === null || typeof document !== 'object') {
+    throw new Error(`Path not found: ${head}`)
+  }
+
+  if (Array.isArray(document)) {
+    const index = arrayIndex(document, head, false)
+    const copy = [...document]
+    copy[index] = updateAt(copy[index], rest, update)
+    return copy
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(document, head)) {
+    throw new Error(`Path not found: ${head}`)
+  }
+  const copy = { ...(document as Record<string, unknown>) }
+  copy[head] = updateAt(copy[head], rest, update)
+  return copy
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  const segments = parsePointer(pointer)
+  if (segments.length === 0) return value
+
+  return updateAt(document, segments, (container, key) => {
+    if (Array.isArray(container)) {
+      const copy = [...container]
+      copy.splice(arrayIndex(container, key, true), 0, value)
+      return copy
+    }
+    if (container === null || typeof container !== 'object') {
+      throw new Error(`Cannot add to non-container at ${pointer}`)
+    }
+    return { ...(container as Record<string, unknown>), [key]: value }
+  })
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+  return updateAt(document, parsePointer(pointer), (container, key) => {
+    if (Array.isArray(container)) {
+      const copy = [...container]
+      copy.splice(arrayIndex(container, key, false), 1)
+      return copy
+    }
+    if (container === null || typeof container !== 'object' || !Object.prototype.hasOwnProperty.call(container, key)) {
+      throw new Error(`Path not found: ${pointer}`)
+    }
+    const { [key]: _removed, ...rest } = container as Record<string, unknown>
+    return rest
+  })
+}
+
+function replaceValue(document: unknown, pointer: string, value: unknown): unknown {
+  const segments = parsePointer(pointer)
+  if (segments.length === 0) return value
+
+  return updateAt(document, segments, (container, key) => {
+    if (Array.isArray(container)) {
+      const copy = [...container]
+      copy[arrayIndex(container, key, false)] = value
+      return copy
+    }
+    if (container === null || typeof container !== 'object' || !Object.prototype.hasOwnProperty.call(container, key)) {
+      throw new Error(`Path not found: ${pointer}`)
+    }
+    // Spread keeps the key in its original position
+    return { ...(container as Record<string, unknown>), [key]: value }
+  })
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  if (aKeys.length !== bKeys.length) return false
+  return aKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  )
+}
+
+/**
+ * Apply JSON Patch operations to a document
+ *
+ * @param document - JSON document (not mutated)
+ * @param patch - Operations, applied in order
+ * @returns Patched copy of the document
+ * @throws Error if an operation targets a missing path or a test fails
+ */
+export function applyPatch<T>(document: T, patch: readonly JsonPatchOperation[]): T {
+  let result: unknown = document
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, operation.path, operation.value)
+        break
+      case 'remove':
+        result = removeValue(result, operation.path)
+        break
+      case 'replace':
+        result = replaceValue(result, operation.path, operation.value)
+        break
+      case 'move': {
+        const value = getAtPointer(result, operation.from)
+        if (value === undefined) throw new Error(`Path not found: ${operation.from}`)
+        result = addValue(removeValue(result, operation.from), operation.path, value)
+        break
+      }
+      case 'copy': {
+        const value = getAtPointer(result, operation.from)
+        if (value === undefined) throw new Error(`Path not found: ${operation.from}`)
+        result = addValue(result, operation.path, value)
+        break
+      }
+      case 'test':
+        if (!deepEqual(getAtPointer(result, operation.path), operation.value)) {
+          throw new Error(`Test failed at ${operation.path}`)
+        }
+        break
+      default: {
+        const _exhaustive: never = operation
+        return _exhaustive
+      }
+    }
+  }
+
+  return result as T
+}
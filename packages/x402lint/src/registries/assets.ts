@@ -2,12 +2,20 @@
 // REG-04: Known asset mapping
 // REG-05: Unknown asset handling
 
-import { getNetworkNamespace } from './networks'
+import { getNetworkNamespace, isValidCaip2 } from './networks'
+
+// EIP-712 domain used by the token's transferWithAuthorization signatures
+// Clients sign with extra.name / extra.version, so these must match on-chain
+export interface Eip712Domain {
+  name: string
+  version: string
+}
 
 export interface AssetInfo {
   symbol: string
   name: string
   decimals: number
+  eip712?: Eip712Domain | undefined // EVM tokens only
 }
 
 // Known assets by network and address
@@ -19,6 +27,7 @@ export const KNOWN_ASSETS = {
       symbol: 'USDC',
       name: 'USD Coin',
       decimals: 6,
+      eip712: { name: 'USD Coin', version: '2' },
     },
   },
 
@@ -28,6 +37,7 @@ export const KNOWN_ASSETS = {
       symbol: 'USDC',
       name: 'USD Coin',
       decimals: 6,
+      eip712: { name: 'USDC', version: '2' }, // differs from mainnet
     },
   },
 
@@ -37,6 +47,7 @@ export const KNOWN_ASSETS = {
       symbol: 'USDC',
       name: 'USD Coin',
       decimals: 6,
+      eip712: { name: 'USD Coin', version: '2' },
     },
   },
 
@@ -50,30 +61,106 @@ export const KNOWN_ASSETS = {
   },
 } as const satisfies Record<string, Record<string, AssetInfo>>
 
-// Check if asset exists in registry
-export function isKnownAsset(network: string, address: string): boolean {
-  const networkAssets = KNOWN_ASSETS[network as keyof typeof KNOWN_ASSETS]
+// Assets registered at runtime, keyed by network then lookup address
+// Registered entries take precedence over KNOWN_ASSETS
+const registeredAssets = new Map<string, Map<string, AssetInfo>>()
+
+// Use lowercase comparison for EVM networks
+function toLookupAddress(network: string, address: string): string {
+  return getNetworkNamespace(network) === 'eip155' ? address.toLowerCase() : address
+}
+
+// Register an asset so lookups treat it as known
+export function registerAsset(network: string, address: string, info: AssetInfo): void {
+  if (!isValidCaip2(network)) {
+    throw new Error(`Invalid CAIP-2 network identifier: ${network}`)
+  }
+  let networkAssets = registeredAssets.get(network)
   if (!networkAssets) {
-    return false
+    networkAssets = new Map()
+    registeredAssets.set(network, networkAssets)
+  }
+  networkAssets.set(toLookupAddress(network, address), { ...info })
+}
+
+// Remove every registered asset, leaving only KNOWN_ASSETS
+export function resetRegisteredAssets(): void {
+  registeredAssets.clear()
+}
+
+// Reverse index over KNOWN_ASSETS: lookup address -> networks that list it
+const KNOWN_ASSET_NETWORKS = new Map<string, string[]>()
+for (const [network, assets] of Object.entries(KNOWN_ASSETS)) {
+  for (const address of Object.keys(assets)) {
+    KNOWN_ASSET_NETWORKS.set(address, [...(KNOWN_ASSET_NETWORKS.get(address) ?? []), network])
+  }
+}
+
+// Find every known asset with this address, on any network
+// Registered entries shadow KNOWN_ASSETS entries for the same network
+export function findAssetsByAddress(address: string): { network: string; info: AssetInfo }[] {
+  const matches = new Map<string, AssetInfo>()
+
+  // EVM entries are indexed lowercase, others verbatim
+  for (const key of new Set([address, address.toLowerCase()])) {
+    for (const network of KNOWN_ASSET_NETWORKS.get(key) ?? []) {
+      if (toLookupAddress(network, address) === key) {
+        matches.set(network, getAssetInfo(network, address)!)
+      }
+    }
+  }
+  for (const [network, assets] of registeredAssets) {
+    const info = assets.get(toLookupAddress(network, address))
+    if (info) {
+      matches.set(network, info)
+    }
   }
 
-  // Use lowercase comparison for EVM networks
-  const namespace = getNetworkNamespace(network)
-  const lookupAddress = namespace === 'eip155' ? address.toLowerCase() : address
+  return [...matches].map(([network, info]) => ({ network, info }))
+}
 
-  return lookupAddress in networkAssets
+// List the known assets on a network (registered entries first)
+// EVM addresses are returned in lowercase lookup form
+export function getNetworkAssets(network: string): { address: string; info: AssetInfo }[] {
+  const assets = new Map<string, AssetInfo>(registeredAssets.get(network))
+  const known = KNOWN_ASSETS[network as keyof typeof KNOWN_ASSETS] as Record<string, AssetInfo> | undefined
+  for (const [address, info] of Object.entries(known ?? {})) {
+    if (!assets.has(address)) {
+      assets.set(address, info)
+    }
+  }
+  return [...assets].map(([address, info]) => ({ address, info }))
+}
+
+// List every known asset (built-in and registered) on every network
+export function getKnownAssets(): { network: string; address: string; info: AssetInfo }[] {
+  const networks = new Set([...Object.keys(KNOWN_ASSETS), ...registeredAssets.keys()])
+  return [...networks].flatMap((network) =>
+    getNetworkAssets(network).map(({ address, info }) => ({ network, address, info })),
+  )
+}
+
+// Check if asset exists in registry
+export function isKnownAsset(network: string, address: string): boolean {
+  return getAssetInfo(network, address) !== undefined
 }
 
 // Get asset info from registry
 export function getAssetInfo(network: string, address: string): AssetInfo | undefined {
+  const lookupAddress = toLookupAddress(network, address)
+
+  const registered = registeredAssets.get(network)?.get(lookupAddress)
+  if (registered) {
+    return registered
+  }
+
   const networkAssets = KNOWN_ASSETS[network as keyof typeof KNOWN_ASSETS]
   if (!networkAssets) {
     return undefined
   }
 
-  // Use lowercase comparison for EVM networks
-  const namespace = getNetworkNamespace(network)
-  const lookupAddress = namespace === 'eip155' ? address.toLowerCase() : address
-
+  if (!Object.prototype.hasOwnProperty.call(networkAssets, lookupAddress)) {
+    return undefined
+  }
   return networkAssets[lookupAddress as keyof typeof networkAssets]
 }
@@ -0,0 +1,255 @@
+// Registry import from external list formats
+// Uniswap Token Lists (https://tokenlists.org) for assets, chainlist-style JSON for networks
+
+import { KNOWN_NETWORKS, getNetworkNamespace } from './networks'
+import type { NetworkInfo } from './networks'
+import { KNOWN_ASSETS } from './assets'
+import type { AssetInfo } from './assets'
+import { SIMPLE_NAME_TO_CAIP2 } from './simple-names'
+
+/**
+ * Networks and assets to add to the registry
+ */
+export interface RegistryEntries {
+  networks: Record<string, NetworkInfo>
+  assets: Record<string, Record<string, AssetInfo>> // keyed by network, then asset address
+}
+
+/**
+ * A registry entry compared to the built-in registries
+ */
+export interface RegistryDiff {
+  entry: 'network' | 'asset' | 'simpleName'
+  change: 'added' | 'changed'
+  network: string
+  address?: string | undefined // assets only
+  name?: string | undefined // simple names only
+  differences: { field: string; builtIn: unknown; value: unknown }[] // empty when added
+}
+
+/**
+ * Parsed list plus the entries that disagree with the built-in registries
+ */
+export interface ImportResult extends RegistryEntries {
+  conflicts: RegistryDiff[]
+}
+
+// Token Lists schema limits (token-lists v13 tokenlist.schema.json)
+const TOKEN_NAME_MAX = 60
+const TOKEN_SYMBOL_MAX = 20
+const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/
+
+// Used when a chain list entry has no isTestnet flag
+const TESTNET_NAME_REGEX = /\b(?:testnet|sepolia|goerli|holesky|hoodi|devnet|fuji)\b/i
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return v !== null && typeof v === 'object' && !Array.isArray(v)
+}
+
+function isChainId(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 1
+}
+
+function builtInNetwork(caip2: string): NetworkInfo | undefined {
+  return KNOWN_NETWORKS[caip2 as keyof typeof KNOWN_NETWORKS]
+}
+
+function builtInAsset(network: string, address: string): AssetInfo | undefined {
+  const assets = KNOWN_ASSETS[network as keyof typeof KNOWN_ASSETS] as Record<string, AssetInfo> | undefined
+  return assets?.[getNetworkNamespace(network) === 'eip155' ? address.toLowerCase() : address]
+}
+
+/**
+ * Compare registry entries with the built-in registries
+ *
+ * Entries missing from the built-ins are "added"; entries whose fields
+ * disagree are "changed". Optional fields (bech32Prefix, eip712) are only
+ * compared when the entry sets them. Identical entries are omitted.
+ *
+ * @param entries - Networks, assets and simple names to compare
+ * @returns One diff per added or changed entry
+ */
+export function diffRegistry(
+  entries: Partial<RegistryEntries> & { simpleNames?: Record<string, string> | undefined },
+): RegistryDiff[] {
+  const diffs: RegistryDiff[] = []
+
+  for (const [network, info] of Object.entries(entries.networks ?? {})) {
+    const builtIn = builtInNetwork(network)
+    if (!builtIn) {
+      diffs.push({ entry: 'network', change: 'added', network, differences: [] })
+      continue
+    }
+    const fields: (keyof NetworkInfo)[] = ['name', 'type', 'testnet']
+    if (info.bech32Prefix !== undefined) {
+      fields.push('bech32Prefix')
+    }
+    const differences = fields
+      .filter((field) => info[field] !== builtIn[field])
+      .map((field) => ({ field, builtIn: builtIn[field], value: info[field] }))
+    if (differences.length > 0) {
+      diffs.push({ entry: 'network', change: 'changed', network, differences })
+    }
+  }
+
+  for (const [network, assets] of Object.entries(entries.assets ?? {})) {
+    for (const [address, info] of Object.entries(assets)) {
+      const builtIn = builtInAsset(network, address)
+      if (!builtIn) {
+        diffs.push({ entry: 'asset', change: 'added', network, address, differences: [] })
+        continue
+      }
+      const differences: RegistryDiff['differences'] = (['symbol', 'name', 'decimals'] as const)
+        .filter((field) => info[field] !== builtIn[field])
+        .map((field) => ({ field, builtIn: builtIn[field], value: info[field] }))
+      if (
+        info.eip712 !== undefined &&
+        (info.eip712.name !== builtIn.eip712?.name || info.eip712.version !== builtIn.eip712?.version)
+      ) {
+        differences.push({ field: 'eip712', builtIn: builtIn.eip712, value: info.eip712 })
+      }
+      if (differences.length > 0) {
+        diffs.push({ entry: 'asset', change: 'changed', network, address, differences })
+      }
+    }
+  }
+
+  for (const [name, network] of Object.entries(entries.simpleNames ?? {})) {
+    const builtIn: string | undefined = SIMPLE_NAME_TO_CAIP2[name.toLowerCase() as keyof typeof SIMPLE_NAME_TO_CAIP2]
+    if (!builtIn) {
+      diffs.push({ entry: 'simpleName', change: 'added', network, name, differences: [] })
+    } else if (builtIn !== network) {
+      diffs.push({
+        entry: 'simpleName',
+        change: 'changed',
+        network,
+        name,
+        differences: [{ field: 'network', builtIn, value: network }],
+      })
+    }
+  }
+
+  return diffs
+}
+
+/**
+ * Parse a Uniswap Token List into eip155 assets
+ *
+ * Validates the list against the Token Lists schema (name, timestamp,
+ * version, and per token chainId, address, name, symbol, decimals).
+ * Tokens are keyed by eip155:<chainId>.
+ *
+ * @param value - Parsed tokenlist.json
+ * @returns Assets and the tokens that disagree with the built-in registry
+ * @throws Error naming the first schema violation, e.g. "tokens[3].decimals: ..."
+ */
+export function parseTokenList(value: unknown): ImportResult {
+  if (!isObject(value)) {
+    throw new Error('Token list must be a JSON object')
+  }
+  if (typeof value.name !== 'string' || value.name === '') {
+    throw new Error('Token list "name" must be a non-empty string')
+  }
+  if (typeof value.timestamp !== 'string' || Number.isNaN(Date.parse(value.timestamp))) {
+    throw new Error('Token list "timestamp" must be an ISO 8601 date-time string')
+  }
+  const version = value.version
+  if (
+    !isObject(version) ||
+    !(['major', 'minor', 'patch'] as const).every(
+      (part) => Number.isInteger(version[part]) && (version[part] as number) >= 0,
+    )
+  ) {
+    throw new Error('Token list "version" must be { major, minor, patch } non-negative integers')
+  }
+  if (!Array.isArray(value.tokens)) {
+    throw new Error('Token list "tokens" must be an array')
+  }
+
+  const assets: RegistryEntries['assets'] = {}
+  const seen = new Set<string>()
+  value.tokens.forEach((token: unknown, index) => {
+    const path = `tokens[${index}]`
+    if (!isObject(token)) {
+      throw new Error(`${path} must be an object`)
+    }
+    if (!isChainId(token.chainId)) {
+      throw new Error(`${path}.chainId must be a positive integer`)
+    }
+    if (typeof token.address !== 'string' || !EVM_ADDRESS_REGEX.test(token.address)) {
+      throw new Error(`${path}.address must be a 0x-prefixed 40 hex character address`)
+    }
+    if (typeof token.name !== 'string' || token.name === '' || token.name.length > TOKEN_NAME_MAX) {
+      throw new Error(`${path}.name must be a string of 1-${TOKEN_NAME_MAX} characters`)
+    }
+    if (typeof token.symbol !== 'string' || token.symbol === '' || token.symbol.length > TOKEN_SYMBOL_MAX) {
+      throw new Error(`${path}.symbol must be a string of 1-${TOKEN_SYMBOL_MAX} characters`)
+    }
+    if (
+      typeof token.decimals !== 'number' ||
+      !Number.isInteger(token.decimals) ||
+      token.decimals < 0 ||
+      token.decimals > 255
+    ) {
+      throw new Error(`${path}.decimals must be an integer from 0 to 255`)
+    }
+
+    const network = `eip155:${token.chainId}`
+    const key = `${network} ${token.address.toLowerCase()}`
+    if (seen.has(key)) {
+      throw new Error(`${path}: duplicate token ${token.address} on ${network}`)
+    }
+    seen.add(key)
+    const networkAssets = (assets[network] ??= {})
+    networkAssets[token.address] = { symbol: token.symbol, name: token.name, decimals: token.decimals }
+  })
+
+  return { networks: {}, assets, conflicts: diffRegistry({ assets }).filter((diff) => diff.change === 'changed') }
+}
+
+/**
+ * Parse a chainlist-style networks file into eip155 networks
+ *
+ * Expects an array of { name, chainId, isTestnet? } objects, as in the
+ * chainlist.org and ethereum-lists/chains exports; other fields are ignored.
+ * Without isTestnet, names containing testnet, sepolia, goerli, holesky,
+ * hoodi, devnet or fuji are treated as testnets.
+ *
+ * @param value - Parsed chain list JSON
+ * @returns Networks and the chains that disagree with the built-in registry
+ * @throws Error naming the first schema violation, e.g. "[2].chainId: ..."
+ */
+export function parseChainList(value: unknown): ImportResult {
+  if (!Array.isArray(value)) {
+    throw new Error('Chain list must be a JSON array of chains')
+  }
+
+  const networks: RegistryEntries['networks'] = {}
+  value.forEach((chain: unknown, index) => {
+    const path = `[${index}]`
+    if (!isObject(chain)) {
+      throw new Error(`${path} must be an object`)
+    }
+    if (typeof chain.name !== 'string' || chain.name === '') {
+      throw new Error(`${path}.name must be a non-empty string`)
+    }
+    if (!isChainId(chain.chainId)) {
+      throw new Error(`${path}.chainId must be a positive integer`)
+    }
+    if (chain.isTestnet !== undefined && typeof chain.isTestnet !== 'boolean') {
+      throw new Error(`${path}.isTestnet must be a boolean`)
+    }
+
+    const caip2 = `eip155:${chain.chainId}`
+    if (caip2 in networks) {
+      throw new Error(`${path}: duplicate chainId ${chain.chainId}`)
+    }
+    networks[caip2] = {
+      name: chain.name,
+      type: 'evm',
+      testnet: chain.isTestnet ?? TESTNET_NAME_REGEX.test(chain.name),
+    }
+  })
+
+  return { networks, assets: {}, conflicts: diffRegistry({ networks }).filter((diff) => diff.change === 'changed') }
+}
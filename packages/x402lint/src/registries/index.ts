@@ -2,3 +2,6 @@
 export * from './networks'
 export * from './assets'
 export * from './simple-names'
+export * from './schemes'
+export * from './import'
+export * from './reset'
@@ -2,12 +2,13 @@
 // REG-01: Known CAIP-2 network registry
 // REG-02: Format validation and registry lookup
 
-export type NetworkType = 'evm' | 'solana' | 'stellar' | 'aptos' | 'stacks'
+export type NetworkType = 'evm' | 'solana' | 'stellar' | 'aptos' | 'stacks' | 'cosmos'
 
 export interface NetworkInfo {
   name: string
   type: NetworkType
   testnet: boolean
+  bech32Prefix?: string | undefined // Cosmos chains only: account address prefix
 }
 
 // CAIP-2 format: namespace:reference
@@ -51,8 +52,35 @@ export const KNOWN_NETWORKS = {
   // Aptos networks (community convention, not official CAIP)
   'aptos:1': { name: 'Aptos', type: 'aptos', testnet: false },
   'aptos:2': { name: 'Aptos Testnet', type: 'aptos', testnet: true },
+
+  // Cosmos networks (CAIP-2 reference is the chain ID)
+  'cosmos:cosmoshub-4': { name: 'Cosmos Hub', type: 'cosmos', testnet: false, bech32Prefix: 'cosmos' },
+  'cosmos:noble-1': { name: 'Noble', type: 'cosmos', testnet: false, bech32Prefix: 'noble' },
+  'cosmos:grand-1': { name: 'Noble Testnet', type: 'cosmos', testnet: true, bech32Prefix: 'noble' },
+  'cosmos:osmosis-1': { name: 'Osmosis', type: 'cosmos', testnet: false, bech32Prefix: 'osmo' },
+  'cosmos:osmo-test-5': { name: 'Osmosis Testnet', type: 'cosmos', testnet: true, bech32Prefix: 'osmo' },
+  'cosmos:neutron-1': { name: 'Neutron', type: 'cosmos', testnet: false, bech32Prefix: 'neutron' },
+  'cosmos:celestia': { name: 'Celestia', type: 'cosmos', testnet: false, bech32Prefix: 'celestia' },
+  'cosmos:dydx-mainnet-1': { name: 'dYdX', type: 'cosmos', testnet: false, bech32Prefix: 'dydx' },
 } as const satisfies Record<string, NetworkInfo>
 
+// Networks registered at runtime (e.g. private L2s from a project config file)
+// Registered entries take precedence over KNOWN_NETWORKS
+const registeredNetworks = new Map<string, NetworkInfo>()
+
+// Register a network so lookups treat it as known
+export function registerNetwork(caip2: string, info: NetworkInfo): void {
+  if (!isValidCaip2(caip2)) {
+    throw new Error(`Invalid CAIP-2 network identifier: ${caip2}`)
+  }
+  registeredNetworks.set(caip2, { ...info })
+}
+
+// Remove every registered network, leaving only KNOWN_NETWORKS
+export function resetRegisteredNetworks(): void {
+  registeredNetworks.clear()
+}
+
 // Validate CAIP-2 format (doesn't check registry)
 export function isValidCaip2(value: string): boolean {
   return CAIP2_REGEX.test(value)
@@ -60,12 +88,17 @@ export function isValidCaip2(value: string): boolean {
 
 // Check if network exists in registry
 export function isKnownNetwork(caip2: string): boolean {
-  return caip2 in KNOWN_NETWORKS
+  return registeredNetworks.has(caip2) || caip2 in KNOWN_NETWORKS
 }
 
 // Get network info from registry
 export function getNetworkInfo(caip2: string): NetworkInfo | undefined {
-  return KNOWN_NETWORKS[caip2 as keyof typeof KNOWN_NETWORKS]
+  return registeredNetworks.get(caip2) ?? KNOWN_NETWORKS[caip2 as keyof typeof KNOWN_NETWORKS]
+}
+
+// List all known CAIP-2 identifiers (built-in and registered)
+export function getKnownNetworks(): string[] {
+  return [...new Set([...Object.keys(KNOWN_NETWORKS), ...registeredNetworks.keys()])]
 }
 
 // Extract namespace from CAIP-2 identifier (e.g., "eip155" from "eip155:8453")
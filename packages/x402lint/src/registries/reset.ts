@@ -0,0 +1,14 @@
+// Reset every runtime registration (networks, assets, simple names, schemes)
+
+import { resetRegisteredNetworks } from './networks'
+import { resetRegisteredAssets } from './assets'
+import { resetRegisteredSimpleNames } from './simple-names'
+import { resetRegisteredSchemes } from './schemes'
+
+// Registrations are process-wide; call this between tests or when reloading a registry file
+export function resetRegistries(): void {
+  resetRegisteredNetworks()
+  resetRegisteredAssets()
+  resetRegisteredSimpleNames()
+  resetRegisteredSchemes()
+}
@@ -0,0 +1,63 @@
+// Scheme registry
+// Known x402 payment schemes and the CAIP-2 namespaces each supports
+
+export interface SchemeInfo {
+  name: string
+  description: string
+  namespaces: readonly string[] // CAIP-2 namespaces, e.g. 'eip155'
+}
+
+// Known schemes registry - extensible by adding entries
+export const KNOWN_SCHEMES = {
+  exact: {
+    name: 'Exact',
+    description: 'Pay a fixed amount per request',
+    namespaces: ['eip155', 'solana', 'stellar', 'aptos', 'stacks', 'cosmos'],
+  },
+  upto: {
+    name: 'Up To',
+    description: 'Authorize up to a maximum amount, settle based on usage',
+    namespaces: ['eip155'],
+  },
+} as const satisfies Record<string, SchemeInfo>
+
+// Schemes registered at runtime (e.g. experimental or in-house schemes)
+// Registered entries take precedence over KNOWN_SCHEMES
+const registeredSchemes = new Map<string, SchemeInfo>()
+
+// Register a scheme so lookups treat it as known
+export function registerScheme(scheme: string, info: SchemeInfo): void {
+  if (!scheme) {
+    throw new Error('Scheme name must be a non-empty string')
+  }
+  registeredSchemes.set(scheme, { ...info, namespaces: [...info.namespaces] })
+}
+
+// Remove every registered scheme, leaving only KNOWN_SCHEMES
+export function resetRegisteredSchemes(): void {
+  registeredSchemes.clear()
+}
+
+// Check if scheme exists in registry
+export function isKnownScheme(scheme: string): boolean {
+  return getSchemeInfo(scheme) !== undefined
+}
+
+// Get scheme info from registry
+export function getSchemeInfo(scheme: string): SchemeInfo | undefined {
+  const registered = registeredSchemes.get(scheme)
+  if (registered) return registered
+  return Object.prototype.hasOwnProperty.call(KNOWN_SCHEMES, scheme)
+    ? KNOWN_SCHEMES[scheme as keyof typeof KNOWN_SCHEMES]
+    : undefined
+}
+
+// Get all known scheme names (built-in and registered)
+export function getKnownSchemes(): string[] {
+  return [...new Set([...Object.keys(KNOWN_SCHEMES), ...registeredSchemes.keys()])]
+}
+
+// Check if a scheme supports a CAIP-2 namespace (e.g. 'exact' on 'solana')
+export function isSchemeSupportedOnNamespace(scheme: string, namespace: string): boolean {
+  return getSchemeInfo(scheme)?.namespaces.includes(namespace) ?? false
+}
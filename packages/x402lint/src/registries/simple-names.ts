@@ -1,6 +1,8 @@
 // Legacy chain name to CAIP-2 mapping
 // REG-03: Simple name conversion for fix suggestions and normalization
 
+import { isValidCaip2 } from './networks'
+
 // Maps lowercase simple names to canonical CAIP-2 identifiers
 export const SIMPLE_NAME_TO_CAIP2 = {
   // Base networks
@@ -28,10 +30,47 @@ export const SIMPLE_NAME_TO_CAIP2 = {
 
   // Aptos networks
   aptos: 'aptos:1',
+
+  // Cosmos networks
+  cosmoshub: 'cosmos:cosmoshub-4',
+  noble: 'cosmos:noble-1',
+  'noble-testnet': 'cosmos:grand-1',
+  osmosis: 'cosmos:osmosis-1',
+  'osmosis-testnet': 'cosmos:osmo-test-5',
+  neutron: 'cosmos:neutron-1',
+  celestia: 'cosmos:celestia',
+  dydx: 'cosmos:dydx-mainnet-1',
 } as const satisfies Record<string, string>
 
+// Simple names registered at runtime, keyed by lowercase name
+// Registered entries take precedence over SIMPLE_NAME_TO_CAIP2
+const registeredSimpleNames = new Map<string, string>()
+
+// Register a simple name (e.g. 'house-l2') for a CAIP-2 identifier
+export function registerSimpleName(name: string, caip2: string): void {
+  if (!name) {
+    throw new Error('Simple name must be a non-empty string')
+  }
+  if (!isValidCaip2(caip2)) {
+    throw new Error(`Invalid CAIP-2 network identifier: ${caip2}`)
+  }
+  registeredSimpleNames.set(name.toLowerCase(), caip2)
+}
+
+// Remove every registered simple name, leaving only SIMPLE_NAME_TO_CAIP2
+export function resetRegisteredSimpleNames(): void {
+  registeredSimpleNames.clear()
+}
+
 // Look up canonical CAIP-2 identifier from simple name (case-insensitive)
 export function getCanonicalNetwork(name: string): string | undefined {
   const normalized = name.toLowerCase()
-  return SIMPLE_NAME_TO_CAIP2[normalized as keyof typeof SIMPLE_NAME_TO_CAIP2]
+  return (
+    registeredSimpleNames.get(normalized) ?? SIMPLE_NAME_TO_CAIP2[normalized as keyof typeof SIMPLE_NAME_TO_CAIP2]
+  )
+}
+
+// All simple name mappings (built-in and registered)
+export function getSimpleNames(): Record<string, string> {
+  return { ...SIMPLE_NAME_TO_CAIP2, ...Object.fromEntries(registeredSimpleNames) }
 }
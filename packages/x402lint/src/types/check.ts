@@ -20,6 +20,9 @@ export interface AcceptSummary {
   assetSymbol: string | null
   assetDecimals: number | null
   scheme: string
+  schemeName: string | null // null when scheme is not in the registry
+  schemeDescription: string | null
+  schemeNamespaces: string[] | null // CAIP-2 namespaces the scheme supports
 }
 
 /**
@@ -15,6 +15,8 @@ export interface Resource {
   method?: string | undefined
   headers?: Record<string, string> | undefined
   body?: string | undefined
+  description?: string | undefined
+  mimeType?: string | undefined
 }
 
 /**
@@ -28,6 +30,7 @@ export interface AcceptsEntry {
   payTo: string
   maxTimeoutSeconds?: number | undefined
   extra?: Record<string, unknown> | undefined
+  outputSchema?: Record<string, unknown> | undefined // legacy; v2 describes I/O in extensions.bazaar
 }
 
 /**
@@ -52,7 +55,10 @@ export interface V1AcceptsEntry {
   payTo: string
   maxTimeoutSeconds?: number | undefined
   extra?: Record<string, unknown> | undefined
-  resource?: Resource | undefined
+  resource?: Resource | string | undefined // v1 commonly uses a bare URL string
+  description?: string | undefined
+  mimeType?: string | undefined
+  outputSchema?: Record<string, unknown> | undefined
 }
 
 /**
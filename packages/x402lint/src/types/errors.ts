@@ -15,21 +15,38 @@ export const ErrorCode = {
   // Accepts errors
   MISSING_ACCEPTS: 'MISSING_ACCEPTS',
   EMPTY_ACCEPTS: 'EMPTY_ACCEPTS',
+  CONFLICTING_ACCEPTS_ENTRIES: 'CONFLICTING_ACCEPTS_ENTRIES',
   INVALID_ACCEPTS: 'INVALID_ACCEPTS',
 
   // Field errors
   MISSING_SCHEME: 'MISSING_SCHEME',
+  INVALID_SCHEME: 'INVALID_SCHEME',
   MISSING_NETWORK: 'MISSING_NETWORK',
   INVALID_NETWORK_FORMAT: 'INVALID_NETWORK_FORMAT',
+  INVALID_EIP155_REFERENCE: 'INVALID_EIP155_REFERENCE',
+  INVALID_SOLANA_REFERENCE: 'INVALID_SOLANA_REFERENCE',
+  INVALID_STACKS_REFERENCE: 'INVALID_STACKS_REFERENCE',
+  INVALID_STELLAR_REFERENCE: 'INVALID_STELLAR_REFERENCE',
+  INVALID_APTOS_REFERENCE: 'INVALID_APTOS_REFERENCE',
+  INVALID_COSMOS_REFERENCE: 'INVALID_COSMOS_REFERENCE',
   MISSING_AMOUNT: 'MISSING_AMOUNT',
   INVALID_AMOUNT: 'INVALID_AMOUNT',
   ZERO_AMOUNT: 'ZERO_AMOUNT',
+  AMOUNT_ABOVE_MAX_PRICE: 'AMOUNT_ABOVE_MAX_PRICE',
+  AMOUNT_BELOW_MIN_PRICE: 'AMOUNT_BELOW_MIN_PRICE',
+  AMOUNT_PRECISION_EXCEEDED: 'AMOUNT_PRECISION_EXCEEDED',
+  AMOUNT_OUT_OF_RANGE: 'AMOUNT_OUT_OF_RANGE',
   MISSING_ASSET: 'MISSING_ASSET',
   MISSING_PAY_TO: 'MISSING_PAY_TO',
   MISSING_RESOURCE: 'MISSING_RESOURCE',
   INVALID_URL: 'INVALID_URL',
   INVALID_TIMEOUT: 'INVALID_TIMEOUT',
 
+  // Scheme errors
+  SCHEME_NETWORK_UNSUPPORTED: 'SCHEME_NETWORK_UNSUPPORTED',
+  EIP712_DOMAIN_MISMATCH: 'EIP712_DOMAIN_MISMATCH',
+  MISSING_FEE_PAYER: 'MISSING_FEE_PAYER',
+
   // Address errors (codes only, validation is Phase 7)
   INVALID_EVM_ADDRESS: 'INVALID_EVM_ADDRESS',
   BAD_EVM_CHECKSUM: 'BAD_EVM_CHECKSUM',
@@ -37,7 +54,20 @@ export const ErrorCode = {
   INVALID_SOLANA_ADDRESS: 'INVALID_SOLANA_ADDRESS',
   INVALID_STACKS_ADDRESS: 'INVALID_STACKS_ADDRESS',
   STACKS_NETWORK_MISMATCH: 'STACKS_NETWORK_MISMATCH',
+  INVALID_STELLAR_ADDRESS: 'INVALID_STELLAR_ADDRESS',
+  BAD_STELLAR_CHECKSUM: 'BAD_STELLAR_CHECKSUM',
+  INVALID_STELLAR_ASSET: 'INVALID_STELLAR_ASSET',
+  INVALID_APTOS_ADDRESS: 'INVALID_APTOS_ADDRESS',
+  INVALID_APTOS_ASSET: 'INVALID_APTOS_ASSET',
+  INVALID_COSMOS_ADDRESS: 'INVALID_COSMOS_ADDRESS',
+  BAD_COSMOS_CHECKSUM: 'BAD_COSMOS_CHECKSUM',
+  COSMOS_PREFIX_MISMATCH: 'COSMOS_PREFIX_MISMATCH',
+  PAY_TO_ZERO_ADDRESS: 'PAY_TO_ZERO_ADDRESS',
+  PAY_TO_BURN_ADDRESS: 'PAY_TO_BURN_ADDRESS',
+  PAY_TO_PRECOMPILE: 'PAY_TO_PRECOMPILE',
+  PAY_TO_KNOWN_ASSET: 'PAY_TO_KNOWN_ASSET',
   ADDRESS_NETWORK_MISMATCH: 'ADDRESS_NETWORK_MISMATCH',
+  ASSET_NETWORK_MISMATCH: 'ASSET_NETWORK_MISMATCH',
 
   // Manifest errors
   MISSING_ENDPOINTS: 'MISSING_ENDPOINTS',
@@ -68,8 +98,24 @@ export const ErrorCode = {
   // Warning codes
   UNKNOWN_NETWORK: 'UNKNOWN_NETWORK',
   UNKNOWN_ASSET: 'UNKNOWN_ASSET',
+  UNKNOWN_SCHEME: 'UNKNOWN_SCHEME',
+  MISSING_EIP712_DOMAIN: 'MISSING_EIP712_DOMAIN',
+  FEE_PAYER_IS_PAY_TO: 'FEE_PAYER_IS_PAY_TO',
+  FEE_PAYER_IS_ASSET: 'FEE_PAYER_IS_ASSET',
+  AMOUNT_LIKELY_DECIMALS_MISTAKE: 'AMOUNT_LIKELY_DECIMALS_MISTAKE',
+  AMOUNT_LEADING_ZEROS: 'AMOUNT_LEADING_ZEROS',
+  UNKNOWN_FIELD: 'UNKNOWN_FIELD',
+  DUPLICATE_ACCEPTS_ENTRY: 'DUPLICATE_ACCEPTS_ENTRY',
+  APTOS_ADDRESS_NOT_CANONICAL: 'APTOS_ADDRESS_NOT_CANONICAL',
+  PAY_TO_OFF_CURVE: 'PAY_TO_OFF_CURVE',
+  PAY_TO_IS_ASSET: 'PAY_TO_IS_ASSET',
   LEGACY_FORMAT: 'LEGACY_FORMAT',
+  NORMALIZATION_LOSS: 'NORMALIZATION_LOSS',
   MISSING_MAX_TIMEOUT: 'MISSING_MAX_TIMEOUT',
+
+  // Custom rules
+  CUSTOM_RULE: 'CUSTOM_RULE',
+  CUSTOM_RULE_FAILED: 'CUSTOM_RULE_FAILED',
 } as const
 
 export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode]
@@ -90,21 +136,38 @@ export const ErrorMessages = {
   // Accepts errors
   MISSING_ACCEPTS: 'Missing required field: accepts',
   EMPTY_ACCEPTS: 'accepts array cannot be empty',
+  CONFLICTING_ACCEPTS_ENTRIES: 'Entries for the same scheme, network and asset disagree',
   INVALID_ACCEPTS: 'accepts must be an array',
 
   // Field errors
   MISSING_SCHEME: 'Missing required field: scheme',
+  INVALID_SCHEME: 'scheme must be a string, e.g. "exact"',
   MISSING_NETWORK: 'Missing required field: network',
   INVALID_NETWORK_FORMAT: 'Network must use CAIP-2 format (namespace:reference), e.g. eip155:8453',
+  INVALID_EIP155_REFERENCE: 'eip155 network reference must be a decimal chain ID without leading zeros',
+  INVALID_SOLANA_REFERENCE: 'solana network reference must be the first 32 base58 characters of the genesis hash',
+  INVALID_STACKS_REFERENCE: 'stacks network reference must be a 32-bit decimal chain ID',
+  INVALID_STELLAR_REFERENCE: 'stellar network reference must be pubnet, testnet or futurenet',
+  INVALID_APTOS_REFERENCE: 'aptos network reference must be a decimal chain ID from 1 to 255',
+  INVALID_COSMOS_REFERENCE: 'cosmos network reference must be a chain ID of letters, digits and hyphens',
   MISSING_AMOUNT: 'Missing required field: amount',
   INVALID_AMOUNT: 'Amount must be a numeric string in atomic units',
   ZERO_AMOUNT: 'Amount must be greater than zero',
+  AMOUNT_ABOVE_MAX_PRICE: 'Amount is above the configured maxPrice',
+  AMOUNT_BELOW_MIN_PRICE: 'Amount is below the configured minPrice',
+  AMOUNT_PRECISION_EXCEEDED: 'Amount has more decimal places than the asset supports',
+  AMOUNT_OUT_OF_RANGE: 'Amount exceeds the largest value the network can settle',
   MISSING_ASSET: 'Missing required field: asset',
   MISSING_PAY_TO: 'Missing required field: payTo',
   MISSING_RESOURCE: 'Missing required field: resource',
   INVALID_URL: 'resource.url is not a valid URL format',
   INVALID_TIMEOUT: 'maxTimeoutSeconds must be a positive integer',
 
+  // Scheme errors
+  SCHEME_NETWORK_UNSUPPORTED: 'Payment scheme is not supported on this network',
+  EIP712_DOMAIN_MISMATCH: "extra does not match the token's EIP-712 domain -- payment signatures will fail at settlement",
+  MISSING_FEE_PAYER: 'Solana exact payments require extra.feePayer (the facilitator fee payer address)',
+
   // Address errors
   INVALID_EVM_ADDRESS: 'Invalid EVM address format',
   BAD_EVM_CHECKSUM: 'EVM address has invalid checksum',
@@ -112,7 +175,20 @@ export const ErrorMessages = {
   INVALID_SOLANA_ADDRESS: 'Invalid Solana address format',
   INVALID_STACKS_ADDRESS: 'Invalid Stacks address',
   STACKS_NETWORK_MISMATCH: 'Stacks address does not match the specified network',
+  INVALID_STELLAR_ADDRESS: 'Invalid Stellar address',
+  BAD_STELLAR_CHECKSUM: 'Stellar StrKey has an invalid checksum',
+  INVALID_STELLAR_ASSET: 'Invalid Stellar asset: expected a contract ID (C...) or CODE:ISSUER',
+  INVALID_APTOS_ADDRESS: 'Invalid Aptos address',
+  INVALID_APTOS_ASSET: 'Invalid Aptos asset: expected a coin type (0x1::module::Struct) or a fungible asset address',
+  INVALID_COSMOS_ADDRESS: 'Invalid Cosmos address',
+  BAD_COSMOS_CHECKSUM: 'Cosmos address has an invalid bech32 checksum',
+  COSMOS_PREFIX_MISMATCH: "Cosmos address prefix does not match the network's chain",
+  PAY_TO_ZERO_ADDRESS: 'payTo is the zero address -- funds sent there are unrecoverable',
+  PAY_TO_BURN_ADDRESS: 'payTo is a well-known burn address -- funds sent there are unrecoverable',
+  PAY_TO_PRECOMPILE: 'payTo is a precompile address -- funds sent there are unrecoverable',
+  PAY_TO_KNOWN_ASSET: 'payTo is a known token contract -- tokens sent to it are unrecoverable',
   ADDRESS_NETWORK_MISMATCH: 'Address format does not match network type',
+  ASSET_NETWORK_MISMATCH: 'Asset is a known token on a different network',
 
   // Manifest errors
   MISSING_ENDPOINTS: 'Manifest must have an endpoints field',
@@ -143,6 +219,22 @@ export const ErrorMessages = {
   // Warnings
   UNKNOWN_NETWORK: 'Network is not in the known registry -- config may still work but cannot be fully validated',
   UNKNOWN_ASSET: 'Asset is not in the known registry -- config may still work but cannot be fully validated',
+  UNKNOWN_SCHEME: 'Payment scheme is not in the known registry -- facilitators may not support it',
+  MISSING_EIP712_DOMAIN: "extra should declare the token's EIP-712 domain name and version for exact EVM payments",
+  FEE_PAYER_IS_PAY_TO: 'extra.feePayer is the same as payTo -- the recipient would pay transaction fees',
+  FEE_PAYER_IS_ASSET: 'extra.feePayer is the token mint address, not a fee payer account',
+  AMOUNT_LIKELY_DECIMALS_MISTAKE: 'Amount is unusually large for a stablecoin -- check the asset decimals',
+  AMOUNT_LEADING_ZEROS: 'Amount has leading zeros -- some clients parse it differently',
+  UNKNOWN_FIELD: 'Unknown field is ignored by x402 clients',
+  DUPLICATE_ACCEPTS_ENTRY: 'Duplicate accepts entry',
+  APTOS_ADDRESS_NOT_CANONICAL: 'Aptos address is not in canonical long form',
+  PAY_TO_OFF_CURVE: 'payTo is off-curve (a token account or program-derived address), not a wallet -- payments may be unrecoverable',
+  PAY_TO_IS_ASSET: 'payTo is the asset address, not a recipient wallet',
   LEGACY_FORMAT: 'Config uses legacy flat format -- consider upgrading to x402 v2',
+  NORMALIZATION_LOSS: 'Converting this v1 config to v2 drops information',
   MISSING_MAX_TIMEOUT: 'Consider adding maxTimeoutSeconds for better security',
+
+  // Custom rules
+  CUSTOM_RULE: 'Custom rule violation',
+  CUSTOM_RULE_FAILED: 'Custom rule threw an exception',
 } satisfies Record<ErrorCode, string>
@@ -0,0 +1,31 @@
+/**
+ * Types for the fix() API
+ */
+
+import type { ErrorCode } from './errors'
+
+/**
+ * A single value replaced by fix()
+ */
+export interface FixChange {
+  code: ErrorCode // issue that was fixed
+  field: string
+  label: string // label of the applied suggestion
+  path: string // JSON Pointer of the replaced value
+  from: unknown
+  to: unknown
+  line?: number | undefined // 1-based, only when fixing a JSON string
+  column?: number | undefined // 1-based, only when fixing a JSON string
+}
+
+/**
+ * Result of fix()
+ */
+export interface FixResult {
+  // Corrected config (or manifest), null if the input is not valid JSON
+  config: object | null
+  // Corrected JSON text with original key order and formatting (string input only)
+  text: string | null
+  // Applied changes, in the order they were made
+  changes: FixChange[]
+}
@@ -8,3 +8,5 @@ export * from './errors'
 export { parseInput } from './parse-input'
 export * from './check'
 export * from './manifest'
+export * from './rules'
+export * from './fix'
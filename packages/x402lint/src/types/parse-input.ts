@@ -1,16 +1,18 @@
 import { ErrorCode, ErrorMessages } from './errors'
 import type { ParsedInput } from './validation'
+import { parseJsonWithLocations } from '../location/json'
 
 /**
  * Parse input that may be either a JSON string or an object
  * API-04: Accept string | object
+ *
+ * Strings are parsed with source locations so issues can point at line/column.
  */
 export function parseInput(input: string | object): ParsedInput {
   if (typeof input === 'string') {
-    try {
-      const parsed = JSON.parse(input)
-      return { parsed }
-    } catch {
+    const { value, locations, error } = parseJsonWithLocations(input)
+    if (error) {
+      const { position } = error
       return {
         parsed: null,
         error: {
@@ -18,9 +20,13 @@ export function parseInput(input: string | object): ParsedInput {
           field: '$',
           message: ErrorMessages.INVALID_JSON,
           severity: 'error',
+          line: position.line,
+          column: position.column,
+          range: { start: position, end: position },
         },
       }
     }
+    return { parsed: value, locations }
   }
 
   // typeof input === 'object'
@@ -0,0 +1,54 @@
+/**
+ * Types for user-defined validation rules
+ */
+
+import type { AcceptsEntry, ConfigFormat, NormalizedConfig } from './config'
+import type { ErrorCode } from './errors'
+import type { ManifestConfig } from './manifest'
+import type { ValidationIssue } from './validation'
+
+/**
+ * Issue reported by a custom rule
+ * code defaults to CUSTOM_RULE when omitted; rule is stamped by the orchestrator
+ */
+export type CustomRuleIssue = Omit<ValidationIssue, 'code' | 'rule'> & {
+  code?: ErrorCode | undefined
+}
+
+/**
+ * Context passed to config-level custom rules
+ */
+export interface ConfigRuleContext {
+  config: NormalizedConfig // normalized config (canonical v2 shape)
+  parsed: object // raw parsed input before normalization
+  format: ConfigFormat
+}
+
+/**
+ * Context passed to per-entry custom rules
+ */
+export interface EntryRuleContext extends ConfigRuleContext {
+  entry: AcceptsEntry
+  index: number
+  fieldPath: string // e.g. "accepts[0]"
+}
+
+/**
+ * Context passed to manifest-level custom rules
+ */
+export interface ManifestRuleContext {
+  manifest: ManifestConfig
+}
+
+/**
+ * User-defined validation rule
+ *
+ * Each hook is optional: entry runs once per accepts entry, config once per
+ * validated config (including each manifest endpoint), manifest once per manifest.
+ */
+export interface CustomRule {
+  name: string
+  entry?: ((context: EntryRuleContext) => CustomRuleIssue[]) | undefined
+  config?: ((context: ConfigRuleContext) => CustomRuleIssue[]) | undefined
+  manifest?: ((context: ManifestRuleContext) => CustomRuleIssue[]) | undefined
+}
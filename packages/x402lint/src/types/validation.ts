@@ -7,6 +7,71 @@ import type { ErrorCode } from './errors'
  */
 export type Severity = 'error' | 'warning'
 
+/**
+ * Configured severity for a rule (eslint-style)
+ * 'off' drops the issue entirely
+ */
+export type RuleSeverity = 'off' | Severity
+
+/**
+ * Per-rule severity overrides keyed by error code
+ * e.g. { MISSING_INPUT_SCHEMA: 'off', NO_EVM_CHECKSUM: 'error' }
+ */
+export type RuleSeverityMap = Partial<Record<ErrorCode, RuleSeverity>>
+
+/**
+ * Position in a JSON source text
+ * line and column are 1-based, offset is a 0-based character index
+ */
+export interface SourcePosition {
+  line: number
+  column: number
+  offset: number
+}
+
+/**
+ * Span of source text, end is exclusive
+ */
+export interface SourceRange {
+  start: SourcePosition
+  end: SourcePosition
+}
+
+/**
+ * Where a JSON value (and its property key, if any) appears in the source text
+ */
+export interface SourceLocation {
+  key?: SourceRange | undefined
+  value: SourceRange
+}
+
+/**
+ * Source locations of every value in a JSON document, keyed by JSON Pointer
+ * e.g. '' (root), '/accepts/0/payTo', '/endpoints/api-weather'
+ */
+export type SourceMap = Map<string, SourceLocation>
+
+/**
+ * RFC 6902 JSON Patch operation, paths are JSON Pointers into the validated input
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown }
+
+/**
+ * Machine-applicable fix for an issue
+ * safe: lossless, never changes what is paid or who is paid -- fine to apply without review
+ */
+export interface FixSuggestion {
+  label: string
+  safe: boolean
+  patch: JsonPatchOperation[]
+}
+
 /**
  * Validation issue detail
  */
@@ -15,7 +80,12 @@ export interface ValidationIssue {
   field: string
   message: string
   severity: Severity
-  fix?: string | undefined
+  fix?: string | undefined // human-readable fix for display
+  suggestions?: FixSuggestion[] | undefined // machine-applicable fixes
+  rule?: string | undefined // name of the custom rule that reported the issue
+  line?: number | undefined // 1-based, only when validating a JSON string
+  column?: number | undefined // 1-based, only when validating a JSON string
+  range?: SourceRange | undefined
 }
 
 /**
@@ -35,4 +105,5 @@ export interface ValidationResult {
 export interface ParsedInput {
   parsed: unknown
   error?: ValidationIssue | undefined
+  locations?: SourceMap | undefined // present when input was a JSON string
 }
@@ -8,6 +8,9 @@ import { getNetworkNamespace } from '../registries/networks'
 import { validateEvmAddress } from './evm-address'
 import { validateSolanaAddress } from './solana-address'
 import { validateStacksAddress } from './stacks-address'
+import { validateStellarAddress, validateStellarAsset } from './stellar-address'
+import { validateAptosAddress, validateAptosAsset } from './aptos-address'
+import { validateCosmosAddress } from './cosmos-address'
 import type { ValidationIssue } from '../types/validation'
 
 /**
@@ -16,7 +19,10 @@ import type { ValidationIssue } from '../types/validation'
  * Dispatches to appropriate chain-specific validator based on CAIP-2 namespace:
  * - eip155:* → EVM address validation
  * - solana:* → Solana address validation
- * - stellar:*, aptos:* → Accept any string (deep validation deferred)
+ * - stacks:* → c32check address validation
+ * - stellar:* → StrKey validation (G, M and C keys)
+ * - aptos:* → 0x + up to 64 hex, warning when not in canonical long form
+ * - cosmos:* → bech32 checksum and the chain's address prefix
  * - Unknown namespaces → Accept any string (registry warnings handled elsewhere)
  *
  * Cross-chain mismatches are caught naturally by dispatch:
@@ -52,12 +58,46 @@ export function validateAddress(
       return validateStacksAddress(address, network, field)
 
     case 'stellar':
+      return validateStellarAddress(address, field)
+
     case 'aptos':
-      // Accept any address - deep validation deferred to future phases
-      return []
+      return validateAptosAddress(address, field)
+
+    case 'cosmos':
+      return validateCosmosAddress(address, network, field)
 
     default:
       // Unknown namespace - warnings handled by registry validation
       return []
   }
 }
+
+/**
+ * Validate an asset identifier for a specific network
+ *
+ * Only namespaces whose asset identifiers have their own format are checked:
+ * - stellar:* → Soroban contract ID (C...) or classic CODE:ISSUER
+ * - aptos:* → Move coin type (0x1::module::Struct) or fungible asset metadata address
+ * - Other namespaces → No format check (unknown assets are registry warnings)
+ *
+ * @param asset - Asset identifier to validate
+ * @param network - CAIP-2 network identifier
+ * @param field - Field path for error reporting
+ * @returns Array of validation issues (empty if valid)
+ */
+export function validateAssetAddress(
+  asset: string,
+  network: string,
+  field: string
+): ValidationIssue[] {
+  switch (getNetworkNamespace(network)) {
+    case 'stellar':
+      return validateStellarAsset(asset, field)
+
+    case 'aptos':
+      return validateAptosAsset(asset, field)
+
+    default:
+      return []
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Aptos address and asset validation (AIP-40 address standard)
+ */
+
+import { ErrorCode } from '../types/errors'
+import type { ValidationIssue } from '../types/validation'
+import { replaceSuggestion } from './suggestions'
+
+// 0x followed by 1-64 hex characters (short form omits leading zeros)
+const APTOS_ADDRESS_REGEX = /^0x[0-9a-fA-F]{1,64}$/
+
+// Move identifiers for module and struct names
+const MOVE_IDENTIFIER_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Canonical AIP-40 form of a syntactically valid address
+ *
+ * Special addresses 0x0 through 0xf use the short form; every other
+ * address is lowercase, zero-padded to 64 hex characters.
+ *
+ * @param address - Address matching APTOS_ADDRESS_REGEX
+ * @returns Canonical address string
+ */
+export function toCanonicalAptosAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase().replace(/^0+(?=.)/, '')
+  return hex.length === 1 ? `0x${hex}` : `0x${hex.padStart(64, '0')}`
+}
+
+/**
+ * Validate an Aptos account address
+ *
+ * Requires 0x plus up to 64 hex characters. Addresses not in the canonical
+ * long form (short form, uppercase hex) get a warning with the canonical form.
+ *
+ * @param address - Address to validate
+ * @param field - Field path for error reporting
+ * @returns Array of validation issues (empty if valid)
+ */
+export function validateAptosAddress(address: string, field: string): ValidationIssue[] {
+  if (!APTOS_ADDRESS_REGEX.test(address)) {
+    return [
+      {
+        code: ErrorCode.INVALID_APTOS_ADDRESS,
+        field,
+        message: /^[0-9a-fA-F]{1,64}$/.test(address)
+          ? 'Aptos address must start with 0x'
+          : 'Invalid Aptos address: expected 0x followed by up to 64 hex characters',
+        severity: 'error',
+        fix: 'Aptos addresses are 0x plus 64 hex characters, e.g. 0x1f2e...',
+      },
+    ]
+  }
+
+  const canonical = toCanonicalAptosAddress(address)
+  if (address !== canonical) {
+    return [
+      {
+        code: ErrorCode.APTOS_ADDRESS_NOT_CANONICAL,
+        field,
+        message: 'Aptos address is not in canonical long form -- some clients compare addresses as strings',
+        severity: 'warning',
+        fix: `Use ${canonical}`,
+        suggestions: [replaceSuggestion(field, canonical, 'Use canonical Aptos address', true)],
+      },
+    ]
+  }
+
+  return []
+}
+
+/**
+ * Validate an Aptos asset identifier
+ *
+ * Accepts a Move struct tag (0x1::aptos_coin::AptosCoin, optionally with
+ * type arguments) for coins, or a fungible-asset metadata object address.
+ * The address part is checked like an account address and non-canonical
+ * forms get the full identifier rewritten to the canonical form.
+ *
+ * @param asset - Asset identifier to validate
+ * @param field - Field path for error reporting
+ * @returns Array of validation issues (empty if valid)
+ */
+export function validateAptosAsset(asset: string, field: string): ValidationIssue[] {
+  if (!asset.includes('::')) {
+    return validateAptosAddress(asset, field).map((issue) =>
+      issue.code === ErrorCode.INVALID_APTOS_ADDRESS
+        ? {
+            ...issue,
+            code: ErrorCode.INVALID_APTOS_ASSET,
+            fix: 'Use a fungible asset metadata address (0x...) or a coin type like 0x1::aptos_coin::AptosCoin',
+          }
+        : issue,
+    )
+  }
+
+  // Type arguments are not validated, only required to be closed
+  const genericsStart = asset.indexOf('<')
+  const head = genericsStart === -1 ? asset : asset.slice(0, genericsStart)
+  const generics = genericsStart === -1 ? '' : asset.slice(genericsStart)
+  const [address, module, name, ...rest] = head.split('::')
+
+  if (
+    address === undefined ||
+    module === undefined ||
+    name === undefined ||
+    rest.length > 0 ||
+    !MOVE_IDENTIFIER_REGEX.test(module) ||
+    !MOVE_IDENTIFIER_REGEX.test(name) ||
+    (generics !== '' && !generics.endsWith('>'))
+  ) {
+    return [
+      {
+        code: ErrorCode.INVALID_APTOS_ASSET,
+        field,
+        message: 'Invalid Aptos coin type: expected ADDRESS::module::Struct',
+        severity: 'error',
+        fix: 'Use a coin type like 0x1::aptos_coin::AptosCoin',
+      },
+    ]
+  }
+
+  if (!APTOS_ADDRESS_REGEX.test(address)) {
+    return [
+      {
+        code: ErrorCode.INVALID_APTOS_ASSET,
+        field,
+        message: `Invalid Aptos coin type: "${address}" is not an Aptos address`,
+        severity: 'error',
+        fix: 'Use a coin type like 0x1::aptos_coin::AptosCoin',
+      },
+    ]
+  }
+
+  const canonical = `${toCanonicalAptosAddress(address)}::${module}::${name}${generics}`
+  if (asset !== canonical) {
+    return [
+      {
+        code: ErrorCode.APTOS_ADDRESS_NOT_CANONICAL,
+        field,
+        message: 'Aptos coin type address is not in canonical long form',
+        severity: 'warning',
+        fix: `Use ${canonical}`,
+        suggestions: [replaceSuggestion(field, canonical, 'Use canonical Aptos coin type', true)],
+      },
+    ]
+  }
+
+  return []
+}
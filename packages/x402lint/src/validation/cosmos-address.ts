@@ -0,0 +1,114 @@
+/**
+ * Cosmos address validation (bech32 with a chain-specific prefix)
+ */
+
+import { decodeBech32, encodeBech32 } from '../crypto/bech32'
+import { getKnownNetworks, getNetworkInfo } from '../registries/networks'
+import { ErrorCode } from '../types/errors'
+import type { ValidationIssue } from '../types/validation'
+import { replaceSuggestion } from './suggestions'
+
+// Account addresses hash to 20 bytes; module and contract accounts to 32
+const ADDRESS_LENGTHS = [20, 32]
+
+/**
+ * Name of the known chain that uses a bech32 prefix, if any
+ */
+function chainForPrefix(prefix: string): string | undefined {
+  const networks = getKnownNetworks().map((caip2) => getNetworkInfo(caip2))
+  return networks.find((info) => info?.bech32Prefix === prefix && !info.testnet)?.name
+}
+
+/**
+ * Validate a Cosmos address (bech32 encoded)
+ *
+ * Checks bech32 encoding and checksum, payload length, and that the prefix
+ * matches the network's bech32Prefix (when the network is known)
+ *
+ * @param address - Address to validate
+ * @param network - CAIP-2 network identifier (e.g. cosmos:noble-1)
+ * @param field - Field path for error reporting
+ * @returns Array of validation issues (empty if valid)
+ */
+export function validateCosmosAddress(
+  address: string,
+  network: string,
+  field: string
+): ValidationIssue[] {
+  const networkInfo = getNetworkInfo(network)
+  const expectedPrefix = networkInfo?.bech32Prefix
+  const example = `${expectedPrefix ?? 'cosmos'}1...`
+
+  let prefix: string
+  let bytes: Uint8Array
+  try {
+    const decoded = decodeBech32(address)
+    if (decoded.encoding !== 'bech32') {
+      return [
+        {
+          code: ErrorCode.INVALID_COSMOS_ADDRESS,
+          field,
+          message: 'Cosmos addresses use the bech32 checksum, not bech32m',
+          severity: 'error',
+          fix: `Use a ${example} account address`,
+        },
+      ]
+    }
+    prefix = decoded.prefix
+    bytes = decoded.bytes
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message === 'Invalid bech32 checksum') {
+      return [
+        {
+          code: ErrorCode.BAD_COSMOS_CHECKSUM,
+          field,
+          message: 'Cosmos address checksum does not match. Double-check the address for typos.',
+          severity: 'error',
+        },
+      ]
+    }
+    return [
+      {
+        code: ErrorCode.INVALID_COSMOS_ADDRESS,
+        field,
+        message: 'Invalid Cosmos address: expected a bech32 address',
+        severity: 'error',
+        fix: `Use a ${example} account address`,
+      },
+    ]
+  }
+
+  if (!ADDRESS_LENGTHS.includes(bytes.length)) {
+    return [
+      {
+        code: ErrorCode.INVALID_COSMOS_ADDRESS,
+        field,
+        message: `Cosmos address must decode to 20 or 32 bytes, got ${bytes.length}`,
+        severity: 'error',
+        fix: `Use a ${example} account address`,
+      },
+    ]
+  }
+
+  if (expectedPrefix !== undefined && prefix !== expectedPrefix) {
+    const otherChain = chainForPrefix(prefix)
+    const reencoded = encodeBech32(expectedPrefix, bytes)
+    return [
+      {
+        code: ErrorCode.COSMOS_PREFIX_MISMATCH,
+        field,
+        message: otherChain
+          ? `This is a ${otherChain} address (${prefix}1...) but the network is ${networkInfo!.name} (${network})`
+          : `Address prefix "${prefix}" does not match ${networkInfo!.name} (${network})`,
+        severity: 'error',
+        fix: `${networkInfo!.name} addresses start with ${expectedPrefix}1, e.g. ${reencoded}`,
+        suggestions: [
+          replaceSuggestion(field, reencoded, `Use the ${expectedPrefix} prefix (same key; verify the wallet controls it)`, false),
+        ],
+      },
+    ]
+  }
+
+  return []
+}
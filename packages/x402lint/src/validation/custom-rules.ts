@@ -0,0 +1,108 @@
+/**
+ * Custom rule runner
+ *
+ * Invokes user-defined rules and converts their output into ValidationIssues.
+ * A rule that throws is reported as CUSTOM_RULE_FAILED instead of aborting validation.
+ */
+
+import type {
+  CustomRule,
+  CustomRuleIssue,
+  ConfigRuleContext,
+  EntryRuleContext,
+  ManifestRuleContext,
+} from '../types/rules'
+import type { ValidationIssue } from '../types/validation'
+import { ErrorCode, ErrorMessages } from '../types/errors'
+
+/**
+ * Run a single rule hook, stamping the rule name and default code on each issue
+ */
+function invokeRule(
+  rule: CustomRule,
+  hook: () => CustomRuleIssue[] | undefined,
+  field: string,
+): ValidationIssue[] {
+  try {
+    const reported = hook() ?? []
+    return reported.map((issue) => ({
+      ...issue,
+      code: issue.code ?? ErrorCode.CUSTOM_RULE,
+      rule: rule.name,
+    }))
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    return [
+      {
+        code: ErrorCode.CUSTOM_RULE_FAILED,
+        field,
+        message: `${ErrorMessages.CUSTOM_RULE_FAILED}: ${reason}`,
+        severity: 'error',
+        rule: rule.name,
+      },
+    ]
+  }
+}
+
+/**
+ * Run the entry hook of every rule for a single accepts entry
+ *
+ * @param rules - Custom rules from ValidationOptions
+ * @param context - Entry context (config, parsed input, entry, index, field path)
+ * @returns Issues reported by all rules
+ */
+export function runEntryRules(
+  rules: readonly CustomRule[],
+  context: EntryRuleContext,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  for (const rule of rules) {
+    if (rule.entry) {
+      const hook = rule.entry
+      issues.push(...invokeRule(rule, () => hook(context), context.fieldPath))
+    }
+  }
+  return issues
+}
+
+/**
+ * Run the config hook of every rule for a validated config
+ *
+ * @param rules - Custom rules from ValidationOptions
+ * @param context - Config context (normalized config, parsed input, format)
+ * @returns Issues reported by all rules
+ */
+export function runConfigRules(
+  rules: readonly CustomRule[],
+  context: ConfigRuleContext,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  for (const rule of rules) {
+    if (rule.config) {
+      const hook = rule.config
+      issues.push(...invokeRule(rule, () => hook(context), '$'))
+    }
+  }
+  return issues
+}
+
+/**
+ * Run the manifest hook of every rule for a manifest
+ *
+ * @param rules - Custom rules from ValidationOptions
+ * @param context - Manifest context
+ * @returns Issues reported by all rules
+ */
+export function runManifestRules(
+  rules: readonly CustomRule[],
+  context: ManifestRuleContext,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  for (const rule of rules) {
+    if (rule.manifest) {
+      const hook = rule.manifest
+      issues.push(...invokeRule(rule, () => hook(context), 'endpoints'))
+    }
+  }
+  return issues
+}
@@ -0,0 +1,71 @@
+/**
+ * "Did you mean" helpers
+ *
+ * Edit distance matching for misspelled field names and identifiers.
+ */
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and transpositions of adjacent characters each cost 1
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of edits to turn a into b
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const d: number[] = new Array<number>(rows * cols).fill(0)
+
+  for (let i = 0; i < rows; i++) d[i * cols] = i
+  for (let j = 0; j < cols; j++) d[j] = j
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let best = Math.min(d[(i - 1) * cols + j]! + 1, d[i * cols + j - 1]! + 1, d[(i - 1) * cols + j - 1]! + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        best = Math.min(best, d[(i - 2) * cols + j - 2]! + 1)
+      }
+      d[i * cols + j] = best
+    }
+  }
+
+  return d[rows * cols - 1]!
+}
+
+/**
+ * Find the candidate closest to input, ignoring case
+ *
+ * A candidate matches when it is within maxDistance edits, or when one string
+ * is a prefix of the other (e.g. 'maxTimeoutSecond' for 'maxTimeoutSeconds').
+ *
+ * @param input - Possibly misspelled value
+ * @param candidates - Valid values
+ * @param maxDistance - Largest accepted edit distance (default: a third of the input length, at least 1)
+ * @returns Closest candidate, or undefined if none is close enough
+ */
+export function closestMatch(
+  input: string,
+  candidates: Iterable<string>,
+  maxDistance?: number | undefined,
+): string | undefined {
+  const needle = input.toLowerCase()
+  const limit = maxDistance ?? Math.max(1, Math.floor(needle.length / 3))
+  let best: string | undefined
+  let bestDistance = Infinity
+
+  for (const candidate of candidates) {
+    const target = candidate.toLowerCase()
+    let distance = editDistance(needle, target)
+    if (distance > limit && needle.length >= 4 && (target.startsWith(needle) || needle.startsWith(target))) {
+      distance = limit
+    }
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+
+  return best
+}
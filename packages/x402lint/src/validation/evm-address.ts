@@ -5,6 +5,7 @@
 import { toChecksumAddress, isValidChecksum } from '../crypto/eip55'
 import { ErrorCode } from '../types/errors'
 import type { ValidationIssue } from '../types/validation'
+import { replaceSuggestion } from './suggestions'
 
 const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/
 
@@ -39,13 +40,16 @@ export function validateEvmAddress(
   // Check if all-lowercase (no checksum)
   // Only warn if there are actual letters (a-f) - all-digits addresses are fine
   if (address === address.toLowerCase() && /[a-f]/.test(hexPart)) {
+    const checksummed = toChecksumAddress(address)
     return [
       {
         code: ErrorCode.NO_EVM_CHECKSUM,
         field,
         message: 'EVM address is all-lowercase with no checksum protection',
         severity: 'warning',
-        fix: `Use checksummed address to detect typos: ${toChecksumAddress(address)}`,
+        fix: `Use checksummed address to detect typos: ${checksummed}`,
+        // Casing only: the address bytes are unchanged
+        suggestions: [replaceSuggestion(field, checksummed, 'Use EIP-55 checksummed address', true)],
       },
     ]
   }
@@ -64,13 +68,16 @@ export function validateEvmAddress(
 
   // Mixed case - verify checksum
   if (!isValidChecksum(address)) {
+    const checksummed = toChecksumAddress(address)
     return [
       {
         code: ErrorCode.BAD_EVM_CHECKSUM,
         field,
         message: 'EVM address has invalid checksum (EIP-55)',
         severity: 'warning',
-        fix: `Expected: ${toChecksumAddress(address)}`,
+        fix: `Expected: ${checksummed}`,
+        // Not safe: a wrong checksum may mean a mistyped address
+        suggestions: [replaceSuggestion(field, checksummed, 'Re-checksum address (verify it first)', false)],
       },
     ]
   }
@@ -1,7 +1,12 @@
 // Validation barrel export
 export { validateEvmAddress } from './evm-address'
 export { validateSolanaAddress } from './solana-address'
-export { validateAddress } from './address'
+export { validateStellarAddress, validateStellarAsset } from './stellar-address'
+export { validateAptosAddress, validateAptosAsset } from './aptos-address'
+export { validateCosmosAddress } from './cosmos-address'
+export { validateAddress, validateAssetAddress } from './address'
 export { validate } from './orchestrator'
 export type { ValidationOptions } from './orchestrator'
 export { validateManifest } from './manifest'
+export { registerSchemeValidator } from './schemes'
+export type { SchemeValidator } from './schemes'
@@ -5,11 +5,19 @@
  */
 
 import type { ManifestConfig, ManifestValidationResult } from '../types/manifest'
-import type { ValidationResult, ValidationIssue } from '../types/validation'
+import type { ValidationResult, ValidationIssue, SourceMap } from '../types/validation'
 import type { V2Config } from '../types/config'
+import { parseInput } from '../types/parse-input'
+import { isRecord } from '../detection/guards'
+import { locateIssues } from '../location/locate'
+import { escapePointerSegment } from '../location/json'
+import { prefixSuggestion } from './suggestions'
 import { validate } from './orchestrator'
+import type { ValidationOptions } from './orchestrator'
+import { runManifestRules } from './custom-rules'
+import { applySeverity, isIgnoredField } from './severity'
+import { assertPriceBounds, hasMixedNetworks, validateUnknownManifestFields } from './rules'
 import { ErrorCode, ErrorMessages } from '../types/errors'
-import { getNetworkInfo } from '../registries/networks'
 
 /**
  * Validate an entire x402 manifest configuration
@@ -19,14 +27,39 @@ import { getNetworkInfo } from '../registries/networks'
  * 2. Prefix all field paths with endpoint context
  * 3. Perform cross-endpoint consistency checks
  * 4. Validate bazaar method discrimination
- * 5. Aggregate results into unified ManifestValidationResult
+ * 5. Run manifest-level custom rules
+ * 6. Apply severity overrides and strict mode to manifest-level issues
+ * 7. Aggregate results into unified ManifestValidationResult
+ * 8. Attach source locations when input is a JSON string
  *
- * @param input - ManifestConfig object to validate
+ * Options are forwarded to validate() for each endpoint, so entry- and
+ * config-level custom rules, severity overrides and strict mode apply
+ * per endpoint as well.
+ *
+ * @param input - ManifestConfig object or JSON string to validate
+ * @param options - Validation options (e.g. strict mode, custom rules)
  * @returns ManifestValidationResult with per-endpoint and manifest-level issues
+ * @throws TypeError when options.maxPrice or options.minPrice is not a plain decimal string
  */
-export function validateManifest(input: ManifestConfig): ManifestValidationResult {
+export function validateManifest(
+  input: ManifestConfig | string,
+  options?: ValidationOptions | undefined,
+): ManifestValidationResult {
+  // Checked once here rather than per endpoint, before the safety net below can swallow it
+  assertPriceBounds(options)
+
   try {
-    return runManifestValidation(input)
+    if (typeof input !== 'string') {
+      return runManifestValidation(input, options)
+    }
+
+    // JSON string: parse with source locations and attach them to every issue
+    const { parsed, error, locations } = parseInput(input)
+    if (error) {
+      return { valid: false, endpointResults: {}, errors: [error], warnings: [], normalized: { endpoints: {} } }
+    }
+    const result = runManifestValidation(parsed as ManifestConfig, options)
+    return locations ? locateManifestIssues(result, locations) : result
   } catch {
     // Safety net: validateManifest() must never throw
     return {
@@ -41,7 +74,7 @@ export function validateManifest(input: ManifestConfig): ManifestValidationResul
         },
       ],
       warnings: [],
-      normalized: input,
+      normalized: typeof input === 'string' ? { endpoints: {} } : input,
     }
   }
 }
@@ -49,13 +82,16 @@ export function validateManifest(input: ManifestConfig): ManifestValidationResul
 /**
  * Internal validation implementation
  */
-function runManifestValidation(input: ManifestConfig): ManifestValidationResult {
+function runManifestValidation(
+  input: ManifestConfig,
+  options: ValidationOptions | undefined,
+): ManifestValidationResult {
   const endpointResults: Record<string, ValidationResult> = {}
-  const manifestErrors: ValidationIssue[] = []
-  const manifestWarnings: ValidationIssue[] = []
+  let manifestErrors: ValidationIssue[] = []
+  let manifestWarnings: ValidationIssue[] = []
 
   // Validate structure
-  if (!input.endpoints || typeof input.endpoints !== 'object') {
+  if (!isRecord(input) || !input.endpoints || typeof input.endpoints !== 'object') {
     return {
       valid: false,
       endpointResults: {},
@@ -87,10 +123,13 @@ function runManifestValidation(input: ManifestConfig): ManifestValidationResult
 
   // Per-endpoint validation
   for (const [endpointId, endpointConfig] of endpointEntries) {
-    const result = validate(endpointConfig)
-    endpointResults[endpointId] = prefixFieldPaths(result, endpointId)
+    const result = prefixFieldPaths(validate(endpointConfig, options), endpointId)
+    endpointResults[endpointId] = options?.ignore ? dropIgnored(result, options.ignore) : result
   }
 
+  // Unknown manifest and service keys
+  manifestWarnings.push(...validateUnknownManifestFields(input))
+
   // Cross-endpoint checks
   const crossChecks = performCrossEndpointChecks(input)
   manifestErrors.push(...crossChecks.errors)
@@ -102,6 +141,20 @@ function runManifestValidation(input: ManifestConfig): ManifestValidationResult
     manifestErrors.push(...bazaarIssues)
   }
 
+  // Manifest-level custom rules (dispatch by severity)
+  for (const issue of runManifestRules(options?.customRules ?? [], { manifest: input })) {
+    if (issue.severity === 'error') {
+      manifestErrors.push(issue)
+    } else {
+      manifestWarnings.push(issue)
+    }
+  }
+
+  // Severity overrides + strict mode for manifest-level issues
+  const adjusted = applySeverity(manifestErrors, manifestWarnings, options)
+  manifestErrors = adjusted.errors
+  manifestWarnings = adjusted.warnings
+
   // Compute validity
   const allEndpointsValid = Object.values(endpointResults).every((r) => r.valid)
   const noManifestErrors = manifestErrors.length === 0
@@ -119,23 +172,66 @@ function runManifestValidation(input: ManifestConfig): ManifestValidationResult
 /**
  * Prefix all field paths in a ValidationResult with endpoint context
  * Transforms "accepts[0].payTo" → "endpoints["api-weather"].accepts[0].payTo"
+ * and suggestion paths "/accepts/0/payTo" → "/endpoints/api-weather/accepts/0/payTo"
  */
 function prefixFieldPaths(result: ValidationResult, endpointId: string): ValidationResult {
   const prefix = `endpoints["${endpointId}"].`
+  const pointer = `/endpoints/${escapePointerSegment(endpointId)}`
 
-  return {
-    ...result,
-    errors: result.errors.map((issue) => ({
+  const prefixIssue = (issue: ValidationIssue): ValidationIssue => {
+    const prefixed: ValidationIssue = {
       ...issue,
       field: issue.field === '$' ? `endpoints["${endpointId}"]` : prefix + issue.field,
-    })),
-    warnings: result.warnings.map((issue) => ({
-      ...issue,
-      field: issue.field === '$' ? `endpoints["${endpointId}"]` : prefix + issue.field,
-    })),
+    }
+    if (issue.suggestions) {
+      prefixed.suggestions = issue.suggestions.map((s) => prefixSuggestion(s, pointer))
+    }
+    return prefixed
+  }
+
+  return {
+    ...result,
+    errors: result.errors.map(prefixIssue),
+    warnings: result.warnings.map(prefixIssue),
   }
 }
 
+/**
+ * Attach source locations to manifest-level and per-endpoint issues
+ * Endpoint issues are already prefixed with endpoints["id"], so they resolve
+ * against the manifest's source map directly.
+ */
+function locateManifestIssues(
+  result: ManifestValidationResult,
+  locations: SourceMap,
+): ManifestValidationResult {
+  const endpointResults: Record<string, ValidationResult> = {}
+  for (const [endpointId, endpointResult] of Object.entries(result.endpointResults)) {
+    endpointResults[endpointId] = {
+      ...endpointResult,
+      errors: locateIssues(endpointResult.errors, locations),
+      warnings: locateIssues(endpointResult.warnings, locations),
+    }
+  }
+
+  return {
+    ...result,
+    endpointResults,
+    errors: locateIssues(result.errors, locations),
+    warnings: locateIssues(result.warnings, locations),
+  }
+}
+
+/**
+ * Drop issues matching ignore patterns written against manifest paths
+ * (e.g. endpoints["api-weather"].extensions), then recompute validity
+ */
+function dropIgnored(result: ValidationResult, patterns: readonly string[]): ValidationResult {
+  const errors = result.errors.filter((issue) => !isIgnoredField(issue.field, patterns))
+  const warnings = result.warnings.filter((issue) => !isIgnoredField(issue.field, patterns))
+  return { ...result, valid: errors.length === 0, errors, warnings }
+}
+
 /**
  * Perform cross-endpoint consistency checks
  * Returns manifest-level errors and warnings
@@ -180,21 +276,7 @@ function performCrossEndpointChecks(manifest: ManifestConfig): {
     }
   }
 
-  let hasKnownMainnet = false
-  let hasKnownTestnet = false
-
-  for (const network of allNetworks) {
-    const networkInfo = getNetworkInfo(network)
-    if (networkInfo) {
-      if (networkInfo.testnet) {
-        hasKnownTestnet = true
-      } else {
-        hasKnownMainnet = true
-      }
-    }
-  }
-
-  if (hasKnownMainnet && hasKnownTestnet) {
+  if (hasMixedNetworks(allNetworks)) {
     warnings.push({
       code: ErrorCode.MIXED_NETWORKS,
       field: 'endpoints',
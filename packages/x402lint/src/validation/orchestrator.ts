@@ -2,14 +2,20 @@
  * Validation orchestrator
  * Composes all rule modules into a single validation pipeline
  *
- * Pipeline: parse -> detect -> normalize -> validate rules -> collect issues -> strict mode
+ * Pipeline: parse -> detect -> normalize -> validate rules -> custom rules -> collect issues -> severity -> locate
  */
 
-import type { ValidationResult, ValidationIssue } from '../types/validation'
+import type { ValidationResult, ValidationIssue, RuleSeverityMap } from '../types/validation'
 import type { NormalizedConfig } from '../types/config'
+import type { CustomRule } from '../types/rules'
 import { ErrorCode, ErrorMessages } from '../types/errors'
 import { normalize } from '../detection/normalize'
-import { validateAddress } from './address'
+import { validateAddress, validateAssetAddress } from './address'
+import { runEntryRules, runConfigRules } from './custom-rules'
+import { applySeverity } from './severity'
+import { validateSchemeEntry } from './schemes'
+import { aliasSuggestionField } from './suggestions'
+import { locateIssues } from '../location/locate'
 import {
   validateStructure,
   validateVersion,
@@ -18,20 +24,39 @@ import {
   validateResource,
   validateNetwork,
   validateAsset,
+  validateScheme,
+  validateAcceptsConsistency,
   validateAmount,
+  validatePrice,
+  assertPriceBounds,
+  validatePayTo,
   validateTimeout,
   validateLegacy,
+  validateNormalizationLoss,
   validateBazaar,
   validateOutputSchema,
   validateMissingSchema,
+  validateUnknownFields,
 } from './rules'
 
 /**
  * Options for the validate() orchestrator
  */
 export interface ValidationOptions {
-  /** When true, all warnings are promoted to errors */
+  /** When true, all warnings are promoted to errors (except codes with an explicit severity in rules) */
   strict?: boolean | undefined
+  /** Per-rule severity overrides keyed by error code, e.g. { MISSING_INPUT_SCHEMA: 'off' } */
+  rules?: RuleSeverityMap | undefined
+  /** Field paths whose issues are dropped, e.g. ['extensions', 'accepts[*].payTo'] */
+  ignore?: readonly string[] | undefined
+  /** User-defined rules run alongside the built-in rule modules */
+  customRules?: readonly CustomRule[] | undefined
+  /** Highest accepted price per request in human units of the asset, e.g. '5.00' (known assets only) */
+  maxPrice?: string | undefined
+  /** Lowest accepted price per request in human units of the asset, e.g. '0.0001' (known assets only) */
+  minPrice?: string | undefined
+  /** Wallet expected to receive Solana payments; explains an off-curve payTo that is its token account */
+  solanaOwner?: string | undefined
 }
 
 /**
@@ -40,21 +65,29 @@ export interface ValidationOptions {
  * Takes any input (JSON string or object), runs it through:
  * 1. Structure validation (parse, object check, format detection)
  * 2. Normalization to canonical v2 shape
- * 3. Version, accepts, resource validation
- * 4. Per-entry field, network, asset, amount, timeout, address validation
+ * 3. Version, accepts, resource and unknown field validation
+ * 4. Per-entry field, network, scheme, asset, amount, price, timeout, address and recipient validation,
+ *    then the entry validators registered for the entry's scheme, then
+ *    duplicate, conflicting and mainnet/testnet-mixed entries
  * 5. Legacy format warnings
- * 6. Strict mode promotion (warnings -> errors)
+ * 6. Custom rules (options.customRules)
+ * 7. Ignored field paths, severity overrides (options.rules) and strict mode promotion (warnings -> errors)
+ * 8. Source locations (line, column, range) when input is a JSON string
  *
- * NEVER throws -- all invalid inputs produce structured error results.
+ * NEVER throws for bad input -- all invalid inputs produce structured error results.
+ * Only malformed options are rejected, since they are the caller's bug, not the config's.
  *
  * @param input - JSON string or parsed object to validate
- * @param options - Validation options (e.g. strict mode)
+ * @param options - Validation options (e.g. strict mode, custom rules)
  * @returns Structured validation result
+ * @throws TypeError when options.maxPrice or options.minPrice is not a plain decimal string
  */
 export function validate(
   input: string | object,
   options?: ValidationOptions | undefined,
 ): ValidationResult {
+  assertPriceBounds(options)
+
   try {
     return runPipeline(input, options)
   } catch {
@@ -86,12 +119,13 @@ function runPipeline(
 ): ValidationResult {
   // ── Level 1: Structure ──────────────────────────────────────────────
   const structure = validateStructure(input)
+  const locations = structure.locations
 
   if (structure.issues.length > 0) {
     return {
       valid: false,
       version: structure.format || 'unknown',
-      errors: structure.issues,
+      errors: locations ? locateIssues(structure.issues, locations) : structure.issues,
       warnings: [],
       normalized: null,
     }
@@ -123,6 +157,7 @@ function runPipeline(
   // ── Collect Issues ──────────────────────────────────────────────────
   const errors: ValidationIssue[] = []
   const warnings: ValidationIssue[] = []
+  const customRules = options?.customRules ?? []
 
   // ── Level 2: Version ────────────────────────────────────────────────
   errors.push(...validateVersion(normalized, format))
@@ -133,6 +168,9 @@ function runPipeline(
   // ── Level 2: Resource ───────────────────────────────────────────────
   warnings.push(...validateResource(normalized, format))
 
+  // ── Level 2: Unknown fields ─────────────────────────────────────────
+  warnings.push(...validateUnknownFields(parsed, format))
+
   // ── Levels 3-4: Per-entry validation ────────────────────────────────
   if (Array.isArray(normalized.accepts) && normalized.accepts.length > 0) {
     for (let i = 0; i < normalized.accepts.length; i++) {
@@ -151,11 +189,42 @@ function runPipeline(
         }
       }
 
-      // Asset (warnings)
-      warnings.push(...validateAsset(entry, fieldPath))
+      // Scheme (mixed: errors and warnings by severity)
+      for (const issue of validateScheme(entry, fieldPath)) {
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
 
-      // Amount (errors)
-      errors.push(...validateAmount(entry, fieldPath))
+      // Asset (mixed: errors and warnings by severity)
+      for (const issue of validateAsset(entry, fieldPath)) {
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
+
+      // Amount (mixed: errors and warnings by severity); v1 input names the field maxAmountRequired
+      for (const amountIssue of validateAmount(entry, fieldPath)) {
+        const issue = format === 'v1' ? aliasSuggestionField(amountIssue, 'amount', 'maxAmountRequired') : amountIssue
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
+
+      // Price in human units (mixed: errors and warnings by severity)
+      for (const issue of validatePrice(entry, fieldPath, options)) {
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
 
       // Timeout (mixed: errors and warnings by severity)
       for (const issue of validateTimeout(entry, fieldPath, format)) {
@@ -176,31 +245,91 @@ function runPipeline(
           }
         }
       }
+
+      // Recipient can receive the payment (dispatch by severity)
+      for (const issue of validatePayTo(entry, fieldPath, options)) {
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
+
+      // Asset identifier format (dispatch by severity)
+      if (entry.asset && entry.network) {
+        for (const issue of validateAssetAddress(entry.asset, entry.network, `${fieldPath}.asset`)) {
+          if (issue.severity === 'error') {
+            errors.push(issue)
+          } else {
+            warnings.push(issue)
+          }
+        }
+      }
+
+      // Scheme-specific entry validators (dispatch by severity)
+      for (const issue of validateSchemeEntry(entry, fieldPath)) {
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
+
+      // Custom entry rules (dispatch by severity)
+      const entryContext = { config: normalized, parsed, format, entry, index: i, fieldPath }
+      for (const issue of runEntryRules(customRules, entryContext)) {
+        if (issue.severity === 'error') {
+          errors.push(issue)
+        } else {
+          warnings.push(issue)
+        }
+      }
+    }
+  }
+
+  // ── Level 4: Accepts consistency ────────────────────────────────────
+  // Mixed: errors and warnings by severity
+  for (const issue of validateAcceptsConsistency(normalized, parsed)) {
+    if (issue.severity === 'error') {
+      errors.push(issue)
+    } else {
+      warnings.push(issue)
     }
   }
 
   // ── Level 5: Legacy ─────────────────────────────────────────────────
   warnings.push(...validateLegacy(normalized, format, parsed))
+  warnings.push(...validateNormalizationLoss(format, parsed))
 
   // ── Level 6: Extensions ────────────────────────────────────────────
   warnings.push(...validateBazaar(normalized))
   warnings.push(...validateOutputSchema(parsed))
   warnings.push(...validateMissingSchema(normalized, parsed))
 
-  // ── Strict Mode ─────────────────────────────────────────────────────
-  if (options?.strict === true) {
-    for (const warning of warnings) {
-      errors.push({ ...warning, severity: 'error' })
+  // ── Level 7: Custom rules ──────────────────────────────────────────
+  for (const issue of runConfigRules(customRules, { config: normalized, parsed, format })) {
+    if (issue.severity === 'error') {
+      errors.push(issue)
+    } else {
+      warnings.push(issue)
     }
-    warnings.length = 0
   }
 
+  // ── Severity overrides + Strict Mode ───────────────────────────────
+  const adjusted = applySeverity(errors, warnings, options)
+
+  // ── Source locations ───────────────────────────────────────────────
+  // Only string input has positions; object input is returned as is
+  const located = locations
+    ? { errors: locateIssues(adjusted.errors, locations), warnings: locateIssues(adjusted.warnings, locations) }
+    : adjusted
+
   // ── Return ──────────────────────────────────────────────────────────
   return {
-    valid: errors.length === 0,
+    valid: located.errors.length === 0,
     version: format,
-    errors,
-    warnings,
+    errors: located.errors,
+    warnings: located.warnings,
     normalized,
   }
 }
@@ -5,12 +5,198 @@
 
 import type { AcceptsEntry, ConfigFormat, ValidationIssue } from '../../types'
 import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { getAssetInfo } from '../../registries/assets'
+import { getNetworkNamespace } from '../../registries/networks'
+import { replaceSuggestion } from '../suggestions'
+
+/**
+ * Price bounds in human units of the entry's asset, e.g. { maxPrice: '5.00' }
+ */
+export interface PriceBounds {
+  maxPrice?: string | undefined
+  minPrice?: string | undefined
+}
+
+// Human-unit price: plain decimal, e.g. '5', '0.01'
+const PRICE_REGEX = /^\d+(?:\.\d+)?$/
+
+// Stablecoins are priced ~1 unit = $1, so large unit counts are suspicious
+const STABLECOIN_SYMBOLS: readonly string[] = ['USDC', 'USDT', 'DAI', 'PYUSD', 'EURC']
+
+// More stablecoin units than this per request usually means atomic units were miscounted
+const DECIMALS_MISTAKE_THRESHOLD = 1000n
+
+/**
+ * Check if a string is a valid human-unit price for PriceBounds
+ */
+export function isValidPrice(value: string): boolean {
+  return PRICE_REGEX.test(value)
+}
+
+/**
+ * A bound that is set and well-formed; malformed ones are rejected by assertPriceBounds
+ */
+function isUsableBound(value: unknown): value is string {
+  return typeof value === 'string' && isValidPrice(value)
+}
+
+/**
+ * Format an atomic amount in human units, e.g. ('10000', 6) -> '0.01'
+ */
+function formatUnits(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, '0')
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '')
+  return fraction ? `${whole}.${fraction}` : whole
+}
+
+/**
+ * Compare an atomic amount against a human-unit price without rounding
+ *
+ * @returns Negative, zero or positive like a sort comparator
+ */
+function compareToPrice(amount: bigint, decimals: number, price: string): number {
+  const [whole = '0', fraction = ''] = price.split('.')
+  // amount / 10^decimals  vs  priceDigits / 10^fraction.length, cross-multiplied
+  const left = amount * 10n ** BigInt(fraction.length)
+  const right = BigInt(whole + fraction) * 10n ** BigInt(decimals)
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+// Common non-atomic amount forms
+const HEX_AMOUNT_REGEX = /^0x[0-9a-fA-F]+$/
+const SCIENTIFIC_AMOUNT_REGEX = /^(\d+)(?:\.(\d+))?[eE]([+-]?\d+)$/
+const DECIMAL_AMOUNT_REGEX = /^(\d*)\.(\d+)$/
+const CURRENCY_AMOUNT_REGEX = /^[$€£]\s*(\d*)(?:\.(\d+))?$/
+const MAX_EXPONENT = 100
+
+// Integer type of token amounts per CAIP-2 namespace
+const AMOUNT_RANGES = {
+  eip155: { type: 'uint256', max: 2n ** 256n - 1n }, // ERC-20
+  solana: { type: 'u64', max: 2n ** 64n - 1n }, // SPL Token
+  aptos: { type: 'u64', max: 2n ** 64n - 1n }, // Coin / Fungible Asset
+  stellar: { type: 'int64', max: 2n ** 63n - 1n }, // Stellar assets and SAC
+  stacks: { type: 'uint128', max: 2n ** 128n - 1n }, // SIP-010
+  cosmos: { type: 'uint256', max: 2n ** 256n - 1n }, // Cosmos SDK Int (bank coins)
+} as const
+
+/**
+ * A recognized non-atomic amount: either an integer written in another
+ * notation, or a human-readable price with whole and fraction digits
+ */
+type AmountForm =
+  | { kind: 'hex' | 'scientific'; atomic: string }
+  | { kind: 'decimal' | 'currency' | 'scientific'; whole: string; fraction: string }
+
+/**
+ * Recognize hex, scientific, decimal and currency-prefixed amounts
+ *
+ * Scientific notation that expands to an integer (1e6) is read as atomic
+ * units; anything with a fractional part (1e-2, 0.01, $0.01) as a price.
+ */
+function parseAmountForm(value: string): AmountForm | null {
+  if (HEX_AMOUNT_REGEX.test(value)) {
+    return { kind: 'hex', atomic: BigInt(value).toString() }
+  }
+
+  const scientific = SCIENTIFIC_AMOUNT_REGEX.exec(value)
+  if (scientific) {
+    const [, intPart = '', fracPart = '', exponent = '0'] = scientific
+    // Beyond uint256 range either way; not worth expanding
+    if (Math.abs(Number(exponent)) > MAX_EXPONENT) return null
+    const digits = intPart + fracPart
+    const point = intPart.length + Number(exponent)
+    if (point >= digits.length) {
+      return { kind: 'scientific', atomic: BigInt(digits.padEnd(point, '0')).toString() }
+    }
+    if (point <= 0) {
+      return { kind: 'scientific', whole: '0', fraction: '0'.repeat(-point) + digits }
+    }
+    return { kind: 'scientific', whole: digits.slice(0, point), fraction: digits.slice(point) }
+  }
+
+  const decimal = DECIMAL_AMOUNT_REGEX.exec(value)
+  if (decimal) {
+    return { kind: 'decimal', whole: decimal[1] ?? '', fraction: decimal[2] ?? '' }
+  }
+
+  const currency = CURRENCY_AMOUNT_REGEX.exec(value)
+  if (currency && (currency[1] || currency[2])) {
+    return { kind: 'currency', whole: currency[1] ?? '', fraction: currency[2] ?? '' }
+  }
+
+  return null
+}
+
+const FORM_LABELS = {
+  hex: 'hex',
+  scientific: 'scientific notation',
+  decimal: 'a decimal',
+  currency: 'a currency amount',
+} as const
+
+/**
+ * Build the issue for a recognized non-atomic amount
+ */
+function amountFormIssue(entry: AcceptsEntry, field: string, form: AmountForm): ValidationIssue {
+  const value = entry.amount
+
+  // Integer in another notation: the atomic value is known regardless of asset
+  if ('atomic' in form) {
+    return {
+      code: ErrorCode.INVALID_AMOUNT,
+      field,
+      message: `${ErrorMessages.INVALID_AMOUNT}: '${value}' is ${FORM_LABELS[form.kind]}, write the digits out`,
+      severity: 'error',
+      fix: `Use '${form.atomic}'`,
+      suggestions: [replaceSuggestion(field, form.atomic, `Use '${form.atomic}'`, false)],
+    }
+  }
+
+  const fraction = form.fraction.replace(/0+$/, '')
+  const price = `${form.whole || '0'}${fraction ? `.${fraction}` : ''}`
+  const message = `${ErrorMessages.INVALID_AMOUNT}: '${value}' looks like a human-readable price (${FORM_LABELS[form.kind]})`
+
+  const assetInfo = entry.network && entry.asset ? getAssetInfo(entry.network, entry.asset) : undefined
+  if (!assetInfo) {
+    return {
+      code: ErrorCode.INVALID_AMOUNT,
+      field,
+      message,
+      severity: 'error',
+      fix: `Convert ${price} to atomic units: multiply by 10^decimals of the asset (e.g. 0.01 USDC with 6 decimals = 10000)`,
+    }
+  }
+
+  const { decimals, symbol } = assetInfo
+  if (fraction.length > decimals) {
+    return {
+      code: ErrorCode.AMOUNT_PRECISION_EXCEEDED,
+      field,
+      message: `${ErrorMessages.AMOUNT_PRECISION_EXCEEDED}: '${value}' has ${fraction.length} decimal places, ${symbol} has ${decimals}`,
+      severity: 'error',
+      fix: `Round ${price} ${symbol} to at most ${decimals} decimal places, then convert to atomic units`,
+    }
+  }
+
+  const atomic = BigInt((form.whole || '0') + fraction.padEnd(decimals, '0')).toString()
+  return {
+    code: ErrorCode.INVALID_AMOUNT,
+    field,
+    message,
+    severity: 'error',
+    fix: `${price} ${symbol} is '${atomic}' in atomic units (${decimals} decimals)`,
+    suggestions: [replaceSuggestion(field, atomic, `Use atomic amount '${atomic}'`, false)],
+  }
+}
 
 /**
  * Validate amount field on a single accepts entry.
  *
- * Amount must be a digit-only string (no decimals, signs, or scientific notation)
- * and must be greater than zero.
+ * Amount must be a digit-only string (atomic units), greater than zero and
+ * within the integer range of the network's token standard. Hex, scientific, decimal and currency-prefixed amounts are recognized
+ * and the fix gives the atomic value, computed from the asset's decimals for
+ * known assets.
  *
  * @param entry - Accepts entry to validate
  * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
@@ -26,22 +212,156 @@ export function validateAmount(entry: AcceptsEntry, fieldPath: string): Validati
 
   // Amount must be digits only (atomic units)
   if (!/^\d+$/.test(entry.amount)) {
+    const form = typeof entry.amount === 'string' ? parseAmountForm(entry.amount.trim()) : null
+    if (form) {
+      issues.push(amountFormIssue(entry, `${fieldPath}.amount`, form))
+    } else {
+      issues.push({
+        code: ErrorCode.INVALID_AMOUNT,
+        field: `${fieldPath}.amount`,
+        message: ErrorMessages.INVALID_AMOUNT,
+        severity: 'error',
+      })
+    }
+    return issues
+  }
+
+  const amount = BigInt(entry.amount)
+
+  // Zero amount check
+  if (amount === 0n) {
     issues.push({
-      code: ErrorCode.INVALID_AMOUNT,
+      code: ErrorCode.ZERO_AMOUNT,
       field: `${fieldPath}.amount`,
-      message: ErrorMessages.INVALID_AMOUNT,
+      message: ErrorMessages.ZERO_AMOUNT,
       severity: 'error',
     })
     return issues
   }
 
-  // Zero amount check
-  if (entry.amount === '0') {
+  // Largest amount the chain's token standard can represent
+  const namespace = entry.network ? getNetworkNamespace(entry.network) : undefined
+  const range = namespace ? AMOUNT_RANGES[namespace as keyof typeof AMOUNT_RANGES] : undefined
+  if (range && amount > range.max) {
     issues.push({
-      code: ErrorCode.ZERO_AMOUNT,
+      code: ErrorCode.AMOUNT_OUT_OF_RANGE,
       field: `${fieldPath}.amount`,
-      message: ErrorMessages.ZERO_AMOUNT,
+      message: `${ErrorMessages.AMOUNT_OUT_OF_RANGE}: ${namespace} amounts are ${range.type}, max ${range.max}`,
       severity: 'error',
+      fix: 'Check the amount is in atomic units of the asset',
+    })
+  }
+
+  // Leading zeros: same value, but not the canonical form
+  if (entry.amount.length > 1 && entry.amount.startsWith('0')) {
+    const canonical = amount.toString()
+    issues.push({
+      code: ErrorCode.AMOUNT_LEADING_ZEROS,
+      field: `${fieldPath}.amount`,
+      message: ErrorMessages.AMOUNT_LEADING_ZEROS,
+      severity: 'warning',
+      fix: `Use '${canonical}'`,
+      suggestions: [replaceSuggestion(`${fieldPath}.amount`, canonical, `Use '${canonical}'`, false)],
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Check the maxPrice / minPrice options themselves.
+ *
+ * Options come from SDK callers without type checking, so a bound like
+ * '$5' or 5 is rejected instead of silently disabling the price checks.
+ *
+ * @param bounds - Optional price bounds in human units
+ * @throws TypeError naming the first malformed bound
+ */
+export function assertPriceBounds(bounds?: PriceBounds | undefined): void {
+  for (const key of ['maxPrice', 'minPrice'] as const) {
+    const value: unknown = bounds?.[key]
+    if (value !== undefined && !isUsableBound(value)) {
+      throw new TypeError(
+        `${key} must be a plain decimal string in asset units, e.g. "5.00", got ${JSON.stringify(value)}`,
+      )
+    }
+  }
+}
+
+/**
+ * Sanity-check an amount in human units of its asset.
+ *
+ * Resolves decimals through the asset registry, so unknown assets are skipped.
+ * Amounts outside the configured bounds are errors; stablecoin amounts above
+ * 1,000 units per request are flagged as a likely decimals mistake.
+ *
+ * @param entry - Accepts entry to validate
+ * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
+ * @param bounds - Optional price bounds in human units
+ * @returns Array of validation issues
+ */
+export function validatePrice(
+  entry: AcceptsEntry,
+  fieldPath: string,
+  bounds?: PriceBounds | undefined,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  // Malformed or zero amounts are reported by validateAmount
+  if (!entry.amount || !/^\d+$/.test(entry.amount) || !entry.network || !entry.asset) {
+    return issues
+  }
+
+  const assetInfo = getAssetInfo(entry.network, entry.asset)
+  if (!assetInfo) {
+    return issues
+  }
+
+  const amount = BigInt(entry.amount)
+  if (amount === 0n) {
+    return issues
+  }
+
+  const { decimals, symbol } = assetInfo
+  const human = `${formatUnits(amount, decimals)} ${symbol}`
+  const atomicHint = `amount is in atomic units (${decimals} decimals): ${entry.amount} = ${human}`
+
+  if (isUsableBound(bounds?.maxPrice)) {
+    if (compareToPrice(amount, decimals, bounds.maxPrice) > 0) {
+      issues.push({
+        code: ErrorCode.AMOUNT_ABOVE_MAX_PRICE,
+        field: `${fieldPath}.amount`,
+        message: `${ErrorMessages.AMOUNT_ABOVE_MAX_PRICE}: ${human} > ${bounds.maxPrice} ${symbol}`,
+        severity: 'error',
+        fix: atomicHint,
+      })
+    }
+  }
+
+  if (isUsableBound(bounds?.minPrice)) {
+    if (compareToPrice(amount, decimals, bounds.minPrice) < 0) {
+      issues.push({
+        code: ErrorCode.AMOUNT_BELOW_MIN_PRICE,
+        field: `${fieldPath}.amount`,
+        message: `${ErrorMessages.AMOUNT_BELOW_MIN_PRICE}: ${human} < ${bounds.minPrice} ${symbol}`,
+        severity: 'error',
+        fix: atomicHint,
+      })
+    }
+  }
+
+  // A valid explicit maxPrice supersedes the default heuristic
+  if (
+    !isUsableBound(bounds?.maxPrice) &&
+    STABLECOIN_SYMBOLS.includes(symbol) &&
+    amount > DECIMALS_MISTAKE_THRESHOLD * 10n ** BigInt(decimals)
+  ) {
+    issues.push({
+      code: ErrorCode.AMOUNT_LIKELY_DECIMALS_MISTAKE,
+      field: `${fieldPath}.amount`,
+      message: `${ErrorMessages.AMOUNT_LIKELY_DECIMALS_MISTAKE}: ${human} per request`,
+      severity: 'warning',
+      fix: `Check the price: ${atomicHint}, so 1 ${symbol} is ${10n ** BigInt(decimals)}`,
     })
   }
 
@@ -80,12 +400,26 @@ export function validateTimeout(
 
   // Timeout value validation (RULE-10): must be a positive integer
   if (typeof entry.maxTimeoutSeconds !== 'number') {
-    issues.push({
-      code: ErrorCode.INVALID_TIMEOUT,
-      field: `${fieldPath}.maxTimeoutSeconds`,
-      message: ErrorMessages.INVALID_TIMEOUT,
-      severity: 'error',
-    })
+    const value = entry.maxTimeoutSeconds as unknown
+
+    // A quoted positive integer ("300") converts to a number without loss
+    if (typeof value === 'string' && /^[1-9]\d*$/.test(value)) {
+      issues.push({
+        code: ErrorCode.INVALID_TIMEOUT,
+        field: `${fieldPath}.maxTimeoutSeconds`,
+        message: ErrorMessages.INVALID_TIMEOUT,
+        severity: 'error',
+        fix: `Use the number ${value} instead of the string "${value}"`,
+        suggestions: [replaceSuggestion(`${fieldPath}.maxTimeoutSeconds`, Number(value), `Use number ${value}`, true)],
+      })
+    } else {
+      issues.push({
+        code: ErrorCode.INVALID_TIMEOUT,
+        field: `${fieldPath}.maxTimeoutSeconds`,
+        message: ErrorMessages.INVALID_TIMEOUT,
+        severity: 'error',
+      })
+    }
     return issues
   }
 
@@ -0,0 +1,150 @@
+/**
+ * Level 4: Accepts consistency
+ * Checks the accepts array as a whole: duplicates, conflicts and mainnet/testnet mixing
+ */
+
+import type { AcceptsEntry, NormalizedConfig, ValidationIssue } from '../../types'
+import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { getNetworkInfo, getNetworkNamespace } from '../../registries/networks'
+import { getCanonicalNetwork } from '../../registries/simple-names'
+import { isRecord } from '../../detection/guards'
+
+/**
+ * Check if known networks include both mainnets and testnets
+ *
+ * Simple names ('base', or any registered name) resolve to their CAIP-2
+ * network. Unknown networks are ignored, since their testnet status is not known.
+ *
+ * @param networks - CAIP-2 network identifiers
+ * @returns true if at least one known mainnet and one known testnet are present
+ */
+export function hasMixedNetworks(networks: Iterable<string>): boolean {
+  let hasKnownMainnet = false
+  let hasKnownTestnet = false
+
+  for (const network of networks) {
+    const canonical = getCanonicalNetwork(network)
+    const networkInfo = getNetworkInfo(network) ?? (canonical ? getNetworkInfo(canonical) : undefined)
+    if (networkInfo) {
+      if (networkInfo.testnet) {
+        hasKnownTestnet = true
+      } else {
+        hasKnownMainnet = true
+      }
+    }
+  }
+
+  return hasKnownMainnet && hasKnownTestnet
+}
+
+/**
+ * Serialize an entry with sorted keys so key order doesn't matter
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Key identifying what an entry charges in: scheme + network + asset
+ * EVM asset addresses compare case-insensitively
+ */
+function offerKey(entry: AcceptsEntry): string {
+  const asset = getNetworkNamespace(entry.network) === 'eip155' ? entry.asset.toLowerCase() : entry.asset
+  return `${entry.scheme} ${entry.network} ${asset}`
+}
+
+/**
+ * Validate the accepts array as a whole.
+ *
+ * - Exact duplicate entries (warning, with a patch removing the duplicate),
+ *   compared as written so v1 per-entry resource, description and mimeType count
+ * - Same scheme + network + asset with a different amount or payTo (error):
+ *   clients pick one, so the other price or recipient is never used
+ * - Known mainnet and testnet networks in one config (MIXED_NETWORKS warning)
+ *
+ * @param config - Normalized config
+ * @param originalInput - Original input object, whose accepts entries are compared for duplicates
+ * @returns Array of validation issues
+ */
+export function validateAcceptsConsistency(
+  config: NormalizedConfig,
+  originalInput?: object | undefined,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  if (!Array.isArray(config.accepts) || config.accepts.length < 2) {
+    return issues
+  }
+
+  const rawAccepts: readonly unknown[] =
+    isRecord(originalInput) && Array.isArray(originalInput.accepts) ? originalInput.accepts : config.accepts
+  const seen = new Map<string, number>() // canonical JSON -> first index
+  const offers = new Map<string, number>() // offer key -> first index
+
+  config.accepts.forEach((entry, i) => {
+    if (!entry || typeof entry !== 'object') return
+
+    const json = canonicalJson(rawAccepts[i] ?? entry)
+    const duplicateOf = seen.get(json)
+    if (duplicateOf !== undefined) {
+      issues.push({
+        code: ErrorCode.DUPLICATE_ACCEPTS_ENTRY,
+        field: `accepts[${i}]`,
+        message: `${ErrorMessages.DUPLICATE_ACCEPTS_ENTRY}: same as accepts[${duplicateOf}]`,
+        severity: 'warning',
+        fix: `Remove accepts[${i}]`,
+        suggestions: [{ label: `Remove accepts[${i}]`, safe: false, patch: [{ op: 'remove', path: `/accepts/${i}` }] }],
+      })
+      return
+    }
+    seen.set(json, i)
+
+    // Missing fields are reported per entry
+    if (!entry.scheme || !entry.network || !entry.asset) return
+
+    const key = offerKey(entry)
+    const firstIndex = offers.get(key)
+    if (firstIndex === undefined) {
+      offers.set(key, i)
+      return
+    }
+
+    const first = config.accepts[firstIndex]!
+    const differences: string[] = []
+    if (first.amount !== entry.amount) differences.push(`amount ${first.amount} vs ${entry.amount}`)
+    if (first.payTo !== entry.payTo) differences.push(`payTo ${first.payTo} vs ${entry.payTo}`)
+
+    if (differences.length > 0) {
+      issues.push({
+        code: ErrorCode.CONFLICTING_ACCEPTS_ENTRIES,
+        field: `accepts[${i}]`,
+        message: `${ErrorMessages.CONFLICTING_ACCEPTS_ENTRIES}: accepts[${firstIndex}] and accepts[${i}] differ in ${differences.join(', ')}`,
+        severity: 'error',
+        fix: `Keep one entry for ${entry.scheme} on ${entry.network} with this asset`,
+      })
+    }
+  })
+
+  const networks = config.accepts.map((entry) => entry?.network).filter((network): network is string => !!network)
+  if (hasMixedNetworks(networks)) {
+    issues.push({
+      code: ErrorCode.MIXED_NETWORKS,
+      field: 'accepts',
+      message: 'Config accepts both mainnet and testnet networks',
+      severity: 'warning',
+      fix: 'Serve testnet entries from a separate config so clients never pay on the wrong network',
+    })
+  }
+
+  return issues
+}
@@ -95,7 +95,7 @@ export function validateBazaar(config: NormalizedConfig): ValidationIssue[] {
 /**
  * Validate `accepts[].outputSchema` on the raw parsed input.
  *
- * Uses the raw parsed object because AcceptsEntry strips outputSchema during normalization.
+ * Uses the raw parsed object because normalization only carries object-valued outputSchema.
  *
  * Checks per entry with outputSchema:
  * - outputSchema is an object
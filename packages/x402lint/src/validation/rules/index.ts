@@ -7,6 +7,12 @@ export type { StructureResult } from './structure'
 export { validateVersion } from './version'
 export { validateFields, validateAccepts, validateResource } from './fields'
 export { validateNetwork, validateAsset } from './network'
-export { validateAmount, validateTimeout } from './amount'
-export { validateLegacy } from './legacy'
+export { validateScheme } from './scheme'
+export { validateAcceptsConsistency, hasMixedNetworks } from './consistency'
+export { validateAmount, validatePrice, assertPriceBounds, validateTimeout, isValidPrice } from './amount'
+export type { PriceBounds } from './amount'
+export { validatePayTo } from './pay-to'
+export type { PayToHints } from './pay-to'
+export { validateLegacy, validateNormalizationLoss } from './legacy'
 export { validateBazaar, validateOutputSchema, validateMissingSchema } from './extensions'
+export { validateUnknownFields, validateUnknownManifestFields } from './unknown-fields'
@@ -3,21 +3,23 @@
  * Produces warnings for legacy config formats with upgrade suggestions
  */
 
-import type { NormalizedConfig, ConfigFormat, ValidationIssue } from '../../types'
+import type { NormalizedConfig, ConfigFormat, ValidationIssue, FixSuggestion, JsonPatchOperation } from '../../types'
 import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { isRecord } from '../../detection/guards'
+import { findNormalizationLoss, normalize } from '../../detection/normalize'
 
 /**
  * Validate for legacy format usage and produce upgrade suggestions.
  *
  * @param _config - Normalized config (reserved for future use)
  * @param detectedFormat - Detected config format
- * @param _originalInput - Original input object (reserved for future use)
+ * @param originalInput - Original input object, used to build the upgrade patch
  * @returns Array of validation issues (warnings)
  */
 export function validateLegacy(
   _config: NormalizedConfig,
   detectedFormat: ConfigFormat,
-  _originalInput: object,
+  originalInput: object,
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
 
@@ -28,8 +30,77 @@ export function validateLegacy(
       message: ErrorMessages.LEGACY_FORMAT,
       severity: 'warning',
       fix: 'Upgrade to x402 v2 -- use amount instead of maxAmountRequired, add resource object',
+      suggestions: [upgradeSuggestion(originalInput)],
     })
   }
 
   return issues
 }
+
+/**
+ * Warn when normalizing a v1 config to v2 drops information.
+ *
+ * One issue lists every lost field (e.g. per-entry resources that differ
+ * from the lifted one); it points at the first of them.
+ *
+ * @param detectedFormat - Detected config format
+ * @param originalInput - Original input object
+ * @returns Array with at most one NORMALIZATION_LOSS warning
+ */
+export function validateNormalizationLoss(detectedFormat: ConfigFormat, originalInput: object): ValidationIssue[] {
+  if (detectedFormat !== 'v1') {
+    return []
+  }
+
+  const losses = findNormalizationLoss(originalInput)
+  if (losses.length === 0) {
+    return []
+  }
+
+  return [
+    {
+      code: ErrorCode.NORMALIZATION_LOSS,
+      field: losses[0]!.field,
+      message: `${ErrorMessages.NORMALIZATION_LOSS}: ${losses.map((loss) => `${loss.field} (${loss.reason})`).join(', ')}`,
+      severity: 'warning',
+      fix: 'Give every entry the same resource, description and mimeType, or split them into separate manifest endpoints',
+    },
+  ]
+}
+
+/**
+ * Build the v1 -> v2 upgrade as a JSON Patch against the original input:
+ * bump x402Version, rename maxAmountRequired to amount, and replace the
+ * per-entry resource, description and mimeType with the top-level resource
+ * normalize() builds from them ({ url, description, mimeType }).
+ *
+ * Not safe: entries with different resources collapse into one.
+ */
+function upgradeSuggestion(originalInput: object): FixSuggestion {
+  const patch: JsonPatchOperation[] = [{ op: 'replace', path: '/x402Version', value: 2 }]
+  const raw = originalInput as Record<string, unknown>
+  const accepts = Array.isArray(raw.accepts) ? raw.accepts : []
+
+  accepts.forEach((entry: unknown, i) => {
+    if (isRecord(entry) && entry.maxAmountRequired !== undefined && entry.amount === undefined) {
+      patch.push({ op: 'move', from: `/accepts/${i}/maxAmountRequired`, path: `/accepts/${i}/amount` })
+    }
+  })
+
+  const resource = normalize(originalInput)?.resource
+  if (resource !== undefined && raw.resource === undefined) {
+    patch.push({ op: 'add', path: '/resource', value: resource })
+  }
+
+  // v2 entries have no resource, description or mimeType
+  accepts.forEach((entry: unknown, i) => {
+    if (!isRecord(entry)) return
+    for (const key of ['resource', 'description', 'mimeType']) {
+      if (entry[key] !== undefined) {
+        patch.push({ op: 'remove', path: `/accepts/${i}/${key}` })
+      }
+    }
+  })
+
+  return { label: 'Upgrade to x402 v2', safe: false, patch }
+}
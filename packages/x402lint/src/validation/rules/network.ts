@@ -5,15 +5,183 @@
 
 import type { AcceptsEntry, ValidationIssue } from '../../types'
 import { ErrorCode, ErrorMessages } from '../../types/errors'
-import { isValidCaip2, isKnownNetwork } from '../../registries/networks'
-import { getCanonicalNetwork } from '../../registries/simple-names'
-import { isKnownAsset } from '../../registries/assets'
+import {
+  isValidCaip2,
+  isKnownNetwork,
+  getKnownNetworks,
+  getNetworkInfo,
+  getNetworkNamespace,
+} from '../../registries/networks'
+import { getCanonicalNetwork, getSimpleNames } from '../../registries/simple-names'
+import { findAssetsByAddress, getNetworkAssets, isKnownAsset } from '../../registries/assets'
+import { toChecksumAddress } from '../../crypto/eip55'
+import { closestMatch } from '../did-you-mean'
+import { replaceSuggestion } from '../suggestions'
+
+/**
+ * Allowed CAIP-2 reference shape for a namespace
+ */
+interface ReferenceRule {
+  pattern: RegExp
+  max?: bigint // upper bound for numeric chain IDs
+  code: ErrorCode
+  shape: string
+}
+
+// Reference rules for namespaces with a fixed reference format
+const REFERENCE_RULES: Record<string, ReferenceRule> = {
+  eip155: {
+    pattern: /^[1-9]\d*$/,
+    code: ErrorCode.INVALID_EIP155_REFERENCE,
+    shape: 'a decimal chain ID without leading zeros, e.g. eip155:8453',
+  },
+  solana: {
+    pattern: /^[1-9A-HJ-NP-Za-km-z]{32}$/,
+    code: ErrorCode.INVALID_SOLANA_REFERENCE,
+    shape: 'the first 32 base58 characters of the genesis hash, e.g. solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  },
+  stacks: {
+    pattern: /^[1-9]\d*$/,
+    max: 2n ** 32n - 1n,
+    code: ErrorCode.INVALID_STACKS_REFERENCE,
+    shape: 'a 32-bit decimal chain ID: stacks:1 (mainnet) or stacks:2147483648 (testnet)',
+  },
+  stellar: {
+    pattern: /^(?:pubnet|testnet|futurenet)$/,
+    code: ErrorCode.INVALID_STELLAR_REFERENCE,
+    shape: 'pubnet, testnet or futurenet, e.g. stellar:pubnet',
+  },
+  aptos: {
+    pattern: /^[1-9]\d*$/,
+    max: 255n,
+    code: ErrorCode.INVALID_APTOS_REFERENCE,
+    shape: 'a decimal chain ID from 1 to 255: aptos:1 (mainnet) or aptos:2 (testnet)',
+  },
+  cosmos: {
+    pattern: /^[-a-zA-Z0-9]{1,32}$/,
+    code: ErrorCode.INVALID_COSMOS_REFERENCE,
+    shape: 'the chain ID, e.g. cosmos:noble-1',
+  },
+}
+
+/**
+ * Check a CAIP-2 reference against its namespace rule
+ *
+ * @returns The violated rule, or undefined if the reference is allowed (or the namespace has no rule)
+ */
+function violatedReferenceRule(namespace: string, reference: string): ReferenceRule | undefined {
+  const rule = Object.prototype.hasOwnProperty.call(REFERENCE_RULES, namespace) ? REFERENCE_RULES[namespace] : undefined
+  if (!rule) return undefined
+  if (!rule.pattern.test(reference)) return rule
+  if (rule.max !== undefined && BigInt(reference) > rule.max) return rule
+  return undefined
+}
+
+/**
+ * A known network close to a misspelled one
+ */
+interface NetworkMatch {
+  caip2: string
+  /** True when only case, spacing or a "mainnet" qualifier differed */
+  exact: boolean
+}
+
+/**
+ * Normalize a free-form network name, e.g. 'Base Mainnet' -> 'base-mainnet'
+ */
+function normalizeNetworkName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, '-')
+}
+
+/**
+ * Find the known CAIP-2 network closest to a misspelled CAIP-2 identifier
+ *
+ * Compares references within the same namespace, so 'eip155:8543' matches
+ * 'eip155:8453' and a truncated or over-long Solana genesis hash matches by prefix.
+ */
+function closestCaip2(network: string): NetworkMatch | undefined {
+  const colonIndex = network.indexOf(':')
+  if (colonIndex <= 0) return undefined
+
+  const namespace = network.slice(0, colonIndex).toLowerCase()
+  const candidates = new Map<string, string>()
+  for (const caip2 of getKnownNetworks()) {
+    if (caip2.startsWith(`${namespace}:`)) {
+      candidates.set(caip2.slice(namespace.length + 1), caip2)
+    }
+  }
+
+  const reference = closestMatch(network.slice(colonIndex + 1), candidates.keys())
+  return reference === undefined ? undefined : { caip2: candidates.get(reference)!, exact: false }
+}
+
+/**
+ * Find the known network closest to a misspelled simple name or display name
+ *
+ * 'Base Mainnet' and 'base_sepolia' normalize to a simple name; 'base-sepola'
+ * matches by edit distance.
+ */
+function closestSimpleName(name: string): NetworkMatch | undefined {
+  const normalized = normalizeNetworkName(name)
+  const candidates = new Map<string, string>(Object.entries(getSimpleNames()))
+  for (const caip2 of getKnownNetworks()) {
+    const info = getNetworkInfo(caip2)
+    if (info && !candidates.has(normalizeNetworkName(info.name))) {
+      candidates.set(normalizeNetworkName(info.name), caip2)
+    }
+  }
+
+  for (const key of [normalized, normalized.replace(/-?mainnet$/, '')]) {
+    const caip2 = candidates.get(key)
+    if (caip2) return { caip2, exact: true }
+  }
+
+  const match = closestMatch(normalized, candidates.keys())
+  return match === undefined ? undefined : { caip2: candidates.get(match)!, exact: false }
+}
+
+/**
+ * Find the known network meant by an invalid reference
+ *
+ * A simple name in the reference position ('eip155:base') or a chain ID with
+ * leading zeros ('eip155:08453') maps exactly; 'mainnet' / 'testnet' map to
+ * the namespace's only known network of that kind; anything else falls back
+ * to edit distance within the namespace.
+ */
+function closestReference(namespace: string, reference: string): NetworkMatch | undefined {
+  const named = getCanonicalNetwork(reference)
+  if (named?.startsWith(`${namespace}:`)) return { caip2: named, exact: true }
+
+  const unpadded = `${namespace}:${reference.replace(/^0+(?=\d)/, '')}`
+  if (unpadded !== `${namespace}:${reference}` && isKnownNetwork(unpadded)) return { caip2: unpadded, exact: true }
+
+  // 'aptos:mainnet' -> the namespace's only known mainnet
+  if (/^(?:mainnet|testnet)$/i.test(reference)) {
+    const testnet = reference.toLowerCase() === 'testnet'
+    const candidates = getKnownNetworks().filter(
+      (caip2) => caip2.startsWith(`${namespace}:`) && getNetworkInfo(caip2)?.testnet === testnet,
+    )
+    if (candidates.length === 1) return { caip2: candidates[0]!, exact: false }
+  }
+
+  return closestCaip2(`${namespace}:${reference}`)
+}
+
+/**
+ * Describe a network suggestion, e.g. "'eip155:8453' (Base)"
+ */
+function describeNetwork(caip2: string): string {
+  const info = getNetworkInfo(caip2)
+  return info ? `'${caip2}' (${info.name})` : `'${caip2}'`
+}
 
 /**
  * Validate network field on a single accepts entry.
  *
  * Checks CAIP-2 format and known network registry. Provides fix
- * suggestions for simple chain names that have canonical CAIP-2 mappings.
+ * suggestions for simple chain names that have canonical CAIP-2 mappings,
+ * and "did you mean" suggestions for misspelled names and CAIP-2 identifiers.
+ * References must match their namespace's shape (e.g. decimal eip155 chain IDs).
  *
  * @param entry - Accepts entry to validate
  * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
@@ -38,37 +206,122 @@ export function validateNetwork(entry: AcceptsEntry, fieldPath: string): Validat
         message: ErrorMessages.INVALID_NETWORK_FORMAT,
         severity: 'error',
         fix: `Use '${canonical}' instead of '${entry.network}'`,
+        suggestions: [replaceSuggestion(`${fieldPath}.network`, canonical, `Use '${canonical}'`, true)],
       })
     } else {
-      issues.push({
+      const issue: ValidationIssue = {
         code: ErrorCode.INVALID_NETWORK_FORMAT,
         field: `${fieldPath}.network`,
         message: ErrorMessages.INVALID_NETWORK_FORMAT,
         severity: 'error',
-      })
+      }
+      const match = entry.network.includes(':') ? closestCaip2(entry.network) : closestSimpleName(entry.network)
+      if (match) {
+        issue.fix = match.exact
+          ? `Use '${match.caip2}' instead of '${entry.network}'`
+          : `Did you mean ${describeNetwork(match.caip2)}?`
+        issue.suggestions = [replaceSuggestion(issue.field, match.caip2, `Use '${match.caip2}'`, match.exact)]
+      }
+      issues.push(issue)
     }
 
     return issues
   }
 
+  // Valid CAIP-2 format, but the reference can never resolve in its namespace
+  const namespace = getNetworkNamespace(entry.network)!
+  const reference = entry.network.slice(namespace.length + 1)
+  const rule = violatedReferenceRule(namespace, reference)
+  if (rule) {
+    const issue: ValidationIssue = {
+      code: rule.code,
+      field: `${fieldPath}.network`,
+      message: `Invalid ${namespace} reference '${reference}': expected ${rule.shape}`,
+      severity: 'error',
+      fix: `Use ${rule.shape}`,
+    }
+    const match = closestReference(namespace, reference)
+    if (match) {
+      issue.fix = match.exact
+        ? `Use '${match.caip2}' instead of '${entry.network}'`
+        : `Did you mean ${describeNetwork(match.caip2)}?`
+      issue.suggestions = [replaceSuggestion(issue.field, match.caip2, `Use '${match.caip2}'`, match.exact)]
+    }
+    issues.push(issue)
+    return issues
+  }
+
   // Valid CAIP-2 format but not in known registry
   if (!isKnownNetwork(entry.network)) {
-    issues.push({
+    const issue: ValidationIssue = {
       code: ErrorCode.UNKNOWN_NETWORK,
       field: `${fieldPath}.network`,
       message: ErrorMessages.UNKNOWN_NETWORK,
       severity: 'warning',
-    })
+    }
+    const match = closestCaip2(entry.network)
+    if (match) {
+      issue.fix = `Did you mean ${describeNetwork(match.caip2)}?`
+      issue.suggestions = [replaceSuggestion(issue.field, match.caip2, `Use '${match.caip2}'`, false)]
+    }
+    issues.push(issue)
   }
 
   return issues
 }
 
+/**
+ * Display form of an asset address (EIP-55 checksum on EVM networks)
+ */
+function displayAsset(network: string, address: string): string {
+  return getNetworkNamespace(network) === 'eip155' ? toChecksumAddress(address) : address
+}
+
+/**
+ * Explain a known asset configured on the wrong network
+ *
+ * Names the same token on the configured network when the registry has one,
+ * and the network the asset actually belongs to.
+ */
+function assetNetworkMismatch(entry: AcceptsEntry, fieldPath: string): ValidationIssue | undefined {
+  const network = entry.network
+  const namespace = getNetworkNamespace(network)
+  const home = findAssetsByAddress(entry.asset).find((match) => getNetworkNamespace(match.network) === namespace)
+  if (!home) {
+    return undefined
+  }
+
+  const homeName = getNetworkInfo(home.network)?.name ?? home.network
+  const networkName = getNetworkInfo(network)?.name ?? network
+  const issue: ValidationIssue = {
+    code: ErrorCode.ASSET_NETWORK_MISMATCH,
+    field: `${fieldPath}.asset`,
+    message: `This is ${home.info.symbol} on ${homeName} (${home.network}), not on ${networkName}`,
+    severity: 'error',
+    fix: `Set network to '${home.network}'`,
+    suggestions: [replaceSuggestion(`${fieldPath}.network`, home.network, `Use '${home.network}'`, false)],
+  }
+
+  const counterpart = getNetworkAssets(network).find(({ info }) => info.symbol === home.info.symbol)
+  if (counterpart) {
+    const address = displayAsset(network, counterpart.address)
+    issue.fix = `Use ${address} (${home.info.symbol} on ${networkName}), or set network to '${home.network}'`
+    issue.suggestions = [
+      replaceSuggestion(issue.field, address, `Use ${home.info.symbol} on ${networkName}`, false),
+      ...issue.suggestions!,
+    ]
+  }
+
+  return issue
+}
+
 /**
  * Validate asset field on a single accepts entry.
  *
  * Checks if the asset is known for the given network. Only checks
  * when both network and asset are present and network is valid.
+ * An asset known on another network of the same namespace (e.g. mainnet
+ * USDC on a testnet) is an error naming the correct asset or network.
  *
  * @param entry - Accepts entry to validate
  * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
@@ -84,12 +337,15 @@ export function validateAsset(entry: AcceptsEntry, fieldPath: string): Validatio
 
   // Only check known assets when the network is valid CAIP-2
   if (entry.network && isValidCaip2(entry.network) && !isKnownAsset(entry.network, entry.asset)) {
-    issues.push({
-      code: ErrorCode.UNKNOWN_ASSET,
-      field: `${fieldPath}.asset`,
-      message: ErrorMessages.UNKNOWN_ASSET,
-      severity: 'warning',
-    })
+    const mismatch = isKnownNetwork(entry.network) ? assetNetworkMismatch(entry, fieldPath) : undefined
+    issues.push(
+      mismatch ?? {
+        code: ErrorCode.UNKNOWN_ASSET,
+        field: `${fieldPath}.asset`,
+        message: ErrorMessages.UNKNOWN_ASSET,
+        severity: 'warning',
+      },
+    )
   }
 
   return issues
@@ -0,0 +1,195 @@
+/**
+ * Level 4: Recipient validation
+ * Catches payTo values that are well-formed addresses but cannot safely receive the payment
+ */
+
+import type { AcceptsEntry, ValidationIssue } from '../../types'
+import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { getNetworkInfo, getNetworkNamespace } from '../../registries/networks'
+import { findAssetsByAddress } from '../../registries/assets'
+import { decodeBase58 } from '../../crypto/base58'
+import { isOnEd25519Curve } from '../../crypto/ed25519'
+import { getAssociatedTokenAddress, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '../../crypto/solana-pda'
+import { replaceSuggestion } from '../suggestions'
+
+/**
+ * Hints about the intended recipient, e.g. { solanaOwner: 'DYw8…' }
+ */
+export interface PayToHints {
+  /** Wallet expected to receive Solana payments, used to explain an off-curve payTo */
+  solanaOwner?: string | undefined
+}
+
+// Well-known burn addresses (lowercase)
+const EVM_BURN_ADDRESSES = new Set([
+  '0x000000000000000000000000000000000000dead',
+  '0xdead000000000000000042069420694206942069',
+])
+
+// Precompiles: 0x01-0x11 (ecrecover .. BLS12-381, through Prague) and 0x100 (P256VERIFY, RIP-7212)
+const EVM_PRECOMPILE_MAX = 0x11n
+const EVM_P256_PRECOMPILE = 0x100n
+
+const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/
+
+/**
+ * EVM recipient checks
+ *
+ * Each of these addresses accepts a transfer but nobody can move the funds out.
+ */
+function validateEvmPayTo(entry: AcceptsEntry, fieldPath: string): ValidationIssue[] {
+  const field = `${fieldPath}.payTo`
+
+  // Malformed addresses are reported by validateAddress
+  if (!EVM_ADDRESS_REGEX.test(entry.payTo)) {
+    return []
+  }
+
+  const payTo = entry.payTo.toLowerCase()
+  const value = BigInt(payTo)
+  const issue = (code: ErrorCode, message: string): ValidationIssue[] => [
+    { code, field, message, severity: 'error', fix: 'Set payTo to the wallet that should receive payments' },
+  ]
+
+  if (value === 0n) {
+    return issue(ErrorCode.PAY_TO_ZERO_ADDRESS, ErrorMessages.PAY_TO_ZERO_ADDRESS)
+  }
+
+  if (EVM_BURN_ADDRESSES.has(payTo)) {
+    return issue(ErrorCode.PAY_TO_BURN_ADDRESS, ErrorMessages.PAY_TO_BURN_ADDRESS)
+  }
+
+  if (value <= EVM_PRECOMPILE_MAX || value === EVM_P256_PRECOMPILE) {
+    return issue(
+      ErrorCode.PAY_TO_PRECOMPILE,
+      `payTo is the precompile at ${entry.payTo} -- funds sent there are unrecoverable`,
+    )
+  }
+
+  if (entry.asset && payTo === entry.asset.toLowerCase()) {
+    return issue(
+      ErrorCode.PAY_TO_IS_ASSET,
+      'payTo is the token contract itself -- tokens sent to it are unrecoverable',
+    )
+  }
+
+  const knownAsset = findAssetsByAddress(payTo).find(({ network }) => getNetworkNamespace(network) === 'eip155')
+  if (knownAsset) {
+    const networkName = getNetworkInfo(knownAsset.network)?.name ?? knownAsset.network
+    return issue(
+      ErrorCode.PAY_TO_KNOWN_ASSET,
+      `payTo is the ${knownAsset.info.symbol} token contract on ${networkName} -- tokens sent to it are unrecoverable`,
+    )
+  }
+
+  return []
+}
+
+/**
+ * Decode a Solana address, or null if it is not a 32-byte base58 key
+ */
+function decodeSolanaKey(address: string): Uint8Array | null {
+  try {
+    const bytes = decodeBase58(address)
+    return bytes.length === 32 ? bytes : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Solana recipient checks
+ *
+ * The exact scheme pays into the associated token account of payTo, so payTo
+ * must be a wallet (an ed25519 key). Program-derived addresses, including
+ * token accounts, are off-curve and cannot sign to move the funds out.
+ */
+function validateSolanaPayTo(entry: AcceptsEntry, fieldPath: string, hints: PayToHints): ValidationIssue[] {
+  const field = `${fieldPath}.payTo`
+  const key = decodeSolanaKey(entry.payTo)
+
+  // Malformed addresses are reported by validateAddress
+  if (key === null) {
+    return []
+  }
+
+  if (entry.asset && entry.payTo === entry.asset) {
+    return [
+      {
+        code: ErrorCode.PAY_TO_IS_ASSET,
+        field,
+        message: 'payTo is the token mint address, not a wallet -- payments would be unrecoverable',
+        severity: 'warning',
+        fix: 'Set payTo to the wallet that should receive payments',
+      },
+    ]
+  }
+
+  if (isOnEd25519Curve(key)) {
+    return []
+  }
+
+  const issue: ValidationIssue = {
+    code: ErrorCode.PAY_TO_OFF_CURVE,
+    field,
+    message: ErrorMessages.PAY_TO_OFF_CURVE,
+    severity: 'warning',
+    fix: 'Set payTo to the owner wallet address, not a token account or program-derived address',
+  }
+
+  const owner = hints.solanaOwner
+  if (owner && entry.asset && decodeSolanaKey(owner) !== null && decodeSolanaKey(entry.asset) !== null) {
+    const isOwnerTokenAccount = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].some(
+      (program) => getAssociatedTokenAddress(owner, entry.asset, program) === entry.payTo,
+    )
+    if (isOwnerTokenAccount) {
+      return [
+        {
+          ...issue,
+          message: `payTo is the associated token account of ${owner} for this asset -- payTo should be the owner wallet`,
+          fix: `Use ${owner}`,
+          suggestions: [replaceSuggestion(field, owner, 'Use the owner wallet', false)],
+        },
+      ]
+    }
+    return [{ ...issue, message: `${issue.message} (it is not the token account of ${owner} either)` }]
+  }
+
+  return [issue]
+}
+
+/**
+ * Validate that payTo can receive the payment.
+ *
+ * Runs after address format validation and skips malformed addresses.
+ * EVM: errors for the zero address, burn addresses, precompiles, the entry's
+ * asset contract and any other known token contract.
+ * Solana: warns when payTo is the mint or an off-curve address (PDA or token
+ * account), and with hints.solanaOwner explains whether it is that owner's
+ * associated token account.
+ *
+ * @param entry - Accepts entry to validate
+ * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
+ * @param hints - Optional recipient hints
+ * @returns Array of validation issues
+ */
+export function validatePayTo(
+  entry: AcceptsEntry,
+  fieldPath: string,
+  hints?: PayToHints | undefined,
+): ValidationIssue[] {
+  if (!entry.payTo || !entry.network) {
+    return []
+  }
+
+  switch (getNetworkNamespace(entry.network)) {
+    case 'eip155':
+      return validateEvmPayTo(entry, fieldPath)
+
+    case 'solana':
+      return validateSolanaPayTo(entry, fieldPath, hints ?? {})
+
+    default:
+      return []
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Level 4: Scheme validation
+ * Validates scheme against the scheme registry and the network namespace
+ */
+
+import type { AcceptsEntry, ValidationIssue } from '../../types'
+import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { getNetworkNamespace } from '../../registries/networks'
+import { getKnownSchemes, getSchemeInfo } from '../../registries/schemes'
+import { replaceSuggestion } from '../suggestions'
+
+/**
+ * Validate scheme field on a single accepts entry.
+ *
+ * Unknown schemes produce a warning (they may be new or in-house). Known
+ * schemes used on a network namespace they don't support produce an error.
+ *
+ * @param entry - Accepts entry to validate
+ * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
+ * @returns Array of validation issues
+ */
+export function validateScheme(entry: AcceptsEntry, fieldPath: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  // Missing field already caught by validateFields
+  if (!entry.scheme) {
+    return issues
+  }
+
+  // Parsed JSON is not type-checked; a non-string scheme can't be looked up
+  if (typeof entry.scheme !== 'string') {
+    issues.push({
+      code: ErrorCode.INVALID_SCHEME,
+      field: `${fieldPath}.scheme`,
+      message: ErrorMessages.INVALID_SCHEME,
+      severity: 'error',
+      fix: `Known schemes: ${getKnownSchemes().join(', ')}`,
+    })
+    return issues
+  }
+
+  const info = getSchemeInfo(entry.scheme)
+
+  if (!info) {
+    // Wrong casing of a known scheme ("Exact") has an obvious fix
+    const lower = entry.scheme.toLowerCase()
+    if (lower !== entry.scheme && getSchemeInfo(lower)) {
+      issues.push({
+        code: ErrorCode.UNKNOWN_SCHEME,
+        field: `${fieldPath}.scheme`,
+        message: ErrorMessages.UNKNOWN_SCHEME,
+        severity: 'warning',
+        fix: `Use '${lower}' instead of '${entry.scheme}'`,
+        suggestions: [replaceSuggestion(`${fieldPath}.scheme`, lower, `Use '${lower}'`, false)],
+      })
+    } else {
+      issues.push({
+        code: ErrorCode.UNKNOWN_SCHEME,
+        field: `${fieldPath}.scheme`,
+        message: ErrorMessages.UNKNOWN_SCHEME,
+        severity: 'warning',
+        fix: `Known schemes: ${getKnownSchemes().join(', ')}`,
+      })
+    }
+    return issues
+  }
+
+  // Namespace check only applies to valid CAIP-2 networks
+  const namespace = entry.network ? getNetworkNamespace(entry.network) : undefined
+  if (namespace && !info.namespaces.includes(namespace)) {
+    issues.push({
+      code: ErrorCode.SCHEME_NETWORK_UNSUPPORTED,
+      field: `${fieldPath}.scheme`,
+      message: `${ErrorMessages.SCHEME_NETWORK_UNSUPPORTED}: '${entry.scheme}' does not support ${namespace} networks`,
+      severity: 'error',
+      fix: `'${entry.scheme}' supports: ${info.namespaces.join(', ')}`,
+    })
+  }
+
+  return issues
+}
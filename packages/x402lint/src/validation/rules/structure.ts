@@ -3,7 +3,7 @@
  * Validates JSON parse, object check, and format detection
  */
 
-import type { ConfigFormat, ValidationIssue } from '../../types'
+import type { ConfigFormat, SourceMap, ValidationIssue } from '../../types'
 import { parseInput } from '../../types'
 import { ErrorCode, ErrorMessages } from '../../types/errors'
 import { isRecord } from '../../detection/guards'
@@ -18,6 +18,7 @@ export interface StructureResult {
   parsed: object | null
   format: ConfigFormat
   issues: ValidationIssue[]
+  locations?: SourceMap | undefined // present when input was a JSON string
 }
 
 /**
@@ -30,7 +31,7 @@ export function validateStructure(input: string | object): StructureResult {
   const issues: ValidationIssue[] = []
 
   // Step 1: Parse input
-  const { parsed, error } = parseInput(input)
+  const { parsed, error, locations } = parseInput(input)
 
   if (error) {
     return { parsed: null, format: 'unknown', issues: [error] }
@@ -44,7 +45,7 @@ export function validateStructure(input: string | object): StructureResult {
       message: ErrorMessages.NOT_OBJECT,
       severity: 'error',
     })
-    return { parsed: null, format: 'unknown', issues }
+    return { parsed: null, format: 'unknown', issues, locations }
   }
 
   // Step 3: Detect format
@@ -59,5 +60,5 @@ export function validateStructure(input: string | object): StructureResult {
     })
   }
 
-  return { parsed: parsed as object, format, issues }
+  return { parsed: parsed as object, format, issues, locations }
 }
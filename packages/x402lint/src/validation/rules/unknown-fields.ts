@@ -0,0 +1,176 @@
+/**
+ * Level 2: Unknown field detection
+ * Flags misspelled or misplaced keys that normalization would silently drop
+ */
+
+import type { ConfigFormat, ValidationIssue } from '../../types'
+import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { isRecord } from '../../detection/guards'
+import { toJsonPointer } from '../../location/locate'
+import { closestMatch } from '../did-you-mean'
+
+// Known keys per object, by format
+const V2_TOP_LEVEL = ['x402Version', 'accepts', 'resource', 'error', 'extensions']
+const V1_TOP_LEVEL = ['x402Version', 'accepts', 'error', 'extensions']
+// outputSchema is read from the raw input for both versions (see validateOutputSchema)
+const V2_ENTRY = ['scheme', 'network', 'amount', 'asset', 'payTo', 'maxTimeoutSeconds', 'extra', 'outputSchema']
+const V1_ENTRY = [
+  'scheme',
+  'network',
+  'maxAmountRequired',
+  'asset',
+  'payTo',
+  'maxTimeoutSeconds',
+  'extra',
+  'resource',
+  'description',
+  'mimeType',
+  'outputSchema',
+]
+const RESOURCE = ['url', 'method', 'headers', 'body', 'description', 'mimeType']
+const MANIFEST_TOP_LEVEL = ['x402Version', 'service', 'endpoints', 'extensions', '$schema']
+const SERVICE = ['name', 'description', 'version', 'url', 'contact']
+
+// Field names from the other x402 version
+const VERSION_RENAMES: Record<'v1' | 'v2', Record<string, string>> = {
+  v2: { maxAmountRequired: 'amount' },
+  v1: { amount: 'maxAmountRequired' },
+}
+
+// Common names for entry fields that are too far apart to catch by spelling
+const ENTRY_ALIASES: Record<string, string> = {
+  maxamount: 'amount',
+  price: 'amount',
+  recipient: 'payTo',
+  receiver: 'payTo',
+  pay_to: 'payTo',
+  chain: 'network',
+  token: 'asset',
+  timeout: 'maxTimeoutSeconds',
+  max_timeout_seconds: 'maxTimeoutSeconds',
+}
+
+/**
+ * Build a field path for a key, quoting keys that aren't plain identifiers
+ */
+function childPath(base: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return base ? `${base}.${key}` : key
+  }
+  return `${base}["${key}"]`
+}
+
+/**
+ * Check the keys of one object against its known keys
+ *
+ * @param value - Object whose keys to check
+ * @param base - Field path of the object ('' for the root)
+ * @param known - Valid keys for this object
+ * @param renames - Keys from another format and their equivalent here
+ * @param aliases - Lowercased common alternative names and their equivalent here
+ * @returns UNKNOWN_FIELD warnings
+ */
+function checkKeys(
+  value: Record<string, unknown>,
+  base: string,
+  known: readonly string[],
+  renames: Record<string, string> = {},
+  aliases: Record<string, string> = {},
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const key of Object.keys(value)) {
+    if (known.includes(key)) continue
+
+    const field = childPath(base, key)
+    const renamed = Object.prototype.hasOwnProperty.call(renames, key) ? renames[key] : undefined
+    const alias = Object.prototype.hasOwnProperty.call(aliases, key.toLowerCase()) ? aliases[key.toLowerCase()] : undefined
+    const suggestion = renamed ?? closestMatch(key, known) ?? alias
+
+    const issue: ValidationIssue = {
+      code: ErrorCode.UNKNOWN_FIELD,
+      field,
+      message: `${ErrorMessages.UNKNOWN_FIELD}: '${key}'`,
+      severity: 'warning',
+    }
+
+    if (suggestion && renamed) {
+      issue.fix = `'${key}' is not used in this x402 version -- use '${suggestion}'`
+    } else if (suggestion) {
+      issue.fix = `Did you mean '${suggestion}'?`
+    }
+
+    // Offer a rename when the intended key is not already present
+    if (suggestion && !(suggestion in value)) {
+      const from = toJsonPointer(field)
+      const to = toJsonPointer(childPath(base, suggestion))
+      if (from !== null && to !== null) {
+        issue.suggestions = [{ label: `Rename to '${suggestion}'`, safe: false, patch: [{ op: 'move', from, path: to }] }]
+      }
+    }
+
+    issues.push(issue)
+  }
+
+  return issues
+}
+
+/**
+ * Detect unknown keys at the top level, in accepts entries and in resource
+ *
+ * Operates on the raw parsed input, since normalization only copies known keys.
+ * extra and extensions are free-form and not checked.
+ *
+ * @param parsed - Raw parsed input
+ * @param format - Detected config format
+ * @returns UNKNOWN_FIELD warnings
+ */
+export function validateUnknownFields(parsed: object, format: ConfigFormat): ValidationIssue[] {
+  if ((format !== 'v1' && format !== 'v2') || !isRecord(parsed)) {
+    return []
+  }
+
+  const issues: ValidationIssue[] = []
+  const renames = VERSION_RENAMES[format]
+
+  issues.push(...checkKeys(parsed, '', format === 'v2' ? V2_TOP_LEVEL : V1_TOP_LEVEL, renames))
+
+  if (isRecord(parsed.resource)) {
+    issues.push(...checkKeys(parsed.resource, 'resource', RESOURCE))
+  }
+
+  if (Array.isArray(parsed.accepts)) {
+    // Aliases name v2 fields; point them at this version's names
+    const aliases = Object.fromEntries(
+      Object.entries(ENTRY_ALIASES).map(([alias, target]) => [alias, renames[target] ?? target]),
+    )
+    parsed.accepts.forEach((entry: unknown, i: number) => {
+      if (!isRecord(entry)) return
+      const fieldPath = `accepts[${i}]`
+      issues.push(...checkKeys(entry, fieldPath, format === 'v2' ? V2_ENTRY : V1_ENTRY, renames, aliases))
+      if (isRecord(entry.resource)) {
+        issues.push(...checkKeys(entry.resource, `${fieldPath}.resource`, RESOURCE))
+      }
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Detect unknown keys at the manifest top level and in the service block
+ *
+ * @param manifest - Raw manifest input
+ * @returns UNKNOWN_FIELD warnings
+ */
+export function validateUnknownManifestFields(manifest: object): ValidationIssue[] {
+  if (!isRecord(manifest)) {
+    return []
+  }
+
+  const issues = checkKeys(manifest, '', MANIFEST_TOP_LEVEL)
+  if (isRecord(manifest.service)) {
+    issues.push(...checkKeys(manifest.service, 'service', SERVICE))
+  }
+  return issues
+}
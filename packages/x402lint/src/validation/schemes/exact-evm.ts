@@ -0,0 +1,81 @@
+/**
+ * Exact scheme on EVM networks
+ *
+ * EIP-3009 transferWithAuthorization signatures are bound to the token's
+ * EIP-712 domain. Clients read the domain name and version from extra, so a
+ * missing or wrong value only surfaces when the facilitator settles.
+ */
+
+import type { AcceptsEntry, ValidationIssue } from '../../types'
+import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { getAssetInfo } from '../../registries/assets'
+import { addSuggestion, replaceSuggestion } from '../suggestions'
+
+const DOMAIN_FIELDS = ['name', 'version'] as const
+
+/**
+ * Validate extra.name / extra.version against the asset's EIP-712 domain
+ *
+ * Only known assets with registered domain data are checked.
+ *
+ * @param entry - Accepts entry using the exact scheme on an eip155 network
+ * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
+ * @returns Array of validation issues
+ */
+export function validateExactEvm(entry: AcceptsEntry, fieldPath: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  if (!entry.asset) {
+    return issues
+  }
+
+  const domain = getAssetInfo(entry.network, entry.asset)?.eip712
+  if (!domain) {
+    return issues
+  }
+
+  const extra = entry.extra
+  const expected = `name '${domain.name}', version '${domain.version}'`
+
+  // No extra at all: one issue covering both fields
+  if (extra === undefined || extra === null || typeof extra !== 'object' || Array.isArray(extra)) {
+    issues.push({
+      code: ErrorCode.MISSING_EIP712_DOMAIN,
+      field: `${fieldPath}.extra`,
+      message: ErrorMessages.MISSING_EIP712_DOMAIN,
+      severity: 'warning',
+      fix: `Set extra to { "name": "${domain.name}", "version": "${domain.version}" }`,
+      suggestions: [
+        addSuggestion(`${fieldPath}.extra`, { name: domain.name, version: domain.version }, 'Add EIP-712 domain', false),
+      ],
+    })
+    return issues
+  }
+
+  for (const key of DOMAIN_FIELDS) {
+    const field = `${fieldPath}.extra.${key}`
+    const value = extra[key]
+
+    if (value === undefined) {
+      issues.push({
+        code: ErrorCode.MISSING_EIP712_DOMAIN,
+        field,
+        message: ErrorMessages.MISSING_EIP712_DOMAIN,
+        severity: 'warning',
+        fix: `Set extra.${key} to '${domain[key]}' (EIP-712 domain: ${expected})`,
+        suggestions: [addSuggestion(field, domain[key], `Add extra.${key} '${domain[key]}'`, false)],
+      })
+    } else if (value !== domain[key]) {
+      issues.push({
+        code: ErrorCode.EIP712_DOMAIN_MISMATCH,
+        field,
+        message: `${ErrorMessages.EIP712_DOMAIN_MISMATCH}: expected '${domain[key]}', got '${String(value)}'`,
+        severity: 'error',
+        fix: `Set extra.${key} to '${domain[key]}' (EIP-712 domain: ${expected})`,
+        suggestions: [replaceSuggestion(field, domain[key], `Use '${domain[key]}'`, true)],
+      })
+    }
+  }
+
+  return issues
+}
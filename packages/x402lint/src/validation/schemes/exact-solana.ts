@@ -0,0 +1,75 @@
+/**
+ * Exact scheme on Solana networks
+ *
+ * The facilitator pays transaction fees, so clients build the transfer with
+ * extra.feePayer as fee payer. A missing or malformed value only surfaces
+ * when the client builds the transaction.
+ */
+
+import type { AcceptsEntry, ValidationIssue } from '../../types'
+import { ErrorCode, ErrorMessages } from '../../types/errors'
+import { validateSolanaAddress } from '../solana-address'
+
+/**
+ * Validate extra.feePayer on a Solana exact entry
+ *
+ * @param entry - Accepts entry using the exact scheme on a solana network
+ * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
+ * @returns Array of validation issues
+ */
+export function validateExactSolana(entry: AcceptsEntry, fieldPath: string): ValidationIssue[] {
+  const field = `${fieldPath}.extra.feePayer`
+  const feePayer = entry.extra?.feePayer
+
+  if (feePayer === undefined || feePayer === null || feePayer === '') {
+    return [
+      {
+        code: ErrorCode.MISSING_FEE_PAYER,
+        field,
+        message: ErrorMessages.MISSING_FEE_PAYER,
+        severity: 'error',
+        fix: "Set extra.feePayer to your facilitator's fee payer address",
+      },
+    ]
+  }
+
+  if (typeof feePayer !== 'string') {
+    return [
+      {
+        code: ErrorCode.INVALID_SOLANA_ADDRESS,
+        field,
+        message: 'extra.feePayer must be a Solana address string',
+        severity: 'error',
+      },
+    ]
+  }
+
+  const addressIssues = validateSolanaAddress(feePayer, field)
+  if (addressIssues.length > 0) {
+    return addressIssues
+  }
+
+  const issues: ValidationIssue[] = []
+
+  if (feePayer === entry.payTo) {
+    issues.push({
+      code: ErrorCode.FEE_PAYER_IS_PAY_TO,
+      field,
+      message: ErrorMessages.FEE_PAYER_IS_PAY_TO,
+      severity: 'warning',
+      fix: "Use the facilitator's fee payer, not the payment recipient",
+    })
+  }
+
+  if (feePayer === entry.asset) {
+    issues.push({
+      code: ErrorCode.FEE_PAYER_IS_ASSET,
+      field,
+      message: ErrorMessages.FEE_PAYER_IS_ASSET,
+      severity: 'warning',
+      fix: "Use the facilitator's fee payer, not the token mint",
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,5 @@
+// Scheme validators barrel
+export { registerSchemeValidator, validateSchemeEntry } from './registry'
+export type { SchemeValidator } from './registry'
+export { validateExactEvm } from './exact-evm'
+export { validateExactSolana } from './exact-solana'
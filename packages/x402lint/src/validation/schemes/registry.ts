@@ -0,0 +1,70 @@
+/**
+ * Scheme entry validator registry
+ *
+ * Each payment scheme registers validators for the accepts entries that use
+ * it, optionally limited to one CAIP-2 namespace (e.g. 'exact' on 'eip155').
+ * The orchestrator runs them after the generic per-entry rules.
+ */
+
+import type { AcceptsEntry, ValidationIssue } from '../../types'
+import { getNetworkNamespace } from '../../registries/networks'
+import { validateExactEvm } from './exact-evm'
+import { validateExactSolana } from './exact-solana'
+
+/**
+ * Validator for accepts entries of one scheme
+ */
+export type SchemeValidator = (entry: AcceptsEntry, fieldPath: string) => ValidationIssue[]
+
+interface RegisteredValidator {
+  namespace: string | undefined
+  validate: SchemeValidator
+}
+
+// Built-in validators, referenced statically so bundlers keep them
+// (the package is "sideEffects": false, so registration at import time would be dropped)
+const BUILT_IN_VALIDATORS: Record<string, readonly RegisteredValidator[]> = {
+  exact: [
+    { namespace: 'eip155', validate: validateExactEvm },
+    { namespace: 'solana', validate: validateExactSolana },
+  ],
+}
+
+// Validators added with registerSchemeValidator, run after the built-ins
+const schemeValidators = new Map<string, RegisteredValidator[]>()
+
+/**
+ * Register an entry validator for a scheme
+ *
+ * @param scheme - Scheme name, e.g. 'exact'
+ * @param validator - Validator run for every entry using the scheme
+ * @param namespace - Only run for networks in this CAIP-2 namespace (all when omitted)
+ */
+export function registerSchemeValidator(scheme: string, validator: SchemeValidator, namespace?: string): void {
+  const validators = schemeValidators.get(scheme) ?? []
+  validators.push({ namespace, validate: validator })
+  schemeValidators.set(scheme, validators)
+}
+
+/**
+ * Run the validators registered for an entry's scheme and network namespace
+ *
+ * @param entry - Accepts entry to validate
+ * @param fieldPath - Dot-notation path for issue reporting (e.g. "accepts[0]")
+ * @returns Issues from all matching validators
+ */
+export function validateSchemeEntry(entry: AcceptsEntry, fieldPath: string): ValidationIssue[] {
+  const builtIn = Object.prototype.hasOwnProperty.call(BUILT_IN_VALIDATORS, entry.scheme)
+    ? BUILT_IN_VALIDATORS[entry.scheme]!
+    : []
+  const validators = [...builtIn, ...(schemeValidators.get(entry.scheme) ?? [])]
+
+  const namespace = entry.network ? getNetworkNamespace(entry.network) : undefined
+  const issues: ValidationIssue[] = []
+  for (const { namespace: only, validate } of validators) {
+    if (only === undefined || only === namespace) {
+      issues.push(...validate(entry, fieldPath))
+    }
+  }
+  return issues
+}
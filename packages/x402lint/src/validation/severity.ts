@@ -0,0 +1,92 @@
+/**
+ * Severity configuration
+ * Applies ignored field paths, per-rule severity overrides and strict mode to collected issues
+ */
+
+import type { ValidationIssue, RuleSeverityMap } from '../types/validation'
+
+/**
+ * Severity settings shared by validate() and validateManifest()
+ */
+export interface SeveritySettings {
+  strict?: boolean | undefined
+  rules?: RuleSeverityMap | undefined
+  ignore?: readonly string[] | undefined
+}
+
+/**
+ * Convert an ignore pattern into a RegExp.
+ * '*' matches any run of characters except '.', '[' and ']' (e.g. accepts[*].payTo).
+ */
+function patternToRegex(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^.\\[\\]]*')
+  // Match the path itself or anything nested below it
+  return new RegExp(`^${escaped}(?:$|[.\\[])`)
+}
+
+/**
+ * Check whether an issue field path is covered by an ignore pattern.
+ *
+ * A pattern covers the path itself and everything nested below it:
+ * "extensions" covers "extensions.bazaar.info", "accepts[*].payTo" covers "accepts[3].payTo".
+ *
+ * @param field - Issue field path
+ * @param patterns - Ignore patterns
+ * @returns True if any pattern covers the field
+ */
+export function isIgnoredField(field: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => patternToRegex(pattern).test(field))
+}
+
+/**
+ * Apply ignored field paths, per-rule severity overrides, then strict mode.
+ *
+ * - Issues whose field is covered by an ignore pattern are dropped
+ * - An override of 'off' drops the issue
+ * - An override of 'error' or 'warning' sets the issue's severity
+ * - Strict mode promotes remaining warnings to errors, except those with
+ *   an explicit override (explicit configuration wins over strict)
+ *
+ * Issues keep their relative order: original errors first, then warnings.
+ *
+ * @param errors - Collected error issues
+ * @param warnings - Collected warning issues
+ * @param settings - Strict flag and severity overrides
+ * @returns New errors and warnings arrays
+ */
+export function applySeverity(
+  errors: ValidationIssue[],
+  warnings: ValidationIssue[],
+  settings: SeveritySettings | undefined,
+): { errors: ValidationIssue[]; warnings: ValidationIssue[] } {
+  const rules = settings?.rules ?? {}
+  const strict = settings?.strict === true
+  const ignore = settings?.ignore ?? []
+
+  const nextErrors: ValidationIssue[] = []
+  const nextWarnings: ValidationIssue[] = []
+
+  for (const issue of [...errors, ...warnings]) {
+    const override = rules[issue.code]
+
+    if (override === 'off') continue
+    if (ignore.length > 0 && isIgnoredField(issue.field, ignore)) continue
+
+    let severity = override ?? issue.severity
+    if (override === undefined && strict) {
+      severity = 'error'
+    }
+
+    const adjusted = severity === issue.severity ? issue : { ...issue, severity }
+    if (severity === 'error') {
+      nextErrors.push(adjusted)
+    } else {
+      nextWarnings.push(adjusted)
+    }
+  }
+
+  return { errors: nextErrors, warnings: nextWarnings }
+}
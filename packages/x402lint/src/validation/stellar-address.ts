@@ -0,0 +1,202 @@
+/**
+ * Stellar address and asset validation (StrKey encoding, SEP-23)
+ */
+
+import { decodeStrKey } from '../crypto/strkey'
+import type { StrKeyType } from '../crypto/strkey'
+import { ErrorCode } from '../types/errors'
+import type { ValidationIssue } from '../types/validation'
+import { replaceSuggestion } from './suggestions'
+
+// StrKeys are RFC 4648 base32 (A-Z, 2-7) without padding
+const STRKEY_REGEX = /^[A-Z2-7]+$/
+
+// Classic asset codes: 1-4 (alphanum4) or 5-12 (alphanum12) ASCII letters and digits
+const ASSET_CODE_REGEX = /^[A-Za-z0-9]{1,12}$/
+
+// Expected encoded length per accepted key type
+const STRKEY_LENGTHS: Partial<Record<StrKeyType, number>> = {
+  G: 56, // ed25519 public key
+  C: 56, // contract hash
+  M: 69, // ed25519 public key + 64-bit id
+}
+
+const KEY_TYPE_NAMES: Record<StrKeyType, string> = {
+  G: 'an account',
+  S: 'a secret seed',
+  M: 'a muxed account',
+  T: 'a pre-auth transaction hash',
+  X: 'a sha256 hash',
+  P: 'a signed payload',
+  C: 'a contract',
+}
+
+/**
+ * Check a StrKey against the allowed key types
+ *
+ * @returns Issues (empty if the key decodes to one of the allowed types)
+ */
+function checkStrKey(
+  key: string,
+  field: string,
+  allowed: readonly StrKeyType[],
+  code: ErrorCode,
+  expected: string,
+): ValidationIssue[] {
+  if (!STRKEY_REGEX.test(key)) {
+    // StrKeys are case-sensitive; an all-lowercase copy of a valid key is a lossless fix
+    const upper = key.toUpperCase()
+    if (key !== upper && STRKEY_REGEX.test(upper) && checkStrKey(upper, field, allowed, code, expected).length === 0) {
+      return [
+        {
+          code,
+          field,
+          message: 'Stellar StrKey must be uppercase',
+          severity: 'error',
+          fix: `Use ${upper}`,
+          suggestions: [replaceSuggestion(field, upper, 'Uppercase the StrKey', true)],
+        },
+      ]
+    }
+    return [
+      {
+        code,
+        field,
+        message: 'Invalid Stellar StrKey: must be base32 (A-Z, 2-7)',
+        severity: 'error',
+        fix: `Use ${expected}`,
+      },
+    ]
+  }
+
+  // Check length before decoding so a truncated key is not reported as a typo
+  const expectedLength = STRKEY_LENGTHS[key[0] as StrKeyType]
+  if (allowed.includes(key[0] as StrKeyType) && key.length !== expectedLength) {
+    return [
+      {
+        code,
+        field,
+        message: `Invalid Stellar StrKey: ${key[0]}... keys are ${expectedLength} characters, got ${key.length}`,
+        severity: 'error',
+        fix: `Use ${expected}`,
+      },
+    ]
+  }
+
+  let type: StrKeyType
+  try {
+    type = decodeStrKey(key).type
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message === 'Invalid StrKey checksum') {
+      return [
+        {
+          code: ErrorCode.BAD_STELLAR_CHECKSUM,
+          field,
+          message: 'Stellar StrKey checksum does not match. Double-check the address for typos.',
+          severity: 'error',
+        },
+      ]
+    }
+    return [
+      {
+        code,
+        field,
+        message: `Invalid Stellar StrKey: ${message}`,
+        severity: 'error',
+        fix: `Use ${expected}`,
+      },
+    ]
+  }
+
+  if (!allowed.includes(type)) {
+    return [
+      {
+        code,
+        field,
+        message:
+          type === 'S'
+            ? 'This is a Stellar secret seed, not an address -- never publish it; rotate the key'
+            : `This is ${KEY_TYPE_NAMES[type]} StrKey (${type}...), expected ${expected}`,
+        severity: 'error',
+        fix: `Use ${expected}`,
+      },
+    ]
+  }
+
+  return []
+}
+
+/**
+ * Validate a Stellar address (StrKey)
+ *
+ * Accepts account (G...), muxed account (M...) and contract (C...) keys.
+ * Checks the base32 alphabet, length, version byte and CRC16-XModem checksum.
+ *
+ * @param address - Address to validate
+ * @param field - Field path for error reporting
+ * @returns Array of validation issues (empty if valid)
+ */
+export function validateStellarAddress(address: string, field: string): ValidationIssue[] {
+  return checkStrKey(
+    address,
+    field,
+    ['G', 'M', 'C'],
+    ErrorCode.INVALID_STELLAR_ADDRESS,
+    'a Stellar account (G...), muxed account (M...) or contract (C...) address',
+  )
+}
+
+/**
+ * Validate a Stellar asset identifier
+ *
+ * Accepts a Soroban token contract ID (C...), a classic asset as
+ * CODE:ISSUER (1-12 letters/digits, issuer a G... account) or "native" (XLM).
+ *
+ * @param asset - Asset identifier to validate
+ * @param field - Field path for error reporting
+ * @returns Array of validation issues (empty if valid)
+ */
+export function validateStellarAsset(asset: string, field: string): ValidationIssue[] {
+  if (asset === 'native') {
+    return []
+  }
+
+  const separator = asset.indexOf(':')
+  if (separator === -1) {
+    return checkStrKey(
+      asset,
+      field,
+      ['C'],
+      ErrorCode.INVALID_STELLAR_ASSET,
+      'a token contract ID (C...) or a classic asset as CODE:ISSUER',
+    )
+  }
+
+  const code = asset.slice(0, separator)
+  const issuer = asset.slice(separator + 1)
+
+  if (!ASSET_CODE_REGEX.test(code)) {
+    return [
+      {
+        code: ErrorCode.INVALID_STELLAR_ASSET,
+        field,
+        message: `Invalid Stellar asset code "${code}": must be 1-12 letters or digits`,
+        severity: 'error',
+        fix: 'Use CODE:ISSUER, e.g. USDC:GA5Z...',
+      },
+    ]
+  }
+
+  return checkStrKey(issuer, field, ['G'], ErrorCode.INVALID_STELLAR_ASSET, 'an issuer account (G...) after the asset code').map(
+    (issue) =>
+      // Suggestions target the whole field, so rebuild them with the asset code kept
+      issue.suggestions
+        ? {
+            ...issue,
+            fix: `Use ${code}:${issuer.toUpperCase()}`,
+            suggestions: [replaceSuggestion(field, `${code}:${issuer.toUpperCase()}`, 'Uppercase the issuer', true)],
+          }
+        : issue,
+  )
+}
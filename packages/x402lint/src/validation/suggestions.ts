@@ -0,0 +1,88 @@
+/**
+ * Fix suggestion builders
+ *
+ * Rules describe fixes as JSON Patch operations against the validated input,
+ * addressed by JSON Pointers derived from the issue's field path.
+ */
+
+import type { FixSuggestion, ValidationIssue } from '../types/validation'
+import { toJsonPointer } from '../location/locate'
+
+/**
+ * Suggest replacing the value at a field path
+ *
+ * @param field - Field path, e.g. 'accepts[0].payTo'
+ * @param value - Replacement value
+ * @param label - Short description for display
+ * @param safe - Lossless fix that can be applied without review
+ * @returns Suggestion with a single replace operation
+ */
+export function replaceSuggestion(field: string, value: unknown, label: string, safe: boolean): FixSuggestion {
+  return {
+    label,
+    safe,
+    patch: [{ op: 'replace', path: toJsonPointer(field) ?? '', value }],
+  }
+}
+
+/**
+ * Suggest adding a value at a field path (creating or replacing it)
+ *
+ * @param field - Field path, e.g. 'accepts[0].extra'
+ * @param value - Value to add
+ * @param label - Short description for display
+ * @param safe - Lossless fix that can be applied without review
+ * @returns Suggestion with a single add operation
+ */
+export function addSuggestion(field: string, value: unknown, label: string, safe: boolean): FixSuggestion {
+  return {
+    label,
+    safe,
+    patch: [{ op: 'add', path: toJsonPointer(field) ?? '', value }],
+  }
+}
+
+/**
+ * Prefix every path in a suggestion's patch, e.g. with '/endpoints/api-weather'
+ *
+ * @param suggestion - Suggestion addressed relative to a nested document
+ * @param pointer - JSON Pointer of the nested document
+ * @returns Suggestion addressed relative to the outer document
+ */
+export function prefixSuggestion(suggestion: FixSuggestion, pointer: string): FixSuggestion {
+  return {
+    ...suggestion,
+    patch: suggestion.patch.map((operation) =>
+      'from' in operation
+        ? { ...operation, from: pointer + operation.from, path: pointer + operation.path }
+        : { ...operation, path: pointer + operation.path },
+    ),
+  }
+}
+
+/**
+ * Point an issue's suggestions at a field's input name, e.g. v1
+ * maxAmountRequired for normalized amount
+ *
+ * @param issue - Issue whose suggestions address the normalized field name
+ * @param name - Normalized field name, e.g. 'amount'
+ * @param alias - Field name in the validated input, e.g. 'maxAmountRequired'
+ * @returns Issue with suggestion paths renamed (same issue if it has none)
+ */
+export function aliasSuggestionField(issue: ValidationIssue, name: string, alias: string): ValidationIssue {
+  if (!issue.suggestions) return issue
+
+  const suffix = `/${name}`
+  const rename = (path: string): string => (path.endsWith(suffix) ? path.slice(0, -suffix.length) + `/${alias}` : path)
+  return {
+    ...issue,
+    suggestions: issue.suggestions.map((suggestion) => ({
+      ...suggestion,
+      patch: suggestion.patch.map((operation) =>
+        'from' in operation
+          ? { ...operation, from: rename(operation.from), path: rename(operation.path) }
+          : { ...operation, path: rename(operation.path) },
+      ),
+    })),
+  }
+}
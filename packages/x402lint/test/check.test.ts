@@ -44,6 +44,9 @@ describe('check() — valid v2 config', () => {
     expect(s.assetSymbol).toBe('USDC')
     expect(s.assetDecimals).toBe(6)
     expect(s.scheme).toBe('exact')
+    expect(s.schemeName).toBe('Exact')
+    expect(s.schemeDescription).toBeTruthy()
+    expect(s.schemeNamespaces).toContain('eip155')
     expect(s.payTo).toBeTruthy()
     expect(s.amount).toBe('1000000')
   })
@@ -1,12 +1,14 @@
 import { describe, test, expect } from 'vitest'
 import { execFileSync } from 'node:child_process'
-import { resolve } from 'node:path'
+import { resolve, join } from 'node:path'
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
 
 const CLI = resolve(__dirname, '../dist/cli.mjs')
 const FIXTURES = resolve(__dirname, 'fixtures')
 
 /** Run the CLI and return { stdout, stderr, exitCode } */
-function run(args: string[], opts?: { input?: string }): {
+function run(args: string[], opts?: { input?: string; cwd?: string }): {
   stdout: string
   stderr: string
   exitCode: number
@@ -15,6 +17,7 @@ function run(args: string[], opts?: { input?: string }): {
     const stdout = execFileSync('node', [CLI, ...args], {
       encoding: 'utf-8',
       input: opts?.input,
+      cwd: opts?.cwd,
       timeout: 10_000,
     })
     return { stdout, stderr: '', exitCode: 0 }
@@ -171,6 +174,52 @@ describe('cli — --json flag', () => {
   })
 })
 
+// Runs against the bundle, where side-effect-only imports are tree-shaken
+describe('cli — built-in scheme validators', () => {
+  test('exact EVM entries are checked against the EIP-712 domain', () => {
+    const json = JSON.stringify({
+      x402Version: 2,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'eip155:8453',
+          amount: '1000000',
+          asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+          payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+          maxTimeoutSeconds: 60,
+          extra: { name: 'USDC', version: '2' },
+        },
+      ],
+      resource: { url: 'https://example.com' },
+    })
+    const { stdout, exitCode } = run(['--json', json])
+    expect(exitCode).toBe(1)
+    const parsed = JSON.parse(stdout)
+    expect(parsed.errors.map((e: { code: string }) => e.code)).toContain('EIP712_DOMAIN_MISMATCH')
+  })
+
+  test('exact Solana entries require extra.feePayer', () => {
+    const json = JSON.stringify({
+      x402Version: 2,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+          amount: '1000000',
+          asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+          payTo: 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK',
+          maxTimeoutSeconds: 60,
+        },
+      ],
+      resource: { url: 'https://example.com' },
+    })
+    const { stdout, exitCode } = run(['--json', json])
+    expect(exitCode).toBe(1)
+    const parsed = JSON.parse(stdout)
+    expect(parsed.errors.map((e: { code: string }) => e.code)).toContain('MISSING_FEE_PAYER')
+  })
+})
+
 describe('cli — --quiet flag', () => {
   test('no output on valid config, exits 0', () => {
     const { stdout, exitCode } = run(['--quiet', resolve(FIXTURES, 'valid-v2-base.json')])
@@ -453,3 +502,254 @@ describe('cli — dash stdin for manifest', () => {
     expect(stdout).toContain('Detected: manifest')
   })
 })
+
+describe('cli config file', () => {
+  const withConfig = (config: unknown, fn: (dir: string) => void) => {
+    const dir = mkdtempSync(join(tmpdir(), 'x402lint-cli-'))
+    try {
+      writeFileSync(join(dir, '.x402lintrc'), JSON.stringify(config))
+      fn(dir)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }
+
+  test('--print-config shows effective settings and exits 0', () => {
+    withConfig({ strict: true, rules: { MISSING_INPUT_SCHEMA: 'off' } }, (dir) => {
+      const { stdout, exitCode } = run(['--print-config', '--header', 'X-Key: a'], { cwd: dir })
+      expect(exitCode).toBe(0)
+      const settings = JSON.parse(stdout)
+      expect(settings.configFile).toBe(join(dir, '.x402lintrc'))
+      expect(settings.strict).toBe(true)
+      expect(settings.rules).toEqual({ MISSING_INPUT_SCHEMA: 'off' })
+      expect(settings.headers).toEqual({ 'X-Key': 'a' })
+    })
+  })
+
+  test('discovered config applies strict mode', () => {
+    withConfig({ strict: true }, (dir) => {
+      const { exitCode } = run([resolve(FIXTURES, 'valid-v2-base.json')], { cwd: dir })
+      expect(exitCode).toBe(1)
+    })
+  })
+
+  test('rules "off" silences the warning', () => {
+    withConfig({ strict: true, rules: { MISSING_INPUT_SCHEMA: 'off' }, format: 'json' }, (dir) => {
+      const { stdout } = run([resolve(FIXTURES, 'valid-v2-base.json')], { cwd: dir })
+      const result = JSON.parse(stdout)
+      const codes = [...result.errors, ...result.warnings].map((i: { code: string }) => i.code)
+      expect(codes).not.toContain('MISSING_INPUT_SCHEMA')
+    })
+  })
+
+  test('invalid config exits 2 with an error', () => {
+    withConfig({ strict: 'yes' }, (dir) => {
+      const { stderr, exitCode } = run(['--print-config'], { cwd: dir })
+      expect(exitCode).toBe(2)
+      expect(stderr).toContain('"strict" must be a boolean')
+    })
+  })
+
+  test('--registry makes a private network and asset known', () => {
+    withConfig({ format: 'json' }, (dir) => {
+      writeFileSync(
+        join(dir, 'registry.json'),
+        JSON.stringify({
+          networks: { 'eip155:424242': { name: 'House L2', type: 'evm', testnet: false } },
+          assets: { 'eip155:424242': { '0x00000000000000000000000000000000000000Aa': { symbol: 'HUSD', name: 'House USD', decimals: 6 } } },
+          simpleNames: { house: 'eip155:424242' },
+        }),
+      )
+      const config = JSON.stringify({
+        x402Version: 2,
+        accepts: [
+          {
+            scheme: 'exact',
+            network: 'house',
+            amount: '10000',
+            asset: '0x00000000000000000000000000000000000000Aa',
+            payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            maxTimeoutSeconds: 60,
+          },
+        ],
+      })
+      const { stdout } = run([config, '--registry', 'registry.json'], { cwd: dir })
+      const result = JSON.parse(stdout)
+      const codes = [...result.errors, ...result.warnings].map((i: { code: string }) => i.code)
+      expect(codes).not.toContain('UNKNOWN_NETWORK')
+      expect(codes).not.toContain('UNKNOWN_ASSET')
+      expect(result.errors[0].fix).toBe("Use 'eip155:424242' instead of 'house'")
+    })
+  })
+
+  test('--config with missing file exits 2', () => {
+    const { stderr, exitCode } = run(['--config', 'does-not-exist.json', '--print-config'])
+    expect(exitCode).toBe(2)
+    expect(stderr).toContain('Config file not found')
+  })
+})
+
+describe('cli registry subcommand', () => {
+  const withRegistry = (registry: unknown, fn: (dir: string) => void) => {
+    const dir = mkdtempSync(join(tmpdir(), 'x402lint-registry-'))
+    try {
+      writeFileSync(join(dir, 'registry.json'), JSON.stringify(registry))
+      fn(dir)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }
+
+  test('list --json includes built-in and imported entries', () => {
+    withRegistry([{ name: 'House L2', chainId: 424242 }], (dir) => {
+      const { stdout, exitCode } = run(['registry', 'list', '--json', '--registry', 'registry.json'], { cwd: dir })
+      expect(exitCode).toBe(0)
+      const listing = JSON.parse(stdout)
+      expect(listing.networks).toContainEqual({ caip2: 'eip155:424242', name: 'House L2', type: 'evm', testnet: false })
+      expect(listing.assets).toContainEqual(
+        expect.objectContaining({ network: 'eip155:8453', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' }),
+      )
+      expect(listing.simpleNames).toContainEqual({ name: 'base', network: 'eip155:8453' })
+    })
+  })
+
+  test('search matches symbols case-insensitively', () => {
+    const { stdout, exitCode } = run(['registry', 'search', 'usdc'])
+    expect(exitCode).toBe(0)
+    expect(stdout).toContain('Assets (')
+    expect(stdout).toContain('0x036CbD53842c5426634e7929541eC2318f3dCF7e')
+    expect(run(['registry', 'search', 'no-such-token']).exitCode).toBe(1)
+  })
+
+  test('diff exits 1 when a Token List changes a built-in asset', () => {
+    const tokenList = {
+      name: 'House',
+      timestamp: '2026-01-01T00:00:00Z',
+      version: { major: 1, minor: 0, patch: 0 },
+      tokens: [{ chainId: 8453, address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', name: 'USD Coin', symbol: 'USDC', decimals: 18 }],
+    }
+    withRegistry(tokenList, (dir) => {
+      const { stdout, exitCode } = run(['registry', 'diff', '--registry', 'registry.json'], { cwd: dir })
+      expect(exitCode).toBe(1)
+      expect(stdout).toContain('~ asset eip155:8453 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913: decimals 6 -> 18')
+    })
+  })
+
+  test('diff without extra entries reports no differences', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'x402lint-registry-'))
+    try {
+      const { stdout, exitCode } = run(['registry', 'diff'], { cwd: dir })
+      expect(exitCode).toBe(0)
+      expect(stdout).toContain('No differences from the built-in registry')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('entries the registry rejects are config errors', () => {
+    withRegistry({ simpleNames: { '': 'eip155:8453' } }, (dir) => {
+      const { stderr, exitCode } = run(['registry', 'list', '--registry', 'registry.json'], { cwd: dir })
+      expect(exitCode).toBe(2)
+      expect(stderr).toContain('Config error: Simple name must be a non-empty string')
+    })
+  })
+
+  test('unknown action exits 2 with usage', () => {
+    const { stderr, exitCode } = run(['registry', 'update'])
+    expect(exitCode).toBe(2)
+    expect(stderr).toContain('x402lint registry search <query>')
+  })
+})
+
+describe('cli price bounds', () => {
+  test('--max-price fails amounts above the bound', () => {
+    const { stdout, exitCode } = run([resolve(FIXTURES, 'valid-v2-base.json'), '--max-price', '0.50', '--json'])
+    expect(exitCode).toBe(1)
+    expect(JSON.parse(stdout).errors.map((e: { code: string }) => e.code)).toContain('AMOUNT_ABOVE_MAX_PRICE')
+  })
+
+  test('amounts within bounds pass', () => {
+    const { exitCode } = run([resolve(FIXTURES, 'valid-v2-base.json'), '--max-price', '5', '--min-price', '0.01'])
+    expect(exitCode).toBe(0)
+  })
+
+  test('malformed --max-price exits 2', () => {
+    const { stderr, exitCode } = run([resolve(FIXTURES, 'valid-v2-base.json'), '--max-price', '$5'])
+    expect(exitCode).toBe(2)
+    expect(stderr).toContain('--max-price must be a decimal amount')
+  })
+})
+
+describe('cli source locations', () => {
+  test('issues from a file are prefixed with file:line:col', () => {
+    const file = resolve(FIXTURES, 'valid-v2-base.json')
+    const { stdout } = run([file])
+    expect(stdout).toContain(`${file}:1:1 MISSING_INPUT_SCHEMA`)
+  })
+
+  test('manifest endpoint issues point into the manifest file', () => {
+    const { stdout } = run([resolve(FIXTURES, 'invalid-manifest.json')])
+    expect(stdout).toMatch(/invalid-manifest\.json:\d+:\d+ EMPTY_ACCEPTS/)
+  })
+
+  test('--json output includes line and column', () => {
+    const { stdout } = run(['--json', resolve(FIXTURES, 'valid-v2-base.json')])
+    const result = JSON.parse(stdout)
+    const warning = result.warnings.find((w: { code: string }) => w.code === 'MISSING_INPUT_SCHEMA')
+    expect(warning.line).toBe(1)
+    expect(warning.column).toBe(1)
+  })
+})
+
+describe('cli --fix', () => {
+  const original = [
+    '{',
+    '  "x402Version": 2,',
+    '  "accepts": [{',
+    '    "scheme": "exact", "network": "base", "amount": "1000000",',
+    '    "asset": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",',
+    '    "payTo": "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed"',
+    '  }]',
+    '}',
+    '',
+  ].join('\n')
+
+  const withFile = (fn: (file: string) => void) => {
+    const dir = mkdtempSync(join(tmpdir(), 'x402lint-fix-'))
+    const file = join(dir, 'config.json')
+    writeFileSync(file, original)
+    try {
+      fn(file)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }
+
+  test('--fix rewrites the file preserving formatting', () => {
+    withFile((file) => {
+      const { stdout, exitCode } = run([file, '--fix'])
+      expect(exitCode).toBe(0)
+      expect(stdout).toContain('Fixed 2 issues')
+      expect(readFileSync(file, 'utf-8')).toBe(
+        original
+          .replace('"base"', '"eip155:8453"')
+          .replace('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed', '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'),
+      )
+    })
+  })
+
+  test('--fix-dry-run reports fixes without writing', () => {
+    withFile((file) => {
+      const { stdout } = run([file, '--fix-dry-run'])
+      expect(stdout).toContain('Would fix 2 issues')
+      expect(stdout).toContain(`${file}:4:35 INVALID_NETWORK_FORMAT`)
+      expect(readFileSync(file, 'utf-8')).toBe(original)
+    })
+  })
+
+  test('--fix on inline JSON exits 2', () => {
+    const { stderr, exitCode } = run(['{"x402Version":2}', '--fix'])
+    expect(exitCode).toBe(2)
+    expect(stderr).toContain('need a JSON file')
+  })
+})
@@ -0,0 +1,251 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { findConfigFile, loadConfigFile, loadRegistryFile, parseConfig, resolveSettings } from '../../src/cli/config'
+import { parseCliArgs } from '../../src/cli/args'
+
+let root: string
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'x402lint-config-'))
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('findConfigFile', () => {
+  test('returns null when no config file exists', () => {
+    expect(findConfigFile(root)).toBeNull()
+  })
+
+  test('finds config in the start directory', () => {
+    writeFileSync(join(root, '.x402lintrc'), '{}')
+    expect(findConfigFile(root)).toBe(join(root, '.x402lintrc'))
+  })
+
+  test('walks up to parent directories', () => {
+    const nested = join(root, 'a', 'b')
+    mkdirSync(nested, { recursive: true })
+    writeFileSync(join(root, 'x402lint.config.json'), '{}')
+    expect(findConfigFile(nested)).toBe(join(root, 'x402lint.config.json'))
+  })
+
+  test('nearest directory wins, then file name order', () => {
+    const nested = join(root, 'pkg')
+    mkdirSync(nested)
+    writeFileSync(join(root, '.x402lintrc'), '{}')
+    writeFileSync(join(nested, 'x402lint.config.json'), '{}')
+    writeFileSync(join(nested, '.x402lintrc.json'), '{}')
+    expect(findConfigFile(nested)).toBe(join(nested, '.x402lintrc.json'))
+  })
+})
+
+describe('parseConfig', () => {
+  test('accepts every supported setting', () => {
+    const config = parseConfig({
+      strict: true,
+      rules: { MISSING_INPUT_SCHEMA: 'off', NO_EVM_CHECKSUM: 'error' },
+      ignore: ['extensions'],
+      registry: {
+        networks: {
+          'eip155:31337': { name: 'Local', type: 'evm', testnet: true },
+          'cosmos:localnet': { name: 'Local Cosmos', type: 'cosmos', testnet: true, bech32Prefix: 'local' },
+        },
+        assets: {
+          'eip155:31337': {
+            '0xabc': { symbol: 'TEST', name: 'Test', decimals: 18, eip712: { name: 'Test', version: '1' } },
+          },
+        },
+        simpleNames: { local: 'eip155:31337' },
+      },
+      headers: { Authorization: 'Bearer xyz' },
+      format: 'json',
+      maxPrice: '5.00',
+      minPrice: '0.0001',
+    })
+    expect(config.strict).toBe(true)
+    expect(config.rules).toEqual({ MISSING_INPUT_SCHEMA: 'off', NO_EVM_CHECKSUM: 'error' })
+    expect(config.registry!.networks!['eip155:31337']!.name).toBe('Local')
+    expect(config.registry!.networks!['cosmos:localnet']!.bech32Prefix).toBe('local')
+    expect(config.registry!.assets!['eip155:31337']!['0xabc']!.eip712).toEqual({ name: 'Test', version: '1' })
+    expect(config.registry!.simpleNames).toEqual({ local: 'eip155:31337' })
+    expect(config.format).toBe('json')
+    expect(config.maxPrice).toBe('5.00')
+  })
+
+  test.each([
+    [[], 'config must be a JSON object'],
+    [{ strictt: true }, 'unknown setting "strictt"'],
+    [{ strict: 'yes' }, '"strict" must be a boolean'],
+    [{ rules: { NOT_A_CODE: 'off' } }, 'unknown error code "NOT_A_CODE"'],
+    [{ rules: { toString: 'off' } }, 'unknown error code "toString"'],
+    [{ rules: { constructor: 'off' } }, 'unknown error code "constructor"'],
+    [{ rules: { MISSING_INPUT_SCHEMA: 'warn' } }, '"rules.MISSING_INPUT_SCHEMA" must be one of'],
+    [{ ignore: 'extensions' }, '"ignore" must be an array'],
+    [{ format: 'xml' }, '"format" must be "text" or "json"'],
+    [{ headers: { A: 1 } }, '"headers" must be an object'],
+    [{ maxPrice: 5 }, '"maxPrice" must be a decimal string'],
+    [{ minPrice: '$0.01' }, '"minPrice" must be a decimal string'],
+    [{ registry: { networks: { base: {} } } }, 'invalid CAIP-2 network "base"'],
+    [{ registry: { networks: { 'eip155:1': { name: 'Eth', type: 'btc', testnet: false } } } }, 'must be { name'],
+    [{ registry: { assets: { 'eip155:1': { '0xabc': { symbol: 'X', name: 'X', decimals: 1.5 } } } } }, 'decimals: integer'],
+    [
+      { registry: { networks: { 'cosmos:x-1': { name: 'X', type: 'cosmos', testnet: false, bech32Prefix: 'X1' } } } },
+      'bech32Prefix" must be a lowercase bech32 prefix',
+    ],
+    [
+      { registry: { assets: { 'eip155:1': { '0xabc': { symbol: 'X', name: 'X', decimals: 6, eip712: { name: 'X' } } } } } },
+      'eip712" must be { name: string, version: string }',
+    ],
+    [{ registry: { simpleNames: { local: 'local' } } }, '"registry.simpleNames.local" must be a CAIP-2 network'],
+  ])('rejects invalid config %j', (value, message) => {
+    expect(() => parseConfig(value)).toThrow(message)
+  })
+})
+
+describe('loadConfigFile', () => {
+  test('reports missing files', () => {
+    expect(() => loadConfigFile(join(root, 'missing.json'))).toThrow('Config file not found')
+  })
+
+  test('reports invalid JSON with the file path', () => {
+    const path = join(root, '.x402lintrc')
+    writeFileSync(path, '{ nope')
+    expect(() => loadConfigFile(path)).toThrow(`Invalid config file ${path}: not valid JSON`)
+  })
+})
+
+describe('loadRegistryFile', () => {
+  test('reads networks, assets and simple names', () => {
+    const path = join(root, 'registry.json')
+    writeFileSync(
+      path,
+      JSON.stringify({
+        networks: { 'eip155:424242': { name: 'House L2', type: 'evm', testnet: false } },
+        simpleNames: { house: 'eip155:424242' },
+      }),
+    )
+    expect(loadRegistryFile(path)).toEqual({
+      networks: { 'eip155:424242': { name: 'House L2', type: 'evm', testnet: false } },
+      simpleNames: { house: 'eip155:424242' },
+    })
+  })
+
+  test('detects Token Lists and chain lists', () => {
+    const tokenList = join(root, 'tokenlist.json')
+    writeFileSync(
+      tokenList,
+      JSON.stringify({
+        name: 'House',
+        timestamp: '2026-01-01T00:00:00Z',
+        version: { major: 1, minor: 0, patch: 0 },
+        tokens: [{ chainId: 424242, address: '0x00000000000000000000000000000000000000Aa', name: 'House USD', symbol: 'HUSD', decimals: 6 }],
+      }),
+    )
+    expect(loadRegistryFile(tokenList)).toEqual({
+      assets: { 'eip155:424242': { '0x00000000000000000000000000000000000000Aa': { symbol: 'HUSD', name: 'House USD', decimals: 6 } } },
+    })
+
+    const chainList = join(root, 'chains.json')
+    writeFileSync(chainList, JSON.stringify([{ name: 'House L2', chainId: 424242, isTestnet: false }]))
+    expect(loadRegistryFile(chainList)).toEqual({
+      networks: { 'eip155:424242': { name: 'House L2', type: 'evm', testnet: false } },
+    })
+
+    writeFileSync(chainList, JSON.stringify([{ name: 'House L2' }]))
+    expect(() => loadRegistryFile(chainList)).toThrow(`Invalid registry file ${chainList}: [0].chainId must be a positive integer`)
+  })
+
+  test('reports missing files and invalid entries with the file path', () => {
+    expect(() => loadRegistryFile(join(root, 'missing.json'))).toThrow('Registry file not found')
+    const path = join(root, 'registry.json')
+    writeFileSync(path, JSON.stringify({ networks: { house: {} } }))
+    expect(() => loadRegistryFile(path)).toThrow(`Invalid registry file ${path}: "networks": invalid CAIP-2 network "house"`)
+  })
+})
+
+describe('resolveSettings', () => {
+  test('defaults without a config file', () => {
+    const settings = resolveSettings(parseCliArgs([]), root)
+    expect(settings).toEqual({
+      configFile: null,
+      strict: false,
+      rules: {},
+      ignore: [],
+      registry: {},
+      headers: {},
+      format: 'text',
+      maxPrice: null,
+      minPrice: null,
+    })
+  })
+
+  test('uses discovered config file', () => {
+    writeFileSync(
+      join(root, '.x402lintrc'),
+      JSON.stringify({ strict: true, headers: { 'X-Key': 'a' }, format: 'json' }),
+    )
+    const settings = resolveSettings(parseCliArgs([]), root)
+    expect(settings.configFile).toBe(join(root, '.x402lintrc'))
+    expect(settings.strict).toBe(true)
+    expect(settings.headers).toEqual({ 'X-Key': 'a' })
+    expect(settings.format).toBe('json')
+  })
+
+  test('CLI flags override the config file', () => {
+    writeFileSync(
+      join(root, '.x402lintrc'),
+      JSON.stringify({ headers: { 'X-Key': 'a', 'X-Other': 'b' }, format: 'text' }),
+    )
+    const settings = resolveSettings(parseCliArgs(['--strict', '--json', '--header', 'X-Key: c']), root)
+    expect(settings.strict).toBe(true)
+    expect(settings.format).toBe('json')
+    expect(settings.headers).toEqual({ 'X-Key': 'c', 'X-Other': 'b' })
+  })
+
+  test('price flags override configured bounds', () => {
+    writeFileSync(join(root, '.x402lintrc'), JSON.stringify({ maxPrice: '5.00', minPrice: '0.001' }))
+    const settings = resolveSettings(parseCliArgs(['--max-price', '1']), root)
+    expect(settings.maxPrice).toBe('1')
+    expect(settings.minPrice).toBe('0.001')
+    expect(() => resolveSettings(parseCliArgs(['--min-price', '1e-3']), root)).toThrow('--min-price')
+  })
+
+  test('--config points at an explicit file relative to cwd', () => {
+    writeFileSync(join(root, '.x402lintrc'), JSON.stringify({ strict: false }))
+    writeFileSync(join(root, 'ci.json'), JSON.stringify({ strict: true }))
+    const settings = resolveSettings(parseCliArgs(['--config', 'ci.json']), root)
+    expect(settings.configFile).toBe(join(root, 'ci.json'))
+    expect(settings.strict).toBe(true)
+  })
+
+  test('--registry entries merge over the config registry', () => {
+    writeFileSync(
+      join(root, '.x402lintrc'),
+      JSON.stringify({
+        registry: {
+          networks: { 'eip155:424242': { name: 'Old name', type: 'evm', testnet: false } },
+          simpleNames: { staging: 'eip155:84532' },
+        },
+      }),
+    )
+    writeFileSync(
+      join(root, 'registry.json'),
+      JSON.stringify({
+        networks: { 'eip155:424242': { name: 'House L2', type: 'evm', testnet: false } },
+        simpleNames: { house: 'eip155:424242' },
+      }),
+    )
+    const settings = resolveSettings(parseCliArgs(['--registry', 'registry.json']), root)
+    expect(settings.registry).toEqual({
+      networks: { 'eip155:424242': { name: 'House L2', type: 'evm', testnet: false } },
+      simpleNames: { staging: 'eip155:84532', house: 'eip155:424242' },
+    })
+  })
+
+  test('--config with a missing file throws', () => {
+    expect(() => resolveSettings(parseCliArgs(['--config', 'nope.json']), root)).toThrow('Config file not found')
+  })
+})
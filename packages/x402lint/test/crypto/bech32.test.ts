@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { decodeBech32, encodeBech32 } from '../../src/crypto/bech32'
+
+const COSMOS = 'cosmos1vqpjljwsynsn58dugz0w8ut7kun7t8ls2qkmsq'
+
+describe('decodeBech32', () => {
+  it('decodes a bech32 Cosmos address to its prefix and 20 bytes', () => {
+    const decoded = decodeBech32(COSMOS)
+    expect(decoded.prefix).toBe('cosmos')
+    expect(decoded.bytes.length).toBe(20)
+    expect(decoded.encoding).toBe('bech32')
+  })
+
+  it('decodes bech32m strings', () => {
+    // BIP-350 taproot address
+    const decoded = decodeBech32('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')
+    expect(decoded.prefix).toBe('bc')
+    expect(decoded.encoding).toBe('bech32m')
+  })
+
+  it('accepts all-uppercase input', () => {
+    expect(decodeBech32(COSMOS.toUpperCase()).prefix).toBe('cosmos')
+  })
+
+  it('throws a checksum error for a typo', () => {
+    expect(() => decodeBech32(COSMOS.slice(0, -1) + 'p')).toThrow('Invalid bech32 checksum')
+  })
+
+  it('throws on malformed input', () => {
+    expect(() => decodeBech32('cosmos')).toThrow('Invalid bech32')
+    expect(() => decodeBech32('Cosmos1vqpjljwsynsn58dugz0w8ut7kun7t8ls2qkmsq')).toThrow('Invalid bech32')
+  })
+})
+
+describe('encodeBech32', () => {
+  it('round-trips with a different prefix', () => {
+    const { bytes } = decodeBech32(COSMOS)
+    const noble = encodeBech32('noble', bytes)
+    expect(noble).toBe('noble1vqpjljwsynsn58dugz0w8ut7kun7t8lszrrngw')
+    expect(decodeBech32(noble).bytes).toEqual(bytes)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { isOnEd25519Curve } from '../../src/crypto/ed25519'
+import { decodeBase58 } from '../../src/crypto/base58'
+import { createProgramAddress } from '../../src/crypto/solana-pda'
+
+describe('isOnEd25519Curve', () => {
+  it('wallet public keys are on the curve', () => {
+    expect(isOnEd25519Curve(decodeBase58('DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'))).toBe(true)
+    expect(isOnEd25519Curve(decodeBase58('2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4'))).toBe(true)
+  })
+
+  it('the all-zero key (y = 0) is on the curve', () => {
+    expect(isOnEd25519Curve(new Uint8Array(32))).toBe(true)
+  })
+
+  it('program-derived addresses are off the curve', () => {
+    const pda = createProgramAddress([new TextEncoder().encode('Talking')], 'BPFLoader1111111111111111111111111111111111')
+    expect(pda).not.toBeNull()
+    expect(isOnEd25519Curve(decodeBase58(pda!))).toBe(false)
+  })
+
+  it('rejects y >= p', () => {
+    const bytes = new Uint8Array(32).fill(0xff)
+    bytes[31] = 0x7f
+    expect(isOnEd25519Curve(bytes)).toBe(false)
+  })
+
+  it('rejects inputs that are not 32 bytes', () => {
+    expect(isOnEd25519Curve(new Uint8Array(31))).toBe(false)
+  })
+})
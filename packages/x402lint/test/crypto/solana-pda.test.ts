@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { createProgramAddress, findProgramAddress, getAssociatedTokenAddress, TOKEN_2022_PROGRAM_ID } from '../../src/crypto/solana-pda'
+import { decodeBase58 } from '../../src/crypto/base58'
+import { isOnEd25519Curve } from '../../src/crypto/ed25519'
+
+const BPF_LOADER = 'BPFLoader1111111111111111111111111111111111'
+const text = (s: string) => new TextEncoder().encode(s)
+
+describe('createProgramAddress', () => {
+  // Test vectors from @solana/web3.js
+  it('matches reference program addresses', () => {
+    expect(createProgramAddress([text(''), new Uint8Array([1])], BPF_LOADER)).toBe(
+      '3gF2KMe9KiC6FNVBmfg9i267aMPvK37FewCip4eGBFcT',
+    )
+    expect(createProgramAddress([text('☉')], BPF_LOADER)).toBe('7ytmC1nT1xY4RfxCV2ZgyA7UakC93do5ZdyhdF3EtPj7')
+    expect(createProgramAddress([text('Talking'), text('Squirrels')], BPF_LOADER)).toBe(
+      'HwRVBufQ4haG5XSgpspwKtNd3PC9GM9m1196uJW36vds',
+    )
+  })
+})
+
+describe('findProgramAddress', () => {
+  it('returns an off-curve address with its bump', () => {
+    const { address, bump } = findProgramAddress([text('x402')], BPF_LOADER)
+    expect(bump).toBeGreaterThanOrEqual(0)
+    expect(bump).toBeLessThanOrEqual(255)
+    expect(isOnEd25519Curve(decodeBase58(address))).toBe(false)
+    expect(createProgramAddress([text('x402'), new Uint8Array([bump])], BPF_LOADER)).toBe(address)
+  })
+})
+
+describe('getAssociatedTokenAddress', () => {
+  const owner = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'
+  const usdc = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+
+  // Expected values from spl-token getAssociatedTokenAddressSync(usdc, owner, false, programId)
+  it('derives the token account spl-token derives', () => {
+    const ata = getAssociatedTokenAddress(owner, usdc)
+    expect(ata).toBe('6wzzozWHyumGXyBgFpxnYkpoPN2fserASyYW3Yj882Br')
+    expect(isOnEd25519Curve(decodeBase58(ata))).toBe(false)
+  })
+
+  it('depends on the token program', () => {
+    expect(getAssociatedTokenAddress(owner, usdc, TOKEN_2022_PROGRAM_ID)).toBe('3dHn8eaRXGtQo9ZzrXpuMuitdt9ftNCtKdHFD3hRq4cu')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { base32nopad } from '@scure/base'
+import { decodeStrKey, crc16Xmodem } from '../../src/crypto/strkey'
+
+describe('crc16Xmodem', () => {
+  it('matches the XModem check value', () => {
+    // Standard CRC-16/XMODEM check: "123456789" → 0x31C3
+    expect(crc16Xmodem(new TextEncoder().encode('123456789'))).toBe(0x31c3)
+  })
+
+  it('is 0 for empty input', () => {
+    expect(crc16Xmodem(new Uint8Array())).toBe(0)
+  })
+})
+
+describe('decodeStrKey', () => {
+  it('decodes an account key (G...) to 32 bytes', () => {
+    const decoded = decodeStrKey('GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ')
+    expect(decoded.type).toBe('G')
+    expect(decoded.payload.length).toBe(32)
+  })
+
+  it('decodes a contract key (C...)', () => {
+    const decoded = decodeStrKey('CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE')
+    expect(decoded.type).toBe('C')
+    expect(decoded.payload.length).toBe(32)
+  })
+
+  it('decodes a muxed account (M...) to key + 64-bit id', () => {
+    // SEP-23 test vector
+    const decoded = decodeStrKey('MA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJUAAAAAAAAAAAACJUQ')
+    expect(decoded.type).toBe('M')
+    expect(decoded.payload.length).toBe(40)
+  })
+
+  it('throws on a bad checksum', () => {
+    expect(() => decodeStrKey('GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGA')).toThrow('Invalid StrKey checksum')
+  })
+
+  it('throws on characters outside the base32 alphabet', () => {
+    expect(() => decodeStrKey('GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSG1')).toThrow('Invalid StrKey encoding')
+  })
+
+  it('throws on an unknown version byte', () => {
+    const data = new Uint8Array([1 << 3, ...new Uint8Array(32)])
+    const crc = crc16Xmodem(data)
+    const key = base32nopad.encode(new Uint8Array([...data, crc & 0xff, crc >> 8]))
+    expect(() => decodeStrKey(key)).toThrow('Invalid StrKey version byte')
+  })
+})
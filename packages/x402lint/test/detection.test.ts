@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { detect, normalize } from '../src/index'
+import { detect, findNormalizationLoss, normalize, validate } from '../src/index'
 import type { NormalizedConfig } from '../src/index'
 
 // ---- detect() tests ----
@@ -210,6 +210,85 @@ describe('normalize', () => {
       expect(result!.resource).toEqual({ url: 'https://example.com' })
     })
 
+    it('moves description and mimeType to the resource and keeps outputSchema', () => {
+      const outputSchema = { input: { type: 'http', method: 'GET' }, output: { type: 'object' } }
+      const v1 = {
+        x402Version: 1,
+        accepts: [
+          {
+            scheme: 'exact',
+            network: 'eip155:8453',
+            maxAmountRequired: '500',
+            asset: '0xabc',
+            payTo: '0xdef',
+            resource: { url: 'https://example.com' },
+            description: 'Weather data',
+            mimeType: 'application/json',
+            outputSchema,
+          },
+        ],
+      }
+      const result = normalize(v1)
+      expect(result!.resource).toEqual({
+        url: 'https://example.com',
+        description: 'Weather data',
+        mimeType: 'application/json',
+      })
+      expect(result!.accepts[0]!.outputSchema).toEqual(outputSchema)
+      expect(findNormalizationLoss(v1)).toEqual([])
+    })
+
+    it('lifts a URL string resource into resource.url', () => {
+      const entry = { scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '500', asset: '0xabc', payTo: '0xdef' }
+      const v1 = {
+        x402Version: 1,
+        accepts: [
+          { ...entry, resource: 'https://example.com/a', description: 'A', mimeType: 'application/json' },
+          { ...entry, resource: { url: 'https://example.com/a' } },
+          { ...entry, resource: 'https://example.com/b' },
+        ],
+      }
+      expect(normalize(v1)!.resource).toEqual({
+        url: 'https://example.com/a',
+        description: 'A',
+        mimeType: 'application/json',
+      })
+      expect(findNormalizationLoss(v1)).toEqual([
+        { field: 'accepts[2].resource', reason: 'differs from accepts[0].resource' },
+      ])
+      expect(validate(v1).warnings.map((w) => w.code)).not.toContain('MISSING_RESOURCE')
+    })
+
+    it('reports per-entry resources and descriptions that v2 cannot hold', () => {
+      const entry = { scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '500', asset: '0xabc', payTo: '0xdef' }
+      const v1 = {
+        x402Version: 1,
+        accepts: [
+          { ...entry, resource: { url: 'https://example.com/a', method: 'GET' }, description: 'A' },
+          { ...entry, resource: { method: 'GET', url: 'https://example.com/a' }, description: 'A' },
+          { ...entry, resource: { url: 'https://example.com/b' }, description: 'B' },
+        ],
+      }
+      expect(normalize(v1)!.resource).toEqual({ url: 'https://example.com/a', method: 'GET', description: 'A' })
+      expect(findNormalizationLoss(v1)).toEqual([
+        { field: 'accepts[2].resource', reason: 'differs from accepts[0].resource' },
+        { field: 'accepts[2].description', reason: 'differs from accepts[0].description' },
+      ])
+    })
+
+    it('reports descriptions when no entry has a resource', () => {
+      const v1 = {
+        x402Version: 1,
+        accepts: [
+          { scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '500', asset: '0xabc', payTo: '0xdef', mimeType: 'text/plain' },
+        ],
+      }
+      expect(normalize(v1)).not.toHaveProperty('resource')
+      expect(findNormalizationLoss(v1)).toEqual([
+        { field: 'accepts[0].mimeType', reason: 'no entry has a resource to hold it' },
+      ])
+    })
+
     it('preserves extensions', () => {
       const result = normalize({
         x402Version: 1,
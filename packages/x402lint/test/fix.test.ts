@@ -0,0 +1,141 @@
+import { describe, test, expect } from 'vitest'
+import { fix } from '../src/fix'
+import { validate } from '../src/validation/orchestrator'
+import { ErrorCode } from '../src/types/errors'
+
+const LOWER_PAY_TO = '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'
+const CHECKSUM_PAY_TO = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+
+/** Helper: v2 config with a simple network name and lowercase payTo */
+function fixableConfig(): Record<string, unknown> {
+  return {
+    x402Version: 2,
+    accepts: [
+      {
+        scheme: 'exact',
+        network: 'base',
+        amount: '1000000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: LOWER_PAY_TO,
+        maxTimeoutSeconds: 300,
+      },
+    ],
+    resource: { url: 'https://example.com/api/data' },
+  }
+}
+
+describe('fix() — objects', () => {
+  test('maps network names and checksums lowercase addresses', () => {
+    const result = fix(fixableConfig())
+    const entry = (result.config as { accepts: Array<Record<string, unknown>> }).accepts[0]!
+    expect(entry.network).toBe('eip155:8453')
+    expect(entry.payTo).toBe(CHECKSUM_PAY_TO)
+    expect(result.text).toBeNull()
+    expect(result.changes.map((c) => c.code)).toEqual([ErrorCode.INVALID_NETWORK_FORMAT, ErrorCode.NO_EVM_CHECKSUM])
+    expect(result.changes[0]).toMatchObject({
+      field: 'accepts[0].network',
+      path: '/accepts/0/network',
+      label: "Use 'eip155:8453'",
+      from: 'base',
+      to: 'eip155:8453',
+    })
+  })
+
+  test('fixed config validates without the fixed issues', () => {
+    const result = validate(fix(fixableConfig()).config!)
+    expect(result.valid).toBe(true)
+    expect(result.warnings.map((w) => w.code)).not.toContain(ErrorCode.NO_EVM_CHECKSUM)
+  })
+
+  test('does not mutate the input', () => {
+    const input = fixableConfig()
+    fix(input)
+    expect((input.accepts as Array<Record<string, unknown>>)[0]!.network).toBe('base')
+  })
+
+  test('never touches amounts or mis-checksummed recipients', () => {
+    const input = fixableConfig()
+    const entry = (input.accepts as Array<Record<string, unknown>>)[0]!
+    entry.network = 'eip155:8453'
+    entry.amount = '1.5'
+    entry.payTo = '0x5AAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' // bad checksum: could be a typo
+    const result = fix(input)
+    expect(result.changes).toHaveLength(0)
+    expect(result.config).toEqual(input)
+  })
+
+  test('fixes every endpoint in a manifest', () => {
+    const result = fix({ endpoints: { a: fixableConfig(), b: fixableConfig() } })
+    expect(result.changes.map((c) => c.field).sort()).toEqual([
+      'endpoints["a"].accepts[0].network',
+      'endpoints["a"].accepts[0].payTo',
+      'endpoints["b"].accepts[0].network',
+      'endpoints["b"].accepts[0].payTo',
+    ])
+  })
+
+  test('applies non-string safe replacements', () => {
+    const input = fixableConfig()
+    ;(input.accepts as Array<Record<string, unknown>>)[0]!.maxTimeoutSeconds = '60'
+    const result = fix(input)
+    expect((result.config as { accepts: Array<Record<string, unknown>> }).accepts[0]!.maxTimeoutSeconds).toBe(60)
+  })
+
+  test('unsafe suggestions (v1 upgrade) are not applied', () => {
+    const v1 = {
+      x402Version: 1,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'eip155:8453',
+          maxAmountRequired: '1',
+          asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+          payTo: CHECKSUM_PAY_TO,
+        },
+      ],
+    }
+    expect(fix(v1).changes).toHaveLength(0)
+  })
+
+  test('issues turned off via rules are not fixed', () => {
+    const result = fix(fixableConfig(), { rules: { NO_EVM_CHECKSUM: 'off' } })
+    expect(result.changes.map((c) => c.code)).toEqual([ErrorCode.INVALID_NETWORK_FORMAT])
+  })
+})
+
+describe('fix() — JSON text', () => {
+  const text = [
+    '{',
+    '    "x402Version": 2,',
+    '    "accepts": [{ "payTo": "' + LOWER_PAY_TO + '", "network": "base",',
+    '        "scheme": "exact", "amount": "1000000",',
+    '        "asset": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" }]',
+    '}',
+    '',
+  ].join('\n')
+
+  test('edits values in place, preserving key order and indentation', () => {
+    const result = fix(text)
+    expect(result.text).toBe(text.replace('"base"', '"eip155:8453"').replace(LOWER_PAY_TO, CHECKSUM_PAY_TO))
+  })
+
+  test('reports change locations', () => {
+    const result = fix(text)
+    const network = result.changes.find((c) => c.code === ErrorCode.INVALID_NETWORK_FORMAT)!
+    expect(network).toMatchObject({ line: 3, column: 85 })
+  })
+
+  test('text without fixable issues is returned unchanged', () => {
+    const clean = text.replace('"base"', '"eip155:8453"').replace(LOWER_PAY_TO, CHECKSUM_PAY_TO)
+    const result = fix(clean)
+    expect(result.text).toBe(clean)
+    expect(result.changes).toHaveLength(0)
+  })
+
+  test('invalid JSON yields no config and no changes', () => {
+    const result = fix('{ nope')
+    expect(result.config).toBeNull()
+    expect(result.text).toBe('{ nope')
+    expect(result.changes).toHaveLength(0)
+  })
+})
@@ -294,11 +294,275 @@ describe('error code coverage', () => {
         resource: { url: 'https://example.com' },
       }),
     )
+    // UNKNOWN_SCHEME
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          {
+            scheme: 'exatc',
+            network: 'eip155:8453',
+            amount: '1000000',
+            asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            maxTimeoutSeconds: 60,
+          },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // INVALID_SCHEME
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          {
+            scheme: 1,
+            network: 'eip155:8453',
+            amount: '1000000',
+            asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            maxTimeoutSeconds: 60,
+          },
+        ],
+      }),
+    )
+    // SCHEME_NETWORK_UNSUPPORTED
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          {
+            scheme: 'upto',
+            network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+            amount: '1000000',
+            asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            payTo: 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK',
+            maxTimeoutSeconds: 60,
+          },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // EIP712_DOMAIN_MISMATCH
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          {
+            scheme: 'exact',
+            network: 'eip155:84532',
+            amount: '1000000',
+            asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+            payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            maxTimeoutSeconds: 60,
+            extra: { name: 'USD Coin', version: '2' },
+          },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // MISSING_FEE_PAYER, FEE_PAYER_IS_PAY_TO, FEE_PAYER_IS_ASSET
+    const solanaEntry = {
+      scheme: 'exact',
+      network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      amount: '1000000',
+      asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      payTo: 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK',
+      maxTimeoutSeconds: 60,
+    }
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          solanaEntry,
+          { ...solanaEntry, extra: { feePayer: solanaEntry.payTo } },
+          { ...solanaEntry, extra: { feePayer: solanaEntry.asset } },
+          // PAY_TO_IS_ASSET, PAY_TO_OFF_CURVE (token account of the old payTo)
+          { ...solanaEntry, payTo: solanaEntry.asset },
+          { ...solanaEntry, payTo: '6wzzozWHyumGXyBgFpxnYkpoPN2fserASyYW3Yj882Br' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // INVALID_STELLAR_ADDRESS, BAD_STELLAR_CHECKSUM, INVALID_STELLAR_ASSET
+    const stellarEntry = {
+      scheme: 'exact',
+      network: 'stellar:pubnet',
+      amount: '1000000',
+      asset: 'CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE',
+      payTo: 'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ',
+      maxTimeoutSeconds: 60,
+    }
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          { ...stellarEntry, payTo: 'not-a-stellar-address' },
+          { ...stellarEntry, payTo: 'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGA' },
+          { ...stellarEntry, asset: 'USDC' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // INVALID_APTOS_ADDRESS, INVALID_APTOS_ASSET, APTOS_ADDRESS_NOT_CANONICAL
+    const aptosEntry = {
+      scheme: 'exact',
+      network: 'aptos:1',
+      amount: '1000000',
+      asset: '0x1::aptos_coin::AptosCoin',
+      payTo: '0x' + 'a1'.repeat(32),
+      maxTimeoutSeconds: 60,
+    }
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          { ...aptosEntry, payTo: 'not-an-aptos-address' },
+          { ...aptosEntry, payTo: '0xa1a1' },
+          { ...aptosEntry, asset: 'APT' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // INVALID_COSMOS_ADDRESS, BAD_COSMOS_CHECKSUM, COSMOS_PREFIX_MISMATCH
+    const nobleEntry = {
+      scheme: 'exact',
+      network: 'cosmos:noble-1',
+      amount: '10000',
+      asset: 'uusdc',
+      payTo: 'noble1vqpjljwsynsn58dugz0w8ut7kun7t8lszrrngw',
+      maxTimeoutSeconds: 60,
+    }
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          { ...nobleEntry, payTo: 'not-a-bech32-address' },
+          { ...nobleEntry, payTo: 'noble1vqpjljwsynsn58dugz0w8ut7kun7t8lszrrngq' },
+          { ...nobleEntry, payTo: 'cosmos1vqpjljwsynsn58dugz0w8ut7kun7t8ls2qkmsq' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // INVALID_*_REFERENCE: CAIP-2 references that violate their namespace's shape
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: ['eip155:base', 'solana:1', 'stacks:0', 'stellar:public', 'aptos:mainnet', 'cosmos:noble_1'].map(
+          (network) => ({
+            scheme: 'exact',
+            network,
+            amount: '10000',
+            asset: 'asset',
+            payTo: 'recipient',
+            maxTimeoutSeconds: 60,
+          }),
+        ),
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // ASSET_NETWORK_MISMATCH
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          {
+            scheme: 'exact',
+            network: 'eip155:84532',
+            amount: '10000',
+            asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            maxTimeoutSeconds: 60,
+          },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // PAY_TO_ZERO_ADDRESS, PAY_TO_BURN_ADDRESS, PAY_TO_PRECOMPILE, PAY_TO_IS_ASSET, PAY_TO_KNOWN_ASSET
+    const evmPayToEntry = {
+      scheme: 'exact',
+      network: 'eip155:8453',
+      amount: '10000',
+      asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      maxTimeoutSeconds: 60,
+      extra: { name: 'USD Coin', version: '2' },
+    }
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          { ...evmPayToEntry, payTo: '0x0000000000000000000000000000000000000000' },
+          { ...evmPayToEntry, payTo: '0x000000000000000000000000000000000000dEaD' },
+          { ...evmPayToEntry, payTo: '0x0000000000000000000000000000000000000002' },
+          { ...evmPayToEntry, payTo: evmPayToEntry.asset },
+          { ...evmPayToEntry, payTo: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // AMOUNT_ABOVE_MAX_PRICE, AMOUNT_BELOW_MIN_PRICE (price bounds), AMOUNT_LIKELY_DECIMALS_MISTAKE,
+    // AMOUNT_PRECISION_EXCEEDED, AMOUNT_OUT_OF_RANGE, AMOUNT_LEADING_ZEROS
+    const usdcEntry = {
+      scheme: 'exact',
+      network: 'eip155:8453',
+      amount: '10000000',
+      asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+      maxTimeoutSeconds: 60,
+    }
+    collect(
+      validate(
+        { x402Version: 2, accepts: [usdcEntry, { ...usdcEntry, amount: '1' }], resource: { url: 'https://example.com' } },
+        { maxPrice: '5.00', minPrice: '0.0001' },
+      ),
+    )
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          { ...usdcEntry, amount: '10000000000000' },
+          { ...usdcEntry, amount: '0.0000001' },
+          { ...usdcEntry, amount: (2n ** 256n).toString() },
+          { ...usdcEntry, amount: '0010000' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // UNKNOWN_FIELD
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [{ ...usdcEntry, amount: '10000', recipient: usdcEntry.payTo }],
+        resource: { url: 'https://example.com' },
+      }),
+    )
+    // DUPLICATE_ACCEPTS_ENTRY, CONFLICTING_ACCEPTS_ENTRIES, MIXED_NETWORKS
+    collect(
+      validate({
+        x402Version: 2,
+        accepts: [
+          usdcEntry,
+          usdcEntry,
+          { ...usdcEntry, amount: '20000000' },
+          { ...usdcEntry, network: 'eip155:84532', asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' },
+        ],
+        resource: { url: 'https://example.com' },
+      }),
+    )
     // LEGACY_FORMAT (via v1 config)
     collect(validate({
       x402Version: 1,
       accepts: [{ scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '1000000', asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', maxTimeoutSeconds: 60, resource: { url: 'https://example.com' } }],
     }))
+    // NORMALIZATION_LOSS (v1 entries with different resources)
+    collect(validate({
+      x402Version: 1,
+      accepts: [
+        { scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '1000000', asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', maxTimeoutSeconds: 60, resource: { url: 'https://example.com/a' } },
+        { scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '2000000', asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', maxTimeoutSeconds: 60, resource: { url: 'https://example.com/b' } },
+      ],
+    }))
     // INVALID_EVM_ADDRESS
     collect(
       validate({
@@ -432,12 +696,14 @@ describe('error code coverage', () => {
       'STACKS_NETWORK_MISMATCH',
       // Manifest cross-endpoint and bazaar codes (exercised in manifest-validation.test.ts)
       'DUPLICATE_ENDPOINT_URL',
-      'MIXED_NETWORKS',
       'DUPLICATE_BAZAAR_ROUTE',
       'BAZAAR_GET_WITH_BODY',
       'BAZAAR_GET_MISSING_QUERY_PARAMS',
       'BAZAAR_POST_WITH_QUERY_PARAMS',
       'BAZAAR_POST_MISSING_BODY',
+      // Custom rule codes: only produced by user-supplied rules (exercised in custom-rules.test.ts)
+      'CUSTOM_RULE',
+      'CUSTOM_RULE_FAILED',
     ]
     const trulyMissing = missing.filter((m) => !expectedUnreachableFromPipeline.includes(m))
     expect(trulyMissing).toEqual([])
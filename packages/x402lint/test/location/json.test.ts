@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest'
+import { readFileSync, readdirSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { parseJsonWithLocations } from '../../src/location/json'
+
+const FIXTURES = resolve(__dirname, '../fixtures')
+
+describe('parseJsonWithLocations — JSON.parse parity', () => {
+  test.each([
+    '{}',
+    '[]',
+    '  {"a": [1, -2.5e3, 0, true, false, null]}  ',
+    '"plain string"',
+    '"esc \\" \\\\ \\/ \\b \\f \\n \\r \\t \\u00e9 \\ud83d\\ude00"',
+    '{"a": 1, "a": 2}',
+    '{"__proto__": {"polluted": true}}',
+    '1e-7',
+    '\r\n\t{"x":\r\n{"y":[]}}',
+  ])('parses %j like JSON.parse', (text) => {
+    const { value, error } = parseJsonWithLocations(text)
+    expect(error).toBeNull()
+    expect(value).toStrictEqual(JSON.parse(text))
+  })
+
+  test('"__proto__" becomes an own property', () => {
+    const { value } = parseJsonWithLocations('{"__proto__": {"polluted": true}}')
+    expect(Object.keys(value as object)).toEqual(['__proto__'])
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  test.each(['', '{', '{"a":}', '{"a":1,}', '[1,]', '01', '1.', '-', '"\\x"', '"a\nb"', "{'a':1}", 'tru', '{} {}', '﻿{}', 'NaN'])(
+    'rejects %j like JSON.parse',
+    (text) => {
+      expect(() => JSON.parse(text)).toThrow()
+      const { error } = parseJsonWithLocations(text)
+      expect(error).not.toBeNull()
+    },
+  )
+
+  test('parses every fixture identically to JSON.parse', () => {
+    const files = readdirSync(FIXTURES).filter((f) => f.endsWith('.json'))
+    for (const file of files) {
+      const text = readFileSync(resolve(FIXTURES, file), 'utf-8')
+      expect(parseJsonWithLocations(text).value).toStrictEqual(JSON.parse(text))
+    }
+  })
+})
+
+describe('parseJsonWithLocations — locations', () => {
+  const text = ['{', '  "accepts": [', '    { "payTo": "0xabc" }', '  ],', '  "a/b": 1', '}'].join('\n')
+  const { locations } = parseJsonWithLocations(text)
+
+  test('root spans the whole document', () => {
+    const root = locations.get('')!
+    expect(root.key).toBeUndefined()
+    expect(root.value.start).toEqual({ line: 1, column: 1, offset: 0 })
+    expect(root.value.end.line).toBe(6)
+    expect(root.value.end.column).toBe(2)
+  })
+
+  test('records value and key ranges by JSON Pointer', () => {
+    const payTo = locations.get('/accepts/0/payTo')!
+    expect(payTo.value.start).toMatchObject({ line: 3, column: 16 })
+    expect(payTo.value.end).toMatchObject({ line: 3, column: 23 })
+    expect(payTo.key!.start).toMatchObject({ line: 3, column: 7 })
+    expect(text.slice(payTo.value.start.offset, payTo.value.end.offset)).toBe('"0xabc"')
+  })
+
+  test('array elements have no key range', () => {
+    const entry = locations.get('/accepts/0')!
+    expect(entry.key).toBeUndefined()
+    expect(entry.value.start).toMatchObject({ line: 3, column: 5 })
+  })
+
+  test('escapes "/" in pointer segments', () => {
+    expect(locations.get('/a~1b')!.value.start).toMatchObject({ line: 5, column: 10 })
+  })
+
+  test('syntax errors report the position where parsing stopped', () => {
+    const { error, value } = parseJsonWithLocations('{\n  "a": 1,\n  "b": }')
+    expect(value).toBeNull()
+    expect(error!.position).toMatchObject({ line: 3, column: 8 })
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest'
+import { parseJsonWithLocations } from '../../src/location/json'
+import { parseFieldPath, toJsonPointer, locateField, locateIssues } from '../../src/location/locate'
+import { ErrorCode } from '../../src/types/errors'
+import type { ValidationIssue } from '../../src/types/validation'
+
+describe('parseFieldPath', () => {
+  test.each([
+    ['$', []],
+    ['accepts', ['accepts']],
+    ['accepts[0].payTo', ['accepts', 0, 'payTo']],
+    ['extensions.bazaar.info.input', ['extensions', 'bazaar', 'info', 'input']],
+    ['endpoints["api/weather"].accepts[1]', ['endpoints', 'api/weather', 'accepts', 1]],
+    ['endpoints["a.b"]', ['endpoints', 'a.b']],
+  ])('%s', (field, expected) => {
+    expect(parseFieldPath(field)).toEqual(expected)
+  })
+
+  test.each(['accepts[x]', 'accepts[0', 'endpoints["a]', 'a..b'])('rejects malformed %s', (field) => {
+    expect(parseFieldPath(field)).toBeNull()
+  })
+})
+
+describe('toJsonPointer', () => {
+  test('converts field paths to RFC 6901 pointers', () => {
+    expect(toJsonPointer('$')).toBe('')
+    expect(toJsonPointer('accepts[0].payTo')).toBe('/accepts/0/payTo')
+    expect(toJsonPointer('endpoints["a/b~c"].resource')).toBe('/endpoints/a~1b~0c/resource')
+  })
+})
+
+describe('locateField', () => {
+  const { locations } = parseJsonWithLocations(
+    '{\n  "x402Version": 1,\n  "accepts": [\n    { "maxAmountRequired": "10" }\n  ]\n}',
+  )
+
+  test('falls back to the nearest existing ancestor', () => {
+    expect(locateField('accepts[0].payTo', locations)!.start).toMatchObject({ line: 4, column: 5 })
+    expect(locateField('resource.url', locations)!.start).toMatchObject({ line: 1, column: 1 })
+  })
+
+  test('maps normalized amount to v1 maxAmountRequired', () => {
+    expect(locateField('accepts[0].amount', locations)!.start).toMatchObject({ line: 4, column: 28 })
+  })
+
+  test('malformed paths are not located', () => {
+    expect(locateField('accepts[', locations)).toBeUndefined()
+  })
+})
+
+describe('locateIssues', () => {
+  const { locations } = parseJsonWithLocations('{\n  "x402Version": 3\n}')
+  const issue: ValidationIssue = {
+    code: ErrorCode.INVALID_VERSION,
+    field: 'x402Version',
+    message: 'bad',
+    severity: 'error',
+  }
+
+  test('attaches line, column and range', () => {
+    const [located] = locateIssues([issue], locations)
+    expect(located).toMatchObject({ line: 2, column: 18 })
+    expect(located!.range!.end).toMatchObject({ line: 2, column: 19 })
+    expect(issue.line).toBeUndefined()
+  })
+
+  test('keeps existing ranges', () => {
+    const range = { start: { line: 9, column: 9, offset: 0 }, end: { line: 9, column: 9, offset: 0 } }
+    const [located] = locateIssues([{ ...issue, line: 9, column: 9, range }], locations)
+    expect(located!.line).toBe(9)
+  })
+})
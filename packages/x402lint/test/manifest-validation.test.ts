@@ -302,7 +302,7 @@ describe('validateManifest', () => {
               scheme: 'exact',
               network: 'eip155:84532', // Base testnet
               amount: '100',
-              asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+              asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
               payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
               maxTimeoutSeconds: 60,
             },
@@ -655,6 +655,15 @@ describe('validateManifest', () => {
   })
 
   describe('edge cases', () => {
+    it('malformed price bound options throw once at the entry point', () => {
+      const manifest = makeManifest({ a: makeEndpoint(), b: makeEndpoint() })
+
+      expect(() => validateManifest(manifest, { maxPrice: '$5.00' })).toThrow(
+        new TypeError('maxPrice must be a plain decimal string in asset units, e.g. "5.00", got "$5.00"'),
+      )
+      expect(() => validateManifest(JSON.stringify(manifest), { minPrice: '1e-3' })).toThrow(TypeError)
+    })
+
     it('single endpoint with all warnings but no errors returns valid:true', () => {
       const manifest = makeManifest({
         'api-1': makeEndpoint({ resource: { url: 'https://example.com/api' } }),
@@ -763,4 +772,43 @@ describe('validateManifest', () => {
       expect(result.errors.some((e) => e.code === ErrorCode.BAZAAR_GET_WITH_BODY)).toBe(false)
     })
   })
+
+  describe('source locations', () => {
+    it('JSON string input locates endpoint and manifest issues', () => {
+      const broken = makeEndpoint()
+      broken.accepts[0]!.amount = '0'
+      const testnet = makeEndpoint({ resource: { url: 'https://example.com/testnet' } })
+      testnet.accepts[0]!.network = 'eip155:84532'
+      const text = JSON.stringify(makeManifest({ 'api/main': broken, test: testnet }), null, 2)
+
+      const result = validateManifest(text)
+
+      const zero = result.endpointResults['api/main']!.errors.find((e) => e.code === ErrorCode.ZERO_AMOUNT)!
+      expect(zero.field).toBe('endpoints["api/main"].accepts[0].amount')
+      expect(text.slice(zero.range!.start.offset, zero.range!.end.offset)).toBe('"0"')
+
+      const mixed = result.warnings.find((w) => w.code === ErrorCode.MIXED_NETWORKS)!
+      expect(mixed.line).toBe(2)
+    })
+
+    it('suggestion paths are prefixed with the endpoint pointer', () => {
+      const endpoint = makeEndpoint()
+      endpoint.accepts[0]!.network = 'base'
+      const result = validateManifest(makeManifest({ 'api/v1': endpoint }))
+      const issue = result.endpointResults['api/v1']!.errors.find((e) => e.code === ErrorCode.INVALID_NETWORK_FORMAT)!
+      expect(issue.suggestions![0]!.patch[0]!.path).toBe('/endpoints/api~1v1/accepts/0/network')
+    })
+
+    it('invalid JSON string returns INVALID_JSON', () => {
+      const result = validateManifest('{"endpoints": ')
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]!.code).toBe(ErrorCode.INVALID_JSON)
+      expect(result.errors[0]!.line).toBe(1)
+    })
+
+    it('non-object JSON returns MISSING_ENDPOINTS', () => {
+      const result = validateManifest('null')
+      expect(result.errors[0]!.code).toBe(ErrorCode.MISSING_ENDPOINTS)
+    })
+  })
 })
@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest'
+import { applyPatch, getAtPointer, parsePointer } from '../src/patch'
+
+describe('parsePointer', () => {
+  test('splits and unescapes segments', () => {
+    expect(parsePointer('')).toEqual([])
+    expect(parsePointer('/a/0/b')).toEqual(['a', '0', 'b'])
+    expect(parsePointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d'])
+  })
+
+  test('rejects pointers without a leading slash', () => {
+    expect(() => parsePointer('a/b')).toThrow('Invalid JSON Pointer')
+  })
+})
+
+describe('getAtPointer', () => {
+  const doc = { a: [{ b: 1 }], 'x/y': true }
+
+  test('reads nested values', () => {
+    expect(getAtPointer(doc, '/a/0/b')).toBe(1)
+    expect(getAtPointer(doc, '/x~1y')).toBe(true)
+    expect(getAtPointer(doc, '')).toBe(doc)
+  })
+
+  test('returns undefined for missing paths', () => {
+    expect(getAtPointer(doc, '/a/1/b')).toBeUndefined()
+    expect(getAtPointer(doc, '/toString')).toBeUndefined()
+  })
+})
+
+describe('applyPatch', () => {
+  const doc = () => ({ x402Version: 1, accepts: [{ maxAmountRequired: '10', payTo: '0xabc' }] })
+
+  test('replace keeps key order', () => {
+    const result = applyPatch(doc(), [{ op: 'replace', path: '/accepts/0/payTo', value: '0xABC' }])
+    expect(result.accepts[0]).toEqual({ maxAmountRequired: '10', payTo: '0xABC' })
+    expect(Object.keys(result.accepts[0]!)).toEqual(['maxAmountRequired', 'payTo'])
+  })
+
+  test('add, remove, move, copy and test', () => {
+    const result = applyPatch(doc(), [
+      { op: 'test', path: '/x402Version', value: 1 },
+      { op: 'add', path: '/resource', value: { url: 'https://a.com' } },
+      { op: 'move', from: '/accepts/0/maxAmountRequired', path: '/accepts/0/amount' },
+      { op: 'copy', from: '/accepts/0', path: '/accepts/-' },
+      { op: 'remove', path: '/accepts/1/payTo' },
+    ])
+    expect(result).toEqual({
+      x402Version: 1,
+      accepts: [{ payTo: '0xabc', amount: '10' }, { amount: '10' }],
+      resource: { url: 'https://a.com' },
+    })
+  })
+
+  test('does not mutate the input', () => {
+    const input = doc()
+    applyPatch(input, [{ op: 'replace', path: '/accepts/0/payTo', value: '0x0' }])
+    expect(input).toEqual(doc())
+  })
+
+  test('throws on missing paths and failed tests', () => {
+    expect(() => applyPatch(doc(), [{ op: 'replace', path: '/nope', value: 1 }])).toThrow('Path not found')
+    expect(() => applyPatch(doc(), [{ op: 'remove', path: '/accepts/5' }])).toThrow('out of bounds')
+    expect(() => applyPatch(doc(), [{ op: 'test', path: '/x402Version', value: 2 }])).toThrow('Test failed')
+  })
+})
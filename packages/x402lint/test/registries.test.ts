@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, afterEach } from 'vitest'
 import {
   KNOWN_NETWORKS,
   KNOWN_ASSETS,
@@ -8,10 +8,32 @@ import {
   isKnownNetwork,
   getNetworkInfo,
   getNetworkNamespace,
+  getKnownNetworks,
   getCanonicalNetwork,
   isKnownAsset,
   getAssetInfo,
+  findAssetsByAddress,
+  getNetworkAssets,
+  registerNetwork,
+  registerAsset,
+  registerSimpleName,
+  getSimpleNames,
+  KNOWN_SCHEMES,
+  isKnownScheme,
+  getSchemeInfo,
+  getKnownSchemes,
+  isSchemeSupportedOnNamespace,
+  registerScheme,
+  resetRegistries,
+  parseTokenList,
+  parseChainList,
+  diffRegistry,
 } from '../src/index'
+import { hasMixedNetworks } from '../src/validation/rules'
+
+afterEach(() => {
+  resetRegistries()
+})
 
 describe('CAIP-2 validation', () => {
   it('validates correct CAIP-2 format', () => {
@@ -38,6 +60,13 @@ describe('network registry', () => {
     expect(isKnownNetwork('eip155:43113')).toBe(true) // Avalanche Fuji
     expect(isKnownNetwork('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')).toBe(true)
     expect(isKnownNetwork('stellar:pubnet')).toBe(true)
+    expect(isKnownNetwork('cosmos:noble-1')).toBe(true)
+    expect(getNetworkInfo('cosmos:noble-1')?.bech32Prefix).toBe('noble')
+  })
+
+  it('lists known networks', () => {
+    expect(getKnownNetworks()).toContain('eip155:8453')
+    expect(getKnownNetworks()).toContain('cosmos:noble-1')
   })
 
   it('returns correct network info', () => {
@@ -64,6 +93,7 @@ describe('simple name mapping', () => {
     expect(getCanonicalNetwork('base')).toBe('eip155:8453')
     expect(getCanonicalNetwork('solana')).toBe('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')
     expect(getCanonicalNetwork('stellar')).toBe('stellar:pubnet')
+    expect(getCanonicalNetwork('noble')).toBe('cosmos:noble-1')
   })
 
   it('is case-insensitive', () => {
@@ -105,4 +135,215 @@ describe('asset registry', () => {
       getAssetInfo('eip155:999999', '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'),
     ).toBeUndefined()
   })
+
+  it('finds assets by address across networks', () => {
+    const matches = findAssetsByAddress('0x833589FCD6EDB6E08F4C7C32D4F71B54BDA02913')
+    expect(matches.map((m) => m.network)).toEqual(['eip155:8453'])
+    expect(matches[0]!.info.symbol).toBe('USDC')
+    expect(findAssetsByAddress('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v').map((m) => m.network)).toEqual([
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    ])
+    expect(findAssetsByAddress('0x0000000000000000000000000000000000000000')).toEqual([])
+  })
+
+  it('lists the assets on a network', () => {
+    expect(getNetworkAssets('eip155:84532')).toEqual([
+      { address: '0x036cbd53842c5426634e7929541ec2318f3dcf7e', info: expect.objectContaining({ symbol: 'USDC' }) },
+    ])
+    expect(getNetworkAssets('eip155:999999')).toEqual([])
+  })
+})
+
+describe('scheme registry', () => {
+  it('knows exact and upto', () => {
+    expect(Object.keys(KNOWN_SCHEMES)).toEqual(['exact', 'upto'])
+    expect(isKnownScheme('exact')).toBe(true)
+    expect(isKnownScheme('upto')).toBe(true)
+    expect(isKnownScheme('Exact')).toBe(false)
+    expect(isKnownScheme('toString')).toBe(false)
+  })
+
+  it('getSchemeInfo returns metadata', () => {
+    expect(getSchemeInfo('exact')?.name).toBe('Exact')
+    expect(getSchemeInfo('nope')).toBeUndefined()
+  })
+
+  it('tracks supported namespaces per scheme', () => {
+    expect(isSchemeSupportedOnNamespace('exact', 'solana')).toBe(true)
+    expect(isSchemeSupportedOnNamespace('upto', 'eip155')).toBe(true)
+    expect(isSchemeSupportedOnNamespace('upto', 'solana')).toBe(false)
+    expect(isSchemeSupportedOnNamespace('nope', 'eip155')).toBe(false)
+  })
+
+  it('registerScheme makes a scheme known', () => {
+    registerScheme('stream', { name: 'Stream', description: 'Pay per second', namespaces: ['eip155'] })
+    expect(isKnownScheme('stream')).toBe(true)
+    expect(getKnownSchemes()).toContain('stream')
+    expect(() => registerScheme('', { name: 'X', description: 'X', namespaces: [] })).toThrow()
+  })
+
+  it('resetRegistries forgets registered schemes', () => {
+    expect(isKnownScheme('stream')).toBe(false)
+  })
+})
+
+describe('runtime registration', () => {
+  it('registerNetwork makes a network known', () => {
+    expect(isKnownNetwork('eip155:424242')).toBe(false)
+    registerNetwork('eip155:424242', { name: 'Private L2', type: 'evm', testnet: false })
+    expect(isKnownNetwork('eip155:424242')).toBe(true)
+    expect(getNetworkInfo('eip155:424242')).toEqual({ name: 'Private L2', type: 'evm', testnet: false })
+  })
+
+  it('registerNetwork rejects invalid CAIP-2 identifiers', () => {
+    expect(() => registerNetwork('private', { name: 'X', type: 'evm', testnet: false })).toThrow('Invalid CAIP-2')
+  })
+
+  it('registerAsset makes an asset known with case-insensitive EVM lookup', () => {
+    const address = '0x00000000000000000000000000000000000000Aa'
+    registerNetwork('eip155:424242', { name: 'Private L2', type: 'evm', testnet: false })
+    expect(isKnownAsset('eip155:424242', address)).toBe(false)
+    registerAsset('eip155:424242', address, { symbol: 'HUSD', name: 'House USD', decimals: 6 })
+    expect(isKnownAsset('eip155:424242', address.toLowerCase())).toBe(true)
+    expect(getAssetInfo('eip155:424242', address)?.symbol).toBe('HUSD')
+  })
+
+  it('registered assets do not shadow built-in assets on other networks', () => {
+    expect(getAssetInfo('eip155:8453', '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913')?.symbol).toBe('USDC')
+  })
+
+  it('registerSimpleName maps a name case-insensitively', () => {
+    registerNetwork('eip155:424242', { name: 'Private L2', type: 'evm', testnet: false })
+    expect(getCanonicalNetwork('house-l2')).toBeUndefined()
+    registerSimpleName('House-L2', 'eip155:424242')
+    expect(getCanonicalNetwork('house-l2')).toBe('eip155:424242')
+    expect(getSimpleNames()['house-l2']).toBe('eip155:424242')
+    expect(getSimpleNames().base).toBe('eip155:8453')
+    expect(() => registerSimpleName('house', 'house')).toThrow('Invalid CAIP-2')
+  })
+
+  it('mixed-network checks honor registered networks and simple names', () => {
+    registerNetwork('eip155:424242', { name: 'Private L2', type: 'evm', testnet: false })
+    registerNetwork('eip155:424243', { name: 'House Testnet', type: 'evm', testnet: true })
+    registerSimpleName('house-testnet', 'eip155:424243')
+    expect(hasMixedNetworks(['eip155:8453', 'eip155:424243'])).toBe(true)
+    expect(hasMixedNetworks(['base', 'house-testnet'])).toBe(true)
+    expect(hasMixedNetworks(['eip155:8453', 'eip155:424242'])).toBe(false)
+  })
+
+  it('resetRegistries leaves only the built-in entries', () => {
+    registerNetwork('eip155:424242', { name: 'Private L2', type: 'evm', testnet: false })
+    registerAsset('eip155:8453', '0x00000000000000000000000000000000000000Aa', { symbol: 'HUSD', name: 'House USD', decimals: 6 })
+    registerSimpleName('house-l2', 'eip155:424242')
+    resetRegistries()
+    expect(isKnownNetwork('eip155:424242')).toBe(false)
+    expect(isKnownAsset('eip155:8453', '0x00000000000000000000000000000000000000Aa')).toBe(false)
+    expect(getCanonicalNetwork('house-l2')).toBeUndefined()
+    expect(getKnownNetworks()).toEqual(Object.keys(KNOWN_NETWORKS))
+    expect(getNetworkAssets('eip155:8453').map((a) => a.address)).toEqual(Object.keys(KNOWN_ASSETS['eip155:8453']))
+  })
 })
+
+describe('token list import', () => {
+  const tokenList = (tokens: unknown[]) => ({
+    name: 'House',
+    timestamp: '2026-01-01T00:00:00Z',
+    version: { major: 1, minor: 0, patch: 0 },
+    tokens,
+  })
+  const husd = { chainId: 424242, address: '0x00000000000000000000000000000000000000Aa', name: 'House USD', symbol: 'HUSD', decimals: 6 }
+
+  it('maps tokens to eip155 assets', () => {
+    const result = parseTokenList(tokenList([{ ...husd, logoURI: 'https://example.com/husd.png', tags: ['stablecoin'] }]))
+    expect(result.assets).toEqual({
+      'eip155:424242': { '0x00000000000000000000000000000000000000Aa': { symbol: 'HUSD', name: 'House USD', decimals: 6 } },
+    })
+    expect(result.conflicts).toEqual([])
+  })
+
+  it('reports tokens that disagree with the built-in registry', () => {
+    const result = parseTokenList(
+      tokenList([{ chainId: 8453, address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', name: 'USD Coin', symbol: 'USDC', decimals: 18 }]),
+    )
+    expect(result.conflicts).toEqual([
+      {
+        entry: 'asset',
+        change: 'changed',
+        network: 'eip155:8453',
+        address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        differences: [{ field: 'decimals', builtIn: 6, value: 18 }],
+      },
+    ])
+  })
+
+  it.each([
+    [[], 'Token list must be a JSON object'],
+    [{ ...tokenList([]), version: '1.0.0' }, '"version" must be { major, minor, patch }'],
+    [{ ...tokenList([]), timestamp: 'yesterday' }, '"timestamp" must be an ISO 8601'],
+    [tokenList([{ ...husd, chainId: 0 }]), 'tokens[0].chainId must be a positive integer'],
+    [tokenList([{ ...husd, address: 'HUSD' }]), 'tokens[0].address must be a 0x-prefixed'],
+    [tokenList([{ ...husd, decimals: 256 }]), 'tokens[0].decimals must be an integer from 0 to 255'],
+    [tokenList([{ ...husd, symbol: '' }]), 'tokens[0].symbol must be a string of 1-20 characters'],
+    [tokenList([husd, { ...husd, address: husd.address.toLowerCase() }]), 'tokens[1]: duplicate token'],
+  ])('rejects invalid token list %#', (value, message) => {
+    expect(() => parseTokenList(value)).toThrow(message)
+  })
+})
+
+describe('chain list import', () => {
+  it('maps chains to eip155 networks with the testnet flag', () => {
+    const result = parseChainList([
+      { name: 'House L2', chainId: 424242, shortName: 'house', isTestnet: false },
+      { name: 'House L2 Sepolia', chainId: 424243 },
+    ])
+    expect(result.networks).toEqual({
+      'eip155:424242': { name: 'House L2', type: 'evm', testnet: false },
+      'eip155:424243': { name: 'House L2 Sepolia', type: 'evm', testnet: true },
+    })
+    expect(result.conflicts).toEqual([])
+  })
+
+  it('reports chains that disagree with the built-in registry', () => {
+    const result = parseChainList([{ name: 'Base Mainnet', chainId: 8453, isTestnet: false }])
+    expect(result.conflicts).toEqual([
+      {
+        entry: 'network',
+        change: 'changed',
+        network: 'eip155:8453',
+        differences: [{ field: 'name', builtIn: 'Base', value: 'Base Mainnet' }],
+      },
+    ])
+  })
+
+  it.each([
+    [{ chains: [] }, 'Chain list must be a JSON array'],
+    [[{ name: 'X', chainId: '1' }], '[0].chainId must be a positive integer'],
+    [[{ chainId: 1 }], '[0].name must be a non-empty string'],
+    [[{ name: 'X', chainId: 1, isTestnet: 'no' }], '[0].isTestnet must be a boolean'],
+    [[{ name: 'X', chainId: 1 }, { name: 'Y', chainId: 1 }], '[1]: duplicate chainId 1'],
+  ])('rejects invalid chain list %#', (value, message) => {
+    expect(() => parseChainList(value)).toThrow(message)
+  })
+})
+
+describe('registry diff', () => {
+  it('lists added and changed entries and omits identical ones', () => {
+    const diffs = diffRegistry({
+      networks: { 'eip155:8453': { name: 'Base', type: 'evm', testnet: false } },
+      assets: { 'eip155:424242': { '0xabc': { symbol: 'X', name: 'X', decimals: 6 } } },
+      simpleNames: { base: 'eip155:84532', house: 'eip155:424242' },
+    })
+    expect(diffs).toEqual([
+      { entry: 'asset', change: 'added', network: 'eip155:424242', address: '0xabc', differences: [] },
+      {
+        entry: 'simpleName',
+        change: 'changed',
+        network: 'eip155:84532',
+        name: 'base',
+        differences: [{ field: 'network', builtIn: 'eip155:8453', value: 'eip155:84532' }],
+      },
+      { entry: 'simpleName', change: 'added', network: 'eip155:424242', name: 'house', differences: [] },
+    ])
+  })
+})
+
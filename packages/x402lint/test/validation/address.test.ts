@@ -114,27 +114,28 @@ describe('validateAddress', () => {
   })
 
   describe('Stellar namespace', () => {
-    test('accepts any address (deep validation deferred)', () => {
+    test('valid account address passes', () => {
       const issues = validateAddress(
-        'GBDEVU63Y6NTHJQQZIKVTC23NWLQVP3WJ2RI2OTSJTNYOIGICST6DUXR',
+        'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ',
         'stellar:pubnet',
         'accepts[0].payTo'
       )
       expect(issues).toHaveLength(0)
     })
 
-    test('accepts even invalid-looking addresses', () => {
+    test('invalid address produces INVALID_STELLAR_ADDRESS', () => {
       const issues = validateAddress(
         'not-a-real-stellar-address',
         'stellar:pubnet',
         'accepts[0].payTo'
       )
-      expect(issues).toHaveLength(0)
+      expect(issues).toHaveLength(1)
+      expect(issues[0]?.code).toBe(ErrorCode.INVALID_STELLAR_ADDRESS)
     })
   })
 
   describe('Aptos namespace', () => {
-    test('accepts any address (deep validation deferred)', () => {
+    test('special short address passes', () => {
       const issues = validateAddress(
         '0x1',
         'aptos:1',
@@ -143,14 +144,45 @@ describe('validateAddress', () => {
       expect(issues).toHaveLength(0)
     })
 
-    test('accepts longer addresses', () => {
+    test('short-form address warns with canonical long form', () => {
       const issues = validateAddress(
         '0x1234567890abcdef',
         'aptos:1',
         'accepts[0].payTo'
       )
+      expect(issues).toHaveLength(1)
+      expect(issues[0]?.code).toBe(ErrorCode.APTOS_ADDRESS_NOT_CANONICAL)
+      expect(issues[0]?.severity).toBe('warning')
+    })
+
+    test('non-hex address is an error', () => {
+      const issues = validateAddress(
+        'not-an-aptos-address',
+        'aptos:1',
+        'accepts[0].payTo'
+      )
+      expect(issues[0]?.code).toBe(ErrorCode.INVALID_APTOS_ADDRESS)
+    })
+  })
+
+  describe('Cosmos namespace', () => {
+    test('address with the chain prefix passes', () => {
+      const issues = validateAddress(
+        'noble1vqpjljwsynsn58dugz0w8ut7kun7t8lszrrngw',
+        'cosmos:noble-1',
+        'accepts[0].payTo'
+      )
       expect(issues).toHaveLength(0)
     })
+
+    test('address from another chain produces COSMOS_PREFIX_MISMATCH', () => {
+      const issues = validateAddress(
+        'cosmos1vqpjljwsynsn58dugz0w8ut7kun7t8ls2qkmsq',
+        'cosmos:noble-1',
+        'accepts[0].payTo'
+      )
+      expect(issues[0]?.code).toBe(ErrorCode.COSMOS_PREFIX_MISMATCH)
+    })
   })
 
   describe('unknown namespaces', () => {
@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest'
+import { toCanonicalAptosAddress, validateAptosAddress, validateAptosAsset } from '../../src/validation/aptos-address'
+import { ErrorCode } from '../../src/types/errors'
+
+const LONG = '0x' + 'a1'.repeat(32)
+const USDC_METADATA = '0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b'
+
+describe('toCanonicalAptosAddress', () => {
+  test('special addresses 0x0-0xf keep the short form', () => {
+    expect(toCanonicalAptosAddress('0x1')).toBe('0x1')
+    expect(toCanonicalAptosAddress('0x0000000000000000000000000000000000000000000000000000000000000001')).toBe('0x1')
+    expect(toCanonicalAptosAddress('0x000')).toBe('0x0')
+  })
+
+  test('other addresses are padded to 64 lowercase hex characters', () => {
+    expect(toCanonicalAptosAddress('0x10')).toBe('0x' + '0'.repeat(62) + '10')
+    expect(toCanonicalAptosAddress('0xABC')).toBe('0x' + '0'.repeat(61) + 'abc')
+  })
+})
+
+describe('validateAptosAddress', () => {
+  test('canonical long-form address passes', () => {
+    expect(validateAptosAddress(LONG, 'accepts[0].payTo')).toHaveLength(0)
+  })
+
+  test('special short address passes', () => {
+    expect(validateAptosAddress('0x1', 'accepts[0].payTo')).toHaveLength(0)
+  })
+
+  test('short form gets a warning with a safe canonical fix', () => {
+    const issues = validateAptosAddress('0x1234567890abcdef', 'accepts[0].payTo')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.APTOS_ADDRESS_NOT_CANONICAL)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.suggestions).toEqual([
+      {
+        label: 'Use canonical Aptos address',
+        safe: true,
+        patch: [{ op: 'replace', path: '/accepts/0/payTo', value: '0x' + '0'.repeat(48) + '1234567890abcdef' }],
+      },
+    ])
+  })
+
+  test('uppercase hex is not canonical', () => {
+    const issues = validateAptosAddress(LONG.toUpperCase().replace('0X', '0x'), 'accepts[0].payTo')
+    expect(issues[0]?.code).toBe(ErrorCode.APTOS_ADDRESS_NOT_CANONICAL)
+  })
+
+  test('missing 0x prefix is an error', () => {
+    const issues = validateAptosAddress('a1'.repeat(32), 'accepts[0].payTo')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_APTOS_ADDRESS)
+    expect(issues[0]!.message).toContain('0x')
+  })
+
+  test('more than 64 hex characters is an error', () => {
+    const issues = validateAptosAddress(LONG + 'a', 'accepts[0].payTo')
+    expect(issues[0]?.code).toBe(ErrorCode.INVALID_APTOS_ADDRESS)
+  })
+
+  test('non-hex characters are an error', () => {
+    const issues = validateAptosAddress('0xzz', 'accepts[0].payTo')
+    expect(issues[0]?.code).toBe(ErrorCode.INVALID_APTOS_ADDRESS)
+  })
+})
+
+describe('validateAptosAsset', () => {
+  test('fungible asset metadata address passes', () => {
+    expect(validateAptosAsset(USDC_METADATA, 'accepts[0].asset')).toHaveLength(0)
+  })
+
+  test('coin struct tag passes', () => {
+    expect(validateAptosAsset('0x1::aptos_coin::AptosCoin', 'accepts[0].asset')).toHaveLength(0)
+  })
+
+  test('struct tag with type arguments passes', () => {
+    expect(validateAptosAsset('0x1::coin::Coin<0x1::aptos_coin::AptosCoin>', 'accepts[0].asset')).toHaveLength(0)
+  })
+
+  test('short-form struct tag address gets the canonical coin type', () => {
+    const issues = validateAptosAsset('0xabc::usdc::USDC', 'accepts[0].asset')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.APTOS_ADDRESS_NOT_CANONICAL)
+    expect(issues[0]!.suggestions?.[0]?.patch).toEqual([
+      { op: 'replace', path: '/accepts/0/asset', value: `0x${'0'.repeat(61)}abc::usdc::USDC` },
+    ])
+  })
+
+  test('short-form metadata address warns unless it is a special address', () => {
+    const issues = validateAptosAsset('0xa', 'accepts[0].asset')
+    expect(issues).toHaveLength(0)
+    expect(validateAptosAsset('0xab', 'accepts[0].asset')[0]?.code).toBe(ErrorCode.APTOS_ADDRESS_NOT_CANONICAL)
+  })
+
+  test('malformed struct tags are INVALID_APTOS_ASSET', () => {
+    for (const asset of ['0x1::aptos_coin', '0x1::aptos-coin::AptosCoin', 'aptos::coin::Coin', '0x1::coin::Coin<0x1']) {
+      const issues = validateAptosAsset(asset, 'accepts[0].asset')
+      expect(issues[0]?.code).toBe(ErrorCode.INVALID_APTOS_ASSET)
+    }
+  })
+
+  test('non-address asset is INVALID_APTOS_ASSET', () => {
+    const issues = validateAptosAsset('USDC', 'accepts[0].asset')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_APTOS_ASSET)
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, test, expect } from 'vitest'
+import { validateCosmosAddress } from '../../src/validation/cosmos-address'
+import { encodeBech32, decodeBech32 } from '../../src/crypto/bech32'
+import { ErrorCode } from '../../src/types/errors'
+
+const COSMOS = 'cosmos1vqpjljwsynsn58dugz0w8ut7kun7t8ls2qkmsq'
+const NOBLE = 'noble1vqpjljwsynsn58dugz0w8ut7kun7t8lszrrngw'
+const OSMO = encodeBech32('osmo', decodeBech32(COSMOS).bytes)
+
+describe('validateCosmosAddress', () => {
+  describe('valid addresses', () => {
+    test('noble address on Noble', () => {
+      expect(validateCosmosAddress(NOBLE, 'cosmos:noble-1', 'accepts[0].payTo')).toHaveLength(0)
+    })
+
+    test('noble address on Noble testnet', () => {
+      expect(validateCosmosAddress(NOBLE, 'cosmos:grand-1', 'accepts[0].payTo')).toHaveLength(0)
+    })
+
+    test('32-byte contract address', () => {
+      const contract = encodeBech32('neutron', new Uint8Array(32).fill(7))
+      expect(validateCosmosAddress(contract, 'cosmos:neutron-1', 'accepts[0].payTo')).toHaveLength(0)
+    })
+
+    test('any prefix on an unknown Cosmos chain', () => {
+      expect(validateCosmosAddress(OSMO, 'cosmos:unknown-1', 'accepts[0].payTo')).toHaveLength(0)
+    })
+  })
+
+  describe('prefix mismatch', () => {
+    test('names the other chain and the expected prefix', () => {
+      const issues = validateCosmosAddress(OSMO, 'cosmos:noble-1', 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.COSMOS_PREFIX_MISMATCH)
+      expect(issues[0]!.severity).toBe('error')
+      expect(issues[0]!.message).toContain('Osmosis address')
+      expect(issues[0]!.fix).toContain('noble1')
+      expect(issues[0]!.suggestions).toEqual([
+        {
+          label: 'Use the noble prefix (same key; verify the wallet controls it)',
+          safe: false,
+          patch: [{ op: 'replace', path: '/accepts/0/payTo', value: NOBLE }],
+        },
+      ])
+    })
+
+    test('unrecognized prefix', () => {
+      const other = encodeBech32('zzz', decodeBech32(COSMOS).bytes)
+      const issues = validateCosmosAddress(other, 'cosmos:noble-1', 'accepts[0].payTo')
+      expect(issues[0]!.code).toBe(ErrorCode.COSMOS_PREFIX_MISMATCH)
+      expect(issues[0]!.message).toContain('prefix "zzz"')
+    })
+  })
+
+  describe('invalid addresses', () => {
+    test('bad checksum produces BAD_COSMOS_CHECKSUM', () => {
+      const issues = validateCosmosAddress(NOBLE.slice(0, -1) + 'q', 'cosmos:noble-1', 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.BAD_COSMOS_CHECKSUM)
+    })
+
+    test('EVM address produces INVALID_COSMOS_ADDRESS', () => {
+      const issues = validateCosmosAddress('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', 'cosmos:noble-1', 'accepts[0].payTo')
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_COSMOS_ADDRESS)
+      expect(issues[0]!.fix).toContain('noble1')
+    })
+
+    test('wrong payload length', () => {
+      const short = encodeBech32('noble', new Uint8Array(16))
+      const issues = validateCosmosAddress(short, 'cosmos:noble-1', 'accepts[0].payTo')
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_COSMOS_ADDRESS)
+      expect(issues[0]!.message).toContain('got 16')
+    })
+
+    test('bech32m checksum is rejected', () => {
+      const issues = validateCosmosAddress(
+        'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+        'cosmos:noble-1',
+        'accepts[0].payTo',
+      )
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_COSMOS_ADDRESS)
+      expect(issues[0]!.message).toContain('bech32m')
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, test, expect } from 'vitest'
+import { validate } from '../../src/validation/orchestrator'
+import { validateManifest } from '../../src/validation/manifest'
+import { ErrorCode } from '../../src/types/errors'
+import type { CustomRule } from '../../src/types/rules'
+import type { V2Config } from '../../src/types/config'
+
+const PAY_TO = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'
+
+/** Helper: make a valid v2 config object */
+function v2Config(overrides: Partial<V2Config> = {}): V2Config {
+  return {
+    x402Version: 2,
+    accepts: [
+      {
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: '1000000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: PAY_TO,
+        maxTimeoutSeconds: 300,
+      },
+    ],
+    resource: { url: 'https://example.com/api/data' },
+    extensions: { bazaar: { info: { input: { type: 'http', method: 'POST', body: {} }, output: {} }, schema: { type: 'object' } } },
+    ...overrides,
+  }
+}
+
+/** Rule: payTo must be on an allow-list */
+const approvedPayTo: CustomRule = {
+  name: 'approved-pay-to',
+  entry: ({ entry, fieldPath }) =>
+    entry.payTo === PAY_TO
+      ? []
+      : [{ field: `${fieldPath}.payTo`, message: 'payTo is not an approved wallet', severity: 'error' }],
+}
+
+describe('custom rules in validate()', () => {
+  test('entry rule receives entry, index, field path, normalized config and raw input', () => {
+    const seen: unknown[] = []
+    const rule: CustomRule = {
+      name: 'spy',
+      entry: (ctx) => {
+        seen.push({ index: ctx.index, fieldPath: ctx.fieldPath, format: ctx.format })
+        expect(ctx.config.x402Version).toBe(2)
+        expect(ctx.parsed).toHaveProperty('accepts')
+        expect(ctx.entry).toBe(ctx.config.accepts[ctx.index])
+        return []
+      },
+    }
+
+    const config = v2Config()
+    config.accepts.push({ ...config.accepts[0]! })
+    validate(config, { customRules: [rule] })
+
+    expect(seen).toEqual([
+      { index: 0, fieldPath: 'accepts[0]', format: 'v2' },
+      { index: 1, fieldPath: 'accepts[1]', format: 'v2' },
+    ])
+  })
+
+  test('passing entry rule keeps config valid', () => {
+    const result = validate(v2Config(), { customRules: [approvedPayTo] })
+    expect(result.valid).toBe(true)
+    expect(result.errors).toHaveLength(0)
+  })
+
+  test('failing entry rule produces CUSTOM_RULE error stamped with rule name', () => {
+    const config = v2Config()
+    config.accepts[0]!.payTo = '0x0000000000000000000000000000000000000001'
+    const result = validate(config, { customRules: [approvedPayTo] })
+
+    expect(result.valid).toBe(false)
+    const issue = result.errors.find((e) => e.rule === 'approved-pay-to')
+    expect(issue).toBeDefined()
+    expect(issue!.code).toBe(ErrorCode.CUSTOM_RULE)
+    expect(issue!.field).toBe('accepts[0].payTo')
+  })
+
+  test('custom rule may report an existing error code', () => {
+    const rule: CustomRule = {
+      name: 'house-pricing',
+      entry: ({ fieldPath }) => [
+        { code: ErrorCode.INVALID_AMOUNT, field: `${fieldPath}.amount`, message: 'Price above house limit', severity: 'error' },
+      ],
+    }
+    const result = validate(v2Config(), { customRules: [rule] })
+    expect(result.errors[0]!.code).toBe(ErrorCode.INVALID_AMOUNT)
+    expect(result.errors[0]!.rule).toBe('house-pricing')
+  })
+
+  test('custom warnings land in warnings and are promoted by strict mode', () => {
+    const rule: CustomRule = {
+      name: 'prefer-https',
+      config: () => [{ field: 'resource.url', message: 'Prefer a versioned path', severity: 'warning' }],
+    }
+
+    const normal = validate(v2Config(), { customRules: [rule] })
+    expect(normal.valid).toBe(true)
+    expect(normal.warnings.some((w) => w.rule === 'prefer-https')).toBe(true)
+
+    const strict = validate(v2Config(), { customRules: [rule], strict: true })
+    expect(strict.valid).toBe(false)
+    expect(strict.errors.some((e) => e.rule === 'prefer-https')).toBe(true)
+  })
+
+  test('config rule runs once per config with field "$" on failure', () => {
+    let calls = 0
+    const rule: CustomRule = {
+      name: 'broken',
+      config: () => {
+        calls++
+        throw new Error('boom')
+      },
+    }
+    const result = validate(v2Config(), { customRules: [rule] })
+
+    expect(calls).toBe(1)
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]!.code).toBe(ErrorCode.CUSTOM_RULE_FAILED)
+    expect(result.errors[0]!.field).toBe('$')
+    expect(result.errors[0]!.message).toContain('boom')
+  })
+
+  test('custom rules do not run when structure validation fails', () => {
+    let called = false
+    const rule: CustomRule = {
+      name: 'never',
+      config: () => {
+        called = true
+        return []
+      },
+    }
+    validate('not json', { customRules: [rule] })
+    expect(called).toBe(false)
+  })
+})
+
+describe('custom rules in validateManifest()', () => {
+  test('entry rules run per endpoint with prefixed field paths', () => {
+    const other = v2Config()
+    other.accepts[0]!.payTo = '0x0000000000000000000000000000000000000001'
+    const result = validateManifest(
+      { endpoints: { good: v2Config(), bad: other } },
+      { customRules: [approvedPayTo] },
+    )
+
+    expect(result.endpointResults['good']!.valid).toBe(true)
+    expect(result.endpointResults['bad']!.valid).toBe(false)
+    expect(result.endpointResults['bad']!.errors[0]!.field).toBe('endpoints["bad"].accepts[0].payTo')
+    expect(result.valid).toBe(false)
+  })
+
+  test('manifest rules see the whole manifest and report manifest-level issues', () => {
+    const rule: CustomRule = {
+      name: 'require-service-name',
+      manifest: ({ manifest }) =>
+        manifest.service?.name
+          ? []
+          : [{ field: 'service.name', message: 'Service name is required', severity: 'error' }],
+    }
+
+    const missing = validateManifest({ endpoints: { a: v2Config() } }, { customRules: [rule] })
+    expect(missing.valid).toBe(false)
+    expect(missing.errors[0]!.rule).toBe('require-service-name')
+    expect(missing.errors[0]!.field).toBe('service.name')
+
+    const present = validateManifest(
+      { service: { name: 'Weather' }, endpoints: { a: v2Config() } },
+      { customRules: [rule] },
+    )
+    expect(present.valid).toBe(true)
+  })
+
+  test('manifest rule warnings are reported as manifest warnings', () => {
+    const rule: CustomRule = {
+      name: 'few-endpoints',
+      manifest: () => [{ field: 'endpoints', message: 'Only one endpoint', severity: 'warning' }],
+    }
+    const result = validateManifest({ endpoints: { a: v2Config() } }, { customRules: [rule] })
+    expect(result.valid).toBe(true)
+    expect(result.warnings[0]!.code).toBe(ErrorCode.CUSTOM_RULE)
+  })
+
+  test('throwing manifest rule becomes CUSTOM_RULE_FAILED', () => {
+    const rule: CustomRule = {
+      name: 'broken',
+      manifest: () => {
+        throw new Error('nope')
+      },
+    }
+    const result = validateManifest({ endpoints: { a: v2Config() } }, { customRules: [rule] })
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]!.code).toBe(ErrorCode.CUSTOM_RULE_FAILED)
+    expect(result.errors[0]!.field).toBe('endpoints')
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'vitest'
+import { editDistance, closestMatch } from '../../src/validation/did-you-mean'
+
+describe('editDistance', () => {
+  test('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('payTo', 'payTo')).toBe(0)
+    expect(editDistance('amount', 'amout')).toBe(1)
+    expect(editDistance('asset', 'assets')).toBe(1)
+    expect(editDistance('scheme', 'schema')).toBe(1)
+    expect(editDistance('', 'abc')).toBe(3)
+  })
+
+  test('adjacent transpositions cost 1', () => {
+    expect(editDistance('netwrok', 'network')).toBe(1)
+  })
+})
+
+describe('closestMatch', () => {
+  const fields = ['scheme', 'network', 'amount', 'asset', 'payTo', 'maxTimeoutSeconds']
+
+  test('ignores case', () => {
+    expect(closestMatch('payto', fields)).toBe('payTo')
+  })
+
+  test('finds misspellings within the distance limit', () => {
+    expect(closestMatch('netwrok', fields)).toBe('network')
+    expect(closestMatch('ammount', fields)).toBe('amount')
+  })
+
+  test('matches truncated or extended names by prefix', () => {
+    expect(closestMatch('maxTimeoutSecond', fields)).toBe('maxTimeoutSeconds')
+    expect(closestMatch('maxTimeout', fields)).toBe('maxTimeoutSeconds')
+  })
+
+  test('returns undefined when nothing is close', () => {
+    expect(closestMatch('description', fields)).toBeUndefined()
+    expect(closestMatch('xy', fields)).toBeUndefined()
+  })
+
+  test('explicit maxDistance overrides the default', () => {
+    expect(closestMatch('amnt', fields, 0)).toBeUndefined()
+    expect(closestMatch('amnt', fields, 2)).toBe('amount')
+  })
+})
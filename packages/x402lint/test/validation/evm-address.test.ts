@@ -49,6 +49,17 @@ describe('validateEvmAddress', () => {
       expect(issues[0]?.code).toBe(ErrorCode.NO_EVM_CHECKSUM)
       expect(issues[0]?.fix).toContain('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')
     })
+
+    test('suggests a safe checksum replacement', () => {
+      const issues = validateEvmAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed', 'accepts[0].payTo')
+      expect(issues[0]?.suggestions).toEqual([
+        {
+          label: 'Use EIP-55 checksummed address',
+          safe: true,
+          patch: [{ op: 'replace', path: '/accepts/0/payTo', value: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' }],
+        },
+      ])
+    })
   })
 
   describe('all-uppercase address (valid format)', () => {
@@ -83,6 +94,14 @@ describe('validateEvmAddress', () => {
       expect(issues[0]?.code).toBe(ErrorCode.BAD_EVM_CHECKSUM)
       expect(issues[0]?.fix).toContain('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')
     })
+
+    test('suggestion is not safe (address may be mistyped)', () => {
+      const issues = validateEvmAddress('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD', 'payTo')
+      expect(issues[0]?.suggestions?.[0]?.safe).toBe(false)
+      expect(issues[0]?.suggestions?.[0]?.patch).toEqual([
+        { op: 'replace', path: '/payTo', value: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' },
+      ])
+    })
   })
 
   describe('invalid format', () => {
@@ -15,6 +15,7 @@ function v2Config(overrides: Record<string, unknown> = {}): Record<string, unkno
         asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
         payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
         maxTimeoutSeconds: 300,
+        extra: { name: 'USD Coin', version: '2' },
       },
     ],
     resource: { url: 'https://example.com/api/data' },
@@ -526,6 +527,11 @@ describe('validate()', () => {
       expect(() => validate(undefined as unknown as string)).not.toThrow()
     })
 
+    test('malformed price bound options throw a TypeError instead of failing the config', () => {
+      expect(() => validate(v2Config(), { maxPrice: '$5.00' })).toThrow(TypeError)
+      expect(() => validate('{not json', { minPrice: 5 as unknown as string })).toThrow(TypeError)
+    })
+
     test('very large config with many accepts entries works', () => {
       const entry = {
         scheme: 'exact',
@@ -560,4 +566,44 @@ describe('validate()', () => {
       expect(result.normalized!.accepts[0]!.extra).toEqual({ foo: 'bar' })
     })
   })
+
+  describe('Source locations', () => {
+    test('JSON string input attaches line, column and range to issues', () => {
+      const config = v2Config()
+      ;(config.accepts as Array<Record<string, unknown>>)[0]!.amount = '0'
+      const result = validate(JSON.stringify(config, null, 2))
+      const issue = result.errors.find((e) => e.code === ErrorCode.ZERO_AMOUNT)!
+      expect(issue.line).toBe(7)
+      expect(issue.column).toBe(17)
+      expect(issue.range!.end).toMatchObject({ line: 7, column: 20 })
+    })
+
+    test('object input has no locations', () => {
+      const result = validate(v2Config({ x402Version: 3 }))
+      expect(result.errors[0]!.line).toBeUndefined()
+    })
+
+    test('v1 amount issues point at maxAmountRequired', () => {
+      const config = v1Config()
+      ;(config.accepts as Array<Record<string, unknown>>)[0]!.maxAmountRequired = 'abc'
+      const text = JSON.stringify(config, null, 2)
+      const issue = validate(text).errors.find((e) => e.code === ErrorCode.INVALID_AMOUNT)!
+      expect(text.slice(issue.range!.start.offset, issue.range!.end.offset)).toBe('"abc"')
+    })
+
+    test('v1 amount suggestions patch maxAmountRequired', () => {
+      const config = v1Config()
+      ;(config.accepts as Array<Record<string, unknown>>)[0]!.maxAmountRequired = '$0.50'
+      const issue = validate(config).errors.find((e) => e.code === ErrorCode.INVALID_AMOUNT)!
+      expect(issue.suggestions![0]!.patch).toEqual([
+        { op: 'replace', path: '/accepts/0/maxAmountRequired', value: '500000' },
+      ])
+    })
+
+    test('INVALID_JSON points at the syntax error', () => {
+      const result = validate('{\n  "x402Version": 2,,\n}')
+      expect(result.errors[0]!.code).toBe(ErrorCode.INVALID_JSON)
+      expect(result.errors[0]).toMatchObject({ line: 2, column: 20 })
+    })
+  })
 })
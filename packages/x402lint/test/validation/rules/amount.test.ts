@@ -1,5 +1,11 @@
 import { describe, test, expect } from 'vitest'
-import { validateAmount, validateTimeout } from '../../../src/validation/rules/amount'
+import {
+  validateAmount,
+  validatePrice,
+  assertPriceBounds,
+  validateTimeout,
+  isValidPrice,
+} from '../../../src/validation/rules/amount'
 import { ErrorCode } from '../../../src/types/errors'
 import type { AcceptsEntry } from '../../../src/types/config'
 
@@ -73,6 +79,200 @@ describe('validateAmount', () => {
   })
 })
 
+describe('validateAmount integer ranges', () => {
+  const UINT256_MAX = (2n ** 256n - 1n).toString()
+  const U64_MAX = (2n ** 64n - 1n).toString()
+  const solana = { network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp', asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' }
+
+  test('EVM amounts up to uint256 max are accepted', () => {
+    expect(validateAmount(makeEntry({ amount: UINT256_MAX }), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('EVM amount above uint256 max returns AMOUNT_OUT_OF_RANGE', () => {
+    const issues = validateAmount(makeEntry({ amount: (2n ** 256n).toString() }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_OUT_OF_RANGE)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.message).toContain('uint256')
+  })
+
+  test('Solana amounts are bounded by u64', () => {
+    expect(validateAmount(makeEntry({ ...solana, amount: U64_MAX }), 'accepts[0]')).toHaveLength(0)
+    const issues = validateAmount(makeEntry({ ...solana, amount: (2n ** 64n).toString() }), 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_OUT_OF_RANGE)
+    expect(issues[0]!.message).toContain('u64')
+  })
+
+  test('Stellar amounts are bounded by int64', () => {
+    const entry = makeEntry({ network: 'stellar:pubnet', amount: (2n ** 63n).toString() })
+    expect(validateAmount(entry, 'accepts[0]')[0]!.code).toBe(ErrorCode.AMOUNT_OUT_OF_RANGE)
+  })
+
+  test('unknown namespaces are not range checked', () => {
+    const entry = makeEntry({ network: 'bip122:000000000019d6689c085ae165831e93', amount: (2n ** 300n).toString() })
+    expect(validateAmount(entry, 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('leading zeros return an AMOUNT_LEADING_ZEROS warning', () => {
+    const issues = validateAmount(makeEntry({ amount: '000100' }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_LEADING_ZEROS)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.suggestions).toEqual([
+      { label: "Use '100'", safe: false, patch: [{ op: 'replace', path: '/accepts/0/amount', value: '100' }] },
+    ])
+  })
+
+  test('all-zero amounts are ZERO_AMOUNT only', () => {
+    const issues = validateAmount(makeEntry({ amount: '000' }), 'accepts[0]')
+    expect(issues.map((i) => i.code)).toEqual([ErrorCode.ZERO_AMOUNT])
+  })
+})
+
+describe('validateAmount human-readable forms', () => {
+  test('decimal price on a known asset gives the exact atomic value', () => {
+    const issues = validateAmount(makeEntry({ amount: '0.01' }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_AMOUNT)
+    expect(issues[0]!.fix).toBe("0.01 USDC is '10000' in atomic units (6 decimals)")
+    expect(issues[0]!.suggestions).toEqual([
+      {
+        label: "Use atomic amount '10000'",
+        safe: false,
+        patch: [{ op: 'replace', path: '/accepts/0/amount', value: '10000' }],
+      },
+    ])
+  })
+
+  test('currency-prefixed price is converted', () => {
+    expect(validateAmount(makeEntry({ amount: '$0.01' }), 'accepts[0]')[0]!.fix).toContain("'10000'")
+    expect(validateAmount(makeEntry({ amount: '$5' }), 'accepts[0]')[0]!.fix).toContain("'5000000'")
+    expect(validateAmount(makeEntry({ amount: '$ .5' }), 'accepts[0]')[0]!.fix).toContain("'500000'")
+  })
+
+  test('scientific notation with an integer value is read as atomic units', () => {
+    const issues = validateAmount(makeEntry({ amount: '1e6' }), 'accepts[0]')
+    expect(issues[0]!.fix).toBe("Use '1000000'")
+    expect(validateAmount(makeEntry({ amount: '2.5E3' }), 'accepts[0]')[0]!.fix).toBe("Use '2500'")
+  })
+
+  test('scientific notation with a fraction is read as a price', () => {
+    const issues = validateAmount(makeEntry({ amount: '1e-2' }), 'accepts[0]')
+    expect(issues[0]!.fix).toContain("'10000'")
+  })
+
+  test('hex amount gives the decimal digits', () => {
+    const issues = validateAmount(makeEntry({ amount: '0xf4240' }), 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_AMOUNT)
+    expect(issues[0]!.message).toContain('hex')
+    expect(issues[0]!.fix).toBe("Use '1000000'")
+  })
+
+  test('trailing zeros beyond the precision are fine', () => {
+    const issues = validateAmount(makeEntry({ amount: '0.0100000000' }), 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_AMOUNT)
+    expect(issues[0]!.fix).toContain("'10000'")
+  })
+
+  test('more decimals than the token supports returns AMOUNT_PRECISION_EXCEEDED', () => {
+    const issues = validateAmount(makeEntry({ amount: '0.0000001' }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_PRECISION_EXCEEDED)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.message).toContain('7 decimal places, USDC has 6')
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('unknown asset explains the conversion without a suggestion', () => {
+    const entry = makeEntry({ amount: '0.01', asset: '0x0000000000000000000000000000000000000001' })
+    const issues = validateAmount(entry, 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_AMOUNT)
+    expect(issues[0]!.fix).toContain('multiply by 10^decimals')
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('huge exponents are not expanded', () => {
+    const issues = validateAmount(makeEntry({ amount: '1e999999' }), 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_AMOUNT)
+    expect(issues[0]!.fix).toBeUndefined()
+  })
+})
+
+describe('validatePrice', () => {
+  test('no bounds and a normal price returns no issues', () => {
+    expect(validatePrice(makeEntry({ amount: '10000' }), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('amount above maxPrice returns AMOUNT_ABOVE_MAX_PRICE in human units', () => {
+    const issues = validatePrice(makeEntry({ amount: '10000000' }), 'accepts[0]', { maxPrice: '5.00' })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_ABOVE_MAX_PRICE)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.message).toContain('10 USDC > 5.00 USDC')
+    expect(issues[0]!.fix).toContain('10000000 = 10 USDC')
+  })
+
+  test('bounds are inclusive and compared without rounding', () => {
+    expect(validatePrice(makeEntry({ amount: '5000000' }), 'accepts[0]', { maxPrice: '5' })).toHaveLength(0)
+    expect(validatePrice(makeEntry({ amount: '100' }), 'accepts[0]', { minPrice: '0.0001' })).toHaveLength(0)
+    // Bound finer than the asset's decimals
+    const issues = validatePrice(makeEntry({ amount: '100' }), 'accepts[0]', { minPrice: '0.0001001' })
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_BELOW_MIN_PRICE)
+  })
+
+  test('amount below minPrice returns AMOUNT_BELOW_MIN_PRICE', () => {
+    const issues = validatePrice(makeEntry({ amount: '1' }), 'accepts[0]', { minPrice: '0.0001' })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_BELOW_MIN_PRICE)
+    expect(issues[0]!.message).toContain('0.000001 USDC < 0.0001 USDC')
+  })
+
+  test('stablecoin amount above 1,000 units warns about decimals by default', () => {
+    const issues = validatePrice(makeEntry({ amount: '10000000000' }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.AMOUNT_LIKELY_DECIMALS_MISTAKE)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.message).toContain('10000 USDC')
+    expect(validatePrice(makeEntry({ amount: '1000000000' }), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('explicit maxPrice replaces the decimals heuristic', () => {
+    expect(validatePrice(makeEntry({ amount: '10000000000' }), 'accepts[0]', { maxPrice: '20000' })).toHaveLength(0)
+  })
+
+  test('a malformed maxPrice keeps the decimals heuristic', () => {
+    const issues = validatePrice(makeEntry({ amount: '10000000000' }), 'accepts[0]', { maxPrice: '$5' })
+    expect(issues.map((i) => i.code)).toEqual([ErrorCode.AMOUNT_LIKELY_DECIMALS_MISTAKE])
+  })
+
+  test('unknown assets and invalid amounts are skipped', () => {
+    const unknown = makeEntry({ asset: '0x0000000000000000000000000000000000000001', amount: '10000000000' })
+    expect(validatePrice(unknown, 'accepts[0]', { maxPrice: '1' })).toHaveLength(0)
+    expect(validatePrice(makeEntry({ amount: '1.5' }), 'accepts[0]', { maxPrice: '1' })).toHaveLength(0)
+    expect(validatePrice(makeEntry({ amount: '0' }), 'accepts[0]', { minPrice: '1' })).toHaveLength(0)
+  })
+
+  test('isValidPrice accepts plain decimals only', () => {
+    expect(isValidPrice('5')).toBe(true)
+    expect(isValidPrice('0.0001')).toBe(true)
+    expect(isValidPrice('$5')).toBe(false)
+    expect(isValidPrice('1e-3')).toBe(false)
+    expect(isValidPrice('.5')).toBe(false)
+  })
+})
+
+describe('assertPriceBounds', () => {
+  test('valid or missing bounds pass', () => {
+    expect(() => assertPriceBounds()).not.toThrow()
+    expect(() => assertPriceBounds({ maxPrice: '5.00', minPrice: '0.0001' })).not.toThrow()
+  })
+
+  test('malformed bounds throw a TypeError naming the option', () => {
+    expect(() => assertPriceBounds({ maxPrice: '$5' })).toThrow(new TypeError('maxPrice must be a plain decimal string in asset units, e.g. "5.00", got "$5"'))
+    expect(() => assertPriceBounds({ minPrice: 1 as unknown as string })).toThrow(/^minPrice .* got 1$/)
+  })
+})
+
 describe('validateTimeout', () => {
   test('v2 entry without maxTimeoutSeconds returns MISSING_MAX_TIMEOUT warning', () => {
     const entry = makeEntry()
@@ -94,6 +294,15 @@ describe('validateTimeout', () => {
     const issues = validateTimeout(entry, 'accepts[0]', 'v2')
     expect(issues).toHaveLength(1)
     expect(issues[0]!.code).toBe(ErrorCode.INVALID_TIMEOUT)
+    expect(issues[0]!.suggestions).toEqual([
+      { label: 'Use number 300', safe: true, patch: [{ op: 'replace', path: '/accepts/0/maxTimeoutSeconds', value: 300 }] },
+    ])
+  })
+
+  test('non-numeric string timeout has no suggestion', () => {
+    const entry = makeEntry({ maxTimeoutSeconds: '5m' as unknown as number })
+    const issues = validateTimeout(entry, 'accepts[0]', 'v2')
+    expect(issues[0]!.suggestions).toBeUndefined()
   })
 
   test('entry with zero timeout returns INVALID_TIMEOUT error', () => {
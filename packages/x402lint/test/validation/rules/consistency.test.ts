@@ -0,0 +1,111 @@
+import { describe, test, expect } from 'vitest'
+import { validateAcceptsConsistency, hasMixedNetworks } from '../../../src/validation/rules/consistency'
+import { validate } from '../../../src/validation/orchestrator'
+import { ErrorCode } from '../../../src/types/errors'
+import type { AcceptsEntry, NormalizedConfig } from '../../../src/types/config'
+
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+
+function makeEntry(overrides: Partial<AcceptsEntry> = {}): AcceptsEntry {
+  return {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '10000',
+    asset: BASE_USDC,
+    payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    maxTimeoutSeconds: 60,
+    ...overrides,
+  }
+}
+
+function config(...accepts: AcceptsEntry[]): NormalizedConfig {
+  return { x402Version: 2, accepts }
+}
+
+describe('hasMixedNetworks', () => {
+  test('true only with a known mainnet and a known testnet', () => {
+    expect(hasMixedNetworks(['eip155:8453', 'eip155:84532'])).toBe(true)
+    expect(hasMixedNetworks(['eip155:8453', 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp'])).toBe(false)
+    expect(hasMixedNetworks(['eip155:8453', 'eip155:999999'])).toBe(false)
+    expect(hasMixedNetworks([])).toBe(false)
+  })
+})
+
+describe('validateAcceptsConsistency', () => {
+  test('single entry and distinct entries return no issues', () => {
+    expect(validateAcceptsConsistency(config(makeEntry()))).toHaveLength(0)
+    const solana = makeEntry({
+      network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      asset: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    })
+    expect(validateAcceptsConsistency(config(makeEntry(), solana))).toHaveLength(0)
+  })
+
+  test('exact duplicate returns DUPLICATE_ACCEPTS_ENTRY regardless of key order', () => {
+    const { maxTimeoutSeconds, ...rest } = makeEntry()
+    const reordered = { maxTimeoutSeconds, ...rest } as AcceptsEntry
+    const issues = validateAcceptsConsistency(config(makeEntry(), reordered))
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({
+      code: ErrorCode.DUPLICATE_ACCEPTS_ENTRY,
+      field: 'accepts[1]',
+      severity: 'warning',
+    })
+    expect(issues[0]!.message).toContain('accepts[0]')
+    expect(issues[0]!.suggestions![0]!.patch).toEqual([{ op: 'remove', path: '/accepts/1' }])
+  })
+
+  test('same offer at a different price returns CONFLICTING_ACCEPTS_ENTRIES', () => {
+    const issues = validateAcceptsConsistency(config(makeEntry(), makeEntry({ amount: '10000000' })))
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.CONFLICTING_ACCEPTS_ENTRIES)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.message).toContain('amount 10000 vs 10000000')
+  })
+
+  test('same offer with a different payTo conflicts, EVM asset case ignored', () => {
+    const other = makeEntry({ asset: BASE_USDC.toLowerCase(), payTo: '0x0000000000000000000000000000000000000002' })
+    const issues = validateAcceptsConsistency(config(makeEntry(), other))
+    expect(issues[0]!.code).toBe(ErrorCode.CONFLICTING_ACCEPTS_ENTRIES)
+    expect(issues[0]!.message).toContain('payTo')
+  })
+
+  test('different schemes for the same asset do not conflict', () => {
+    const issues = validateAcceptsConsistency(config(makeEntry(), makeEntry({ scheme: 'upto', amount: '50000' })))
+    expect(issues).toHaveLength(0)
+  })
+
+  test('mainnet and testnet entries return MIXED_NETWORKS', () => {
+    const testnet = makeEntry({ network: 'eip155:84532', asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' })
+    const issues = validateAcceptsConsistency(config(makeEntry(), testnet))
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ code: ErrorCode.MIXED_NETWORKS, field: 'accepts', severity: 'warning' })
+  })
+})
+
+describe('validate() accepts consistency', () => {
+  test('conflicting entries invalidate the config', () => {
+    const result = validate({
+      x402Version: 2,
+      accepts: [makeEntry(), makeEntry({ amount: '10000000' })],
+      resource: { url: 'https://example.com' },
+    })
+    expect(result.valid).toBe(false)
+    expect(result.errors.map((e) => e.code)).toContain(ErrorCode.CONFLICTING_ACCEPTS_ENTRIES)
+  })
+
+  test('v1 entries that differ only in their resource are not duplicates', () => {
+    const { amount, ...v1Entry } = makeEntry()
+    const entry = { ...v1Entry, maxAmountRequired: amount }
+    const result = validate({
+      x402Version: 1,
+      accepts: [
+        { ...entry, resource: 'https://example.com/a' },
+        { ...entry, resource: 'https://example.com/b' },
+      ],
+    })
+    const codes = [...result.errors, ...result.warnings].map((i) => i.code)
+    expect(codes).not.toContain(ErrorCode.DUPLICATE_ACCEPTS_ENTRY)
+    expect(codes).toContain(ErrorCode.NORMALIZATION_LOSS)
+  })
+})
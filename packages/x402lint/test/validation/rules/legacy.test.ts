@@ -1,6 +1,8 @@
 import { describe, test, expect } from 'vitest'
-import { validateLegacy } from '../../../src/validation/rules/legacy'
+import { validateLegacy, validateNormalizationLoss } from '../../../src/validation/rules/legacy'
 import { ErrorCode } from '../../../src/types/errors'
+import { applyPatch } from '../../../src/patch'
+import { validate } from '../../../src/validation/orchestrator'
 import type { NormalizedConfig } from '../../../src/types/config'
 
 function makeConfig(): NormalizedConfig {
@@ -27,4 +29,83 @@ describe('validateLegacy', () => {
     const issues = validateLegacy(makeConfig(), 'v1', {})
     expect(issues[0]!.fix).toContain('amount instead of maxAmountRequired')
   })
+
+  test('upgrade suggestion patches v1 input into v2 shape', () => {
+    const v1 = {
+      x402Version: 1,
+      accepts: [
+        { scheme: 'exact', network: 'base', maxAmountRequired: '10', asset: '0xabc', payTo: '0xdef', resource: { url: 'https://a.com' } },
+        { scheme: 'exact', network: 'base', maxAmountRequired: '20', asset: '0xabc', payTo: '0xdef', resource: { url: 'https://a.com' } },
+      ],
+    }
+    const [suggestion] = validateLegacy(makeConfig(), 'v1', v1)[0]!.suggestions!
+    expect(suggestion!.safe).toBe(false)
+
+    const upgraded = applyPatch(v1, suggestion!.patch) as Record<string, unknown>
+    expect(upgraded).toEqual({
+      x402Version: 2,
+      accepts: [
+        { scheme: 'exact', network: 'base', amount: '10', asset: '0xabc', payTo: '0xdef' },
+        { scheme: 'exact', network: 'base', amount: '20', asset: '0xabc', payTo: '0xdef' },
+      ],
+      resource: { url: 'https://a.com' },
+    })
+  })
+
+  test('upgrade suggestion turns a URL string resource and its metadata into a valid v2 resource', () => {
+    const v1 = {
+      x402Version: 1,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'eip155:8453',
+          maxAmountRequired: '10000',
+          asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+          payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+          maxTimeoutSeconds: 60,
+          extra: { name: 'USD Coin', version: '2' },
+          resource: 'https://a.com/x',
+          description: 'Weather data',
+          mimeType: 'application/json',
+        },
+      ],
+    }
+    const [suggestion] = validateLegacy(makeConfig(), 'v1', v1)[0]!.suggestions!
+    const upgraded = applyPatch(v1, suggestion!.patch) as Record<string, unknown>
+    expect(upgraded.resource).toEqual({ url: 'https://a.com/x', description: 'Weather data', mimeType: 'application/json' })
+
+    const result = validate(upgraded)
+    expect(result.version).toBe('v2')
+    expect(result.errors).toEqual([])
+    expect(result.warnings.map((w) => w.code)).toEqual([ErrorCode.MISSING_INPUT_SCHEMA])
+  })
+})
+
+describe('validateNormalizationLoss', () => {
+  const entry = { scheme: 'exact', network: 'eip155:8453', maxAmountRequired: '1', asset: '0xabc', payTo: '0xdef' }
+
+  test('lists every lost field in one warning at the first of them', () => {
+    const issues = validateNormalizationLoss('v1', {
+      x402Version: 1,
+      accepts: [
+        { ...entry, resource: { url: 'https://a.com' }, mimeType: 'application/json' },
+        { ...entry, resource: { url: 'https://b.com' }, mimeType: 'text/html' },
+      ],
+    })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.NORMALIZATION_LOSS)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.field).toBe('accepts[1].resource')
+    expect(issues[0]!.message).toBe(
+      'Converting this v1 config to v2 drops information: accepts[1].resource (differs from accepts[0].resource), ' +
+        'accepts[1].mimeType (differs from accepts[0].mimeType)',
+    )
+  })
+
+  test('lossless v1 and v2 configs produce no issues', () => {
+    const v1 = { x402Version: 1, accepts: [{ ...entry, resource: { url: 'https://a.com' } }, entry] }
+    expect(validateNormalizationLoss('v1', v1)).toEqual([])
+    expect(validateNormalizationLoss('v2', makeConfig())).toEqual([])
+  })
 })
+
@@ -41,6 +41,9 @@ describe('validateNetwork', () => {
     expect(issues[0]!.code).toBe(ErrorCode.INVALID_NETWORK_FORMAT)
     expect(issues[0]!.severity).toBe('error')
     expect(issues[0]!.fix).toContain('eip155:8453')
+    expect(issues[0]!.suggestions).toEqual([
+      { label: "Use 'eip155:8453'", safe: true, patch: [{ op: 'replace', path: '/accepts/0/network', value: 'eip155:8453' }] },
+    ])
   })
 
   test('invalid CAIP-2 with simple name "solana" returns fix suggestion', () => {
@@ -57,6 +60,7 @@ describe('validateNetwork', () => {
     expect(issues).toHaveLength(1)
     expect(issues[0]!.code).toBe(ErrorCode.INVALID_NETWORK_FORMAT)
     expect(issues[0]!.fix).toBeUndefined()
+    expect(issues[0]!.suggestions).toBeUndefined()
   })
 
   test('network with correct CAIP-2 format but empty reference rejected', () => {
@@ -67,6 +71,105 @@ describe('validateNetwork', () => {
   })
 })
 
+describe('validateNetwork did-you-mean', () => {
+  function firstIssue(network: string) {
+    const issues = validateNetwork(makeEntry({ network }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    return issues[0]!
+  }
+
+  test('transposed EVM chain id suggests the known chain', () => {
+    const issue = firstIssue('eip155:8543')
+    expect(issue.code).toBe(ErrorCode.UNKNOWN_NETWORK)
+    expect(issue.fix).toBe("Did you mean 'eip155:8453' (Base)?")
+    expect(issue.suggestions).toEqual([
+      { label: "Use 'eip155:8453'", safe: false, patch: [{ op: 'replace', path: '/accepts/0/network', value: 'eip155:8453' }] },
+    ])
+  })
+
+  test('truncated Solana genesis hash matches by prefix', () => {
+    const issue = firstIssue('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZK')
+    expect(issue.code).toBe(ErrorCode.INVALID_SOLANA_REFERENCE)
+    expect(issue.fix).toContain('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')
+  })
+
+  test('full Solana genesis hash (too long for CAIP-2) suggests the truncated reference', () => {
+    const issue = firstIssue('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d')
+    expect(issue.code).toBe(ErrorCode.INVALID_NETWORK_FORMAT)
+    expect(issue.fix).toContain('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')
+  })
+
+  test('misspelled simple name gets an unsafe suggestion', () => {
+    const issue = firstIssue('base-sepola')
+    expect(issue.code).toBe(ErrorCode.INVALID_NETWORK_FORMAT)
+    expect(issue.fix).toBe("Did you mean 'eip155:84532' (Base Sepolia)?")
+    expect(issue.suggestions?.[0]?.safe).toBe(false)
+  })
+
+  test('display names and "mainnet" qualifiers normalize to a safe suggestion', () => {
+    const mainnet = firstIssue('Base Mainnet')
+    expect(mainnet.fix).toBe("Use 'eip155:8453' instead of 'Base Mainnet'")
+    expect(mainnet.suggestions?.[0]?.safe).toBe(true)
+
+    expect(firstIssue('Avalanche C-Chain').suggestions?.[0]?.patch[0]).toMatchObject({ value: 'eip155:43114' })
+  })
+
+  test('unrelated networks get no suggestion', () => {
+    expect(firstIssue('eip155:137').fix).toBeUndefined()
+    expect(firstIssue('polygon').fix).toBeUndefined()
+  })
+})
+
+describe('validateNetwork reference rules', () => {
+  test.each([
+    ['eip155:base', ErrorCode.INVALID_EIP155_REFERENCE],
+    ['eip155:0', ErrorCode.INVALID_EIP155_REFERENCE],
+    ['solana:1', ErrorCode.INVALID_SOLANA_REFERENCE],
+    ['stacks:99999999999', ErrorCode.INVALID_STACKS_REFERENCE],
+    ['stellar:public', ErrorCode.INVALID_STELLAR_REFERENCE],
+    ['aptos:256', ErrorCode.INVALID_APTOS_REFERENCE],
+    ['cosmos:noble_1', ErrorCode.INVALID_COSMOS_REFERENCE],
+  ])('%s is rejected with %s', (network, code) => {
+    const issues = validateNetwork(makeEntry({ network }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(code)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.fix).toBeDefined()
+  })
+
+  test.each(['eip155:31337', 'stacks:2147483648', 'stellar:futurenet', 'aptos:4', 'cosmos:osmo-test-5'])(
+    '%s passes the reference rule',
+    (network) => {
+      const codes = validateNetwork(makeEntry({ network }), 'accepts[0]').map((i) => i.code)
+      expect(codes.filter((c) => c !== ErrorCode.UNKNOWN_NETWORK)).toEqual([])
+    },
+  )
+
+  test('fix explains the expected shape', () => {
+    const issues = validateNetwork(makeEntry({ network: 'solana:1' }), 'accepts[0]')
+    expect(issues[0]!.fix).toContain('first 32 base58 characters of the genesis hash')
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('simple name or padded chain ID in the reference maps safely', () => {
+    for (const network of ['eip155:base', 'eip155:08453']) {
+      const issues = validateNetwork(makeEntry({ network }), 'accepts[0]')
+      expect(issues[0]!.suggestions).toEqual([
+        { label: "Use 'eip155:8453'", safe: true, patch: [{ op: 'replace', path: '/accepts/0/network', value: 'eip155:8453' }] },
+      ])
+    }
+  })
+
+  test('mainnet / testnet references suggest the known network', () => {
+    const mainnet = validateNetwork(makeEntry({ network: 'aptos:mainnet' }), 'accepts[0]')
+    expect(mainnet[0]!.fix).toBe("Did you mean 'aptos:1' (Aptos)?")
+    expect(mainnet[0]!.suggestions?.[0]?.safe).toBe(false)
+
+    const stellar = validateNetwork(makeEntry({ network: 'stellar:mainnet' }), 'accepts[0]')
+    expect(stellar[0]!.fix).toBe("Did you mean 'stellar:pubnet' (Stellar)?")
+  })
+})
+
 describe('validateAsset', () => {
   test('known asset on known network returns no issues', () => {
     const issues = validateAsset(makeEntry(), 'accepts[0]')
@@ -86,4 +189,43 @@ describe('validateAsset', () => {
     const issues = validateAsset(entry, 'accepts[0]')
     expect(issues).toHaveLength(0)
   })
+
+  test('mainnet USDC on a testnet names the testnet asset and the mainnet network', () => {
+    const entry = makeEntry({ network: 'eip155:84532' })
+    const issues = validateAsset(entry, 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.ASSET_NETWORK_MISMATCH)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.message).toBe('This is USDC on Base (eip155:8453), not on Base Sepolia')
+    expect(issues[0]!.fix).toBe(
+      "Use 0x036CbD53842c5426634e7929541eC2318f3dCF7e (USDC on Base Sepolia), or set network to 'eip155:8453'",
+    )
+    expect(issues[0]!.suggestions).toEqual([
+      expect.objectContaining({
+        safe: false,
+        patch: [{ op: 'replace', path: '/accepts/0/asset', value: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' }],
+      }),
+      expect.objectContaining({
+        safe: false,
+        patch: [{ op: 'replace', path: '/accepts/0/network', value: 'eip155:8453' }],
+      }),
+    ])
+  })
+
+  test('asset with no counterpart on the configured network names the correct network', () => {
+    // Base USDC on Avalanche Fuji -- no USDC registered for eip155:43113
+    const entry = makeEntry({ network: 'eip155:43113' })
+    const issues = validateAsset(entry, 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.ASSET_NETWORK_MISMATCH)
+    expect(issues[0]!.fix).toBe("Set network to 'eip155:8453'")
+    expect(issues[0]!.suggestions).toHaveLength(1)
+  })
+
+  test('known asset on an unknown network stays UNKNOWN_ASSET', () => {
+    const entry = makeEntry({ network: 'eip155:999999' })
+    const issues = validateAsset(entry, 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.UNKNOWN_ASSET)
+  })
 })
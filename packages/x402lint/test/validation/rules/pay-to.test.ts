@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'vitest'
+import { validatePayTo } from '../../../src/validation/rules/pay-to'
+import { ErrorCode } from '../../../src/types/errors'
+import type { AcceptsEntry } from '../../../src/types/config'
+
+const OWNER = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+// OWNER's USDC token account, as derived by spl-token getAssociatedTokenAddressSync(USDC, OWNER)
+const OWNER_ATA = '6wzzozWHyumGXyBgFpxnYkpoPN2fserASyYW3Yj882Br'
+
+function makeEntry(overrides: Partial<AcceptsEntry> = {}): AcceptsEntry {
+  return {
+    scheme: 'exact',
+    network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    amount: '10000',
+    asset: USDC,
+    payTo: OWNER,
+    maxTimeoutSeconds: 60,
+    ...overrides,
+  }
+}
+
+describe('validatePayTo (Solana)', () => {
+  test('wallet payTo passes', () => {
+    expect(validatePayTo(makeEntry(), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('payTo equal to the mint warns PAY_TO_IS_ASSET', () => {
+    const issues = validatePayTo(makeEntry({ payTo: USDC }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.PAY_TO_IS_ASSET)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.field).toBe('accepts[0].payTo')
+  })
+
+  test('off-curve payTo warns PAY_TO_OFF_CURVE', () => {
+    const issues = validatePayTo(makeEntry({ payTo: OWNER_ATA }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.PAY_TO_OFF_CURVE)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('owner hint identifies its associated token account', () => {
+    const issues = validatePayTo(makeEntry({ payTo: OWNER_ATA }), 'accepts[0]', { solanaOwner: OWNER })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.message).toContain(`associated token account of ${OWNER}`)
+    expect(issues[0]!.suggestions).toEqual([
+      { label: 'Use the owner wallet', safe: false, patch: [{ op: 'replace', path: '/accepts/0/payTo', value: OWNER }] },
+    ])
+  })
+
+  test('owner hint that does not match says so', () => {
+    const other = '2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4'
+    const issues = validatePayTo(makeEntry({ payTo: OWNER_ATA }), 'accepts[0]', { solanaOwner: other })
+    expect(issues[0]!.message).toContain(`not the token account of ${other}`)
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('malformed addresses are left to address validation', () => {
+    expect(validatePayTo(makeEntry({ payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' }), 'accepts[0]')).toHaveLength(0)
+  })
+})
+
+describe('validatePayTo (EVM)', () => {
+  const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+  const AVALANCHE_USDC = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E'
+
+  function evmEntry(payTo: string): AcceptsEntry {
+    return makeEntry({ network: 'eip155:8453', asset: BASE_USDC, payTo })
+  }
+
+  function codeFor(payTo: string): string | undefined {
+    const issues = validatePayTo(evmEntry(payTo), 'accepts[0]')
+    expect(issues.every((i) => i.severity === 'error')).toBe(true)
+    return issues[0]?.code
+  }
+
+  test('ordinary wallet passes', () => {
+    expect(validatePayTo(evmEntry('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('zero address', () => {
+    expect(codeFor('0x0000000000000000000000000000000000000000')).toBe(ErrorCode.PAY_TO_ZERO_ADDRESS)
+  })
+
+  test('burn addresses, in any case', () => {
+    expect(codeFor('0x000000000000000000000000000000000000dEaD')).toBe(ErrorCode.PAY_TO_BURN_ADDRESS)
+    expect(codeFor('0xdEAD000000000000000042069420694206942069')).toBe(ErrorCode.PAY_TO_BURN_ADDRESS)
+  })
+
+  test('precompiles', () => {
+    expect(codeFor('0x0000000000000000000000000000000000000001')).toBe(ErrorCode.PAY_TO_PRECOMPILE)
+    expect(codeFor('0x0000000000000000000000000000000000000011')).toBe(ErrorCode.PAY_TO_PRECOMPILE)
+    expect(codeFor('0x0000000000000000000000000000000000000100')).toBe(ErrorCode.PAY_TO_PRECOMPILE)
+    expect(codeFor('0x0000000000000000000000000000000000000012')).toBeUndefined()
+  })
+
+  test('payTo equal to the asset contract', () => {
+    expect(codeFor(BASE_USDC.toLowerCase())).toBe(ErrorCode.PAY_TO_IS_ASSET)
+  })
+
+  test('payTo equal to a known asset on another network', () => {
+    const issues = validatePayTo(evmEntry(AVALANCHE_USDC), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.PAY_TO_KNOWN_ASSET)
+    expect(issues[0]!.message).toContain('USDC token contract on Avalanche')
+  })
+
+  test('malformed addresses are left to address validation', () => {
+    expect(validatePayTo(evmEntry('0x0'), 'accepts[0]')).toHaveLength(0)
+  })
+})
+
+describe('validatePayTo (other namespaces)', () => {
+  test('no checks for unsupported namespaces', () => {
+    expect(validatePayTo(makeEntry({ network: 'stellar:pubnet' }), 'accepts[0]')).toHaveLength(0)
+  })
+})
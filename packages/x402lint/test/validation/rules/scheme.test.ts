@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest'
+import { validateScheme } from '../../../src/validation/rules/scheme'
+import { ErrorCode } from '../../../src/types/errors'
+import type { AcceptsEntry } from '../../../src/types/config'
+
+function makeEntry(overrides: Partial<AcceptsEntry> = {}): AcceptsEntry {
+  return {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '1000000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    ...overrides,
+  }
+}
+
+describe('validateScheme', () => {
+  test('missing scheme returns no issues (handled by fields)', () => {
+    expect(validateScheme(makeEntry({ scheme: '' }), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test.each([1, {}, ['exact']])('non-string scheme %j returns INVALID_SCHEME error', (scheme) => {
+    const issues = validateScheme(makeEntry({ scheme: scheme as unknown as string }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_SCHEME)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.field).toBe('accepts[0].scheme')
+  })
+
+  test('known scheme on supported network returns no issues', () => {
+    expect(validateScheme(makeEntry(), 'accepts[0]')).toHaveLength(0)
+    expect(validateScheme(makeEntry({ scheme: 'upto' }), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('unknown scheme returns UNKNOWN_SCHEME warning listing known schemes', () => {
+    const issues = validateScheme(makeEntry({ scheme: 'subscription' }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.UNKNOWN_SCHEME)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.field).toBe('accepts[0].scheme')
+    expect(issues[0]!.fix).toContain('exact')
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('wrong casing of a known scheme suggests the lowercase name', () => {
+    const issues = validateScheme(makeEntry({ scheme: 'Exact' }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.UNKNOWN_SCHEME)
+    expect(issues[0]!.suggestions?.[0]!.patch).toEqual([{ op: 'replace', path: '/accepts/0/scheme', value: 'exact' }])
+  })
+
+  test('known scheme on unsupported namespace returns SCHEME_NETWORK_UNSUPPORTED error', () => {
+    const entry = makeEntry({ scheme: 'upto', network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp' })
+    const issues = validateScheme(entry, 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.SCHEME_NETWORK_UNSUPPORTED)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.message).toContain('solana')
+  })
+
+  test('invalid network skips the namespace check', () => {
+    expect(validateScheme(makeEntry({ scheme: 'upto', network: 'base' }), 'accepts[0]')).toHaveLength(0)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, test, expect } from 'vitest'
+import { validateUnknownFields, validateUnknownManifestFields } from '../../../src/validation/rules/unknown-fields'
+import { validate } from '../../../src/validation/orchestrator'
+import { validateManifest } from '../../../src/validation/manifest'
+import { applyPatch } from '../../../src/patch'
+import { ErrorCode } from '../../../src/types/errors'
+
+function v2Entry(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '1000000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    maxTimeoutSeconds: 60,
+    ...overrides,
+  }
+}
+
+function v2Config(entry: Record<string, unknown> = v2Entry(), extra: Record<string, unknown> = {}) {
+  return { x402Version: 2, accepts: [entry], resource: { url: 'https://example.com' }, ...extra }
+}
+
+describe('validateUnknownFields', () => {
+  test('known v2 fields return no issues', () => {
+    expect(validateUnknownFields(v2Config(v2Entry({ extra: { anything: 1 } })), 'v2')).toHaveLength(0)
+  })
+
+  test('misspelled entry field gets a did-you-mean fix and rename patch', () => {
+    const entry = v2Entry({ netwrok: 'eip155:8453' })
+    delete entry.network
+    const issues = validateUnknownFields(v2Config(entry), 'v2')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({
+      code: ErrorCode.UNKNOWN_FIELD,
+      field: 'accepts[0].netwrok',
+      severity: 'warning',
+      fix: "Did you mean 'network'?",
+    })
+    expect(issues[0]!.suggestions![0]!.patch).toEqual([
+      { op: 'move', from: '/accepts/0/netwrok', path: '/accepts/0/network' },
+    ])
+  })
+
+  test('wrong casing and truncated names are matched', () => {
+    const issues = validateUnknownFields(v2Config(v2Entry({ payto: 'x', maxTimeoutSecond: 60 })), 'v2')
+    expect(issues.map((i) => i.fix)).toEqual(["Did you mean 'payTo'?", "Did you mean 'maxTimeoutSeconds'?"])
+  })
+
+  test('no rename patch when the intended field already exists', () => {
+    const issues = validateUnknownFields(v2Config(v2Entry({ payto: 'x' })), 'v2')
+    expect(issues[0]!.suggestions).toBeUndefined()
+  })
+
+  test('v2 config using maxAmountRequired is pointed at amount', () => {
+    const entry = v2Entry({ maxAmountRequired: '1000000' })
+    delete entry.amount
+    const issues = validateUnknownFields(v2Config(entry), 'v2')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.fix).toContain("use 'amount'")
+  })
+
+  test('v1 config using amount is pointed at maxAmountRequired', () => {
+    const config = {
+      x402Version: 1,
+      accepts: [{ ...v2Entry(), resource: { url: 'https://example.com' } }],
+    }
+    const issues = validateUnknownFields(config, 'v1')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.fix).toContain("use 'maxAmountRequired'")
+  })
+
+  test('common aliases like maxAmount map to the version field name', () => {
+    expect(validateUnknownFields(v2Config(v2Entry({ maxAmount: '1' })), 'v2')[0]!.fix).toBe("Did you mean 'amount'?")
+    const v1 = { x402Version: 1, accepts: [{ maxAmount: '1' }] }
+    expect(validateUnknownFields(v1, 'v1')[0]!.fix).toBe("Did you mean 'maxAmountRequired'?")
+  })
+
+  test('checks top-level and resource keys', () => {
+    const issues = validateUnknownFields(
+      { ...v2Config(), resource: { url: 'https://example.com', mehtod: 'GET' }, extentions: {} },
+      'v2',
+    )
+    expect(issues.map((i) => [i.field, i.fix])).toEqual([
+      ['extentions', "Did you mean 'extensions'?"],
+      ['resource.mehtod', "Did you mean 'method'?"],
+    ])
+  })
+
+  test('unrelated keys are reported without a suggestion', () => {
+    const issues = validateUnknownFields(v2Config(v2Entry({ 'internal id': 7 })), 'v2')
+    expect(issues[0]!.field).toBe('accepts[0]["internal id"]')
+    expect(issues[0]!.fix).toBeUndefined()
+  })
+
+  test('rename patch applies to the input', () => {
+    const entry = v2Entry({ maxTimeoutSecond: 60 })
+    delete entry.maxTimeoutSeconds
+    const config = v2Config(entry)
+    const [issue] = validateUnknownFields(config, 'v2')
+    const patched = applyPatch(config, issue!.suggestions![0]!.patch) as typeof config
+    expect(patched.accepts[0]).toHaveProperty('maxTimeoutSeconds', 60)
+  })
+})
+
+describe('validate() unknown fields', () => {
+  test('reports UNKNOWN_FIELD as a warning located in the source', () => {
+    const text = JSON.stringify(v2Config(v2Entry({ payto: 'x' })), null, 2)
+    const result = validate(text)
+    const issue = result.warnings.find((w) => w.code === ErrorCode.UNKNOWN_FIELD)!
+    expect(issue.field).toBe('accepts[0].payto')
+    expect(issue.line).toBeDefined()
+  })
+})
+
+describe('validateUnknownManifestFields', () => {
+  test('checks manifest top level and service block', () => {
+    const issues = validateUnknownManifestFields({
+      endpoints: {},
+      servce: {},
+      service: { name: 'API', descripton: 'x', contact: {} },
+    })
+    expect(issues.map((i) => [i.field, i.fix])).toEqual([
+      ['servce', "Did you mean 'service'?"],
+      ['service.descripton', "Did you mean 'description'?"],
+    ])
+  })
+
+  test('validateManifest reports unknown service fields', () => {
+    const manifest = JSON.stringify({ service: { nmae: 'API' }, endpoints: { a: v2Config() } })
+    const result = validateManifest(manifest)
+    expect(result.warnings.map((w) => w.code)).toContain(ErrorCode.UNKNOWN_FIELD)
+  })
+})
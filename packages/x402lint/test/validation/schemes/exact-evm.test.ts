@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest'
+import { validateExactEvm } from '../../../src/validation/schemes/exact-evm'
+import { validate } from '../../../src/validation/orchestrator'
+import { ErrorCode } from '../../../src/types/errors'
+import type { AcceptsEntry } from '../../../src/types/config'
+
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+const BASE_SEPOLIA_USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+
+function makeEntry(overrides: Partial<AcceptsEntry> = {}): AcceptsEntry {
+  return {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '1000000',
+    asset: BASE_USDC,
+    payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    extra: { name: 'USD Coin', version: '2' },
+    ...overrides,
+  }
+}
+
+describe('validateExactEvm', () => {
+  test('matching domain returns no issues', () => {
+    expect(validateExactEvm(makeEntry(), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('Base Sepolia USDC uses a different domain name than mainnet', () => {
+    const entry = makeEntry({ network: 'eip155:84532', asset: BASE_SEPOLIA_USDC })
+    const issues = validateExactEvm(entry, 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.EIP712_DOMAIN_MISMATCH)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.field).toBe('accepts[0].extra.name')
+    expect(issues[0]!.fix).toContain("'USDC'")
+    expect(issues[0]!.suggestions?.[0]).toEqual({
+      label: "Use 'USDC'",
+      safe: true,
+      patch: [{ op: 'replace', path: '/accepts/0/extra/name', value: 'USDC' }],
+    })
+  })
+
+  test('wrong version returns EIP712_DOMAIN_MISMATCH on extra.version', () => {
+    const issues = validateExactEvm(makeEntry({ extra: { name: 'USD Coin', version: '1' } }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.field).toBe('accepts[0].extra.version')
+    expect(issues[0]!.message).toContain("expected '2', got '1'")
+  })
+
+  test('missing extra returns one MISSING_EIP712_DOMAIN warning with both values', () => {
+    const issues = validateExactEvm(makeEntry({ extra: undefined }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.MISSING_EIP712_DOMAIN)
+    expect(issues[0]!.severity).toBe('warning')
+    expect(issues[0]!.field).toBe('accepts[0].extra')
+    expect(issues[0]!.suggestions?.[0]!.patch).toEqual([
+      { op: 'add', path: '/accepts/0/extra', value: { name: 'USD Coin', version: '2' } },
+    ])
+  })
+
+  test('missing extra.version is reported on that field', () => {
+    const issues = validateExactEvm(makeEntry({ extra: { name: 'USD Coin' } }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.MISSING_EIP712_DOMAIN)
+    expect(issues[0]!.field).toBe('accepts[0].extra.version')
+  })
+
+  test('unknown assets are not checked', () => {
+    const entry = makeEntry({ asset: '0x0000000000000000000000000000000000000001', extra: undefined })
+    expect(validateExactEvm(entry, 'accepts[0]')).toHaveLength(0)
+  })
+})
+
+describe('validate() with exact EVM entries', () => {
+  test('mismatched domain invalidates the config', () => {
+    const result = validate({
+      x402Version: 2,
+      accepts: [makeEntry({ extra: { name: 'Example API', version: '1.0.0' } })],
+      resource: { url: 'https://example.com' },
+    })
+    expect(result.valid).toBe(false)
+    expect(result.errors.filter((e) => e.code === ErrorCode.EIP712_DOMAIN_MISMATCH)).toHaveLength(2)
+  })
+
+  test('non-exact schemes are not checked', () => {
+    const result = validate({
+      x402Version: 2,
+      accepts: [makeEntry({ scheme: 'upto', extra: { name: 'Example API', version: '1.0.0' } })],
+      resource: { url: 'https://example.com' },
+    })
+    expect(result.errors).toHaveLength(0)
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'vitest'
+import { validateExactSolana } from '../../../src/validation/schemes/exact-solana'
+import { validate } from '../../../src/validation/orchestrator'
+import { ErrorCode } from '../../../src/types/errors'
+import type { AcceptsEntry } from '../../../src/types/config'
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+const PAY_TO = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'
+const FEE_PAYER = '2wKupLR9q6wXYppw8Gr2NvWxKBUqm4PPJKkQfoxHDBg4'
+
+function makeEntry(overrides: Partial<AcceptsEntry> = {}): AcceptsEntry {
+  return {
+    scheme: 'exact',
+    network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    amount: '1000000',
+    asset: USDC_MINT,
+    payTo: PAY_TO,
+    extra: { feePayer: FEE_PAYER },
+    ...overrides,
+  }
+}
+
+describe('validateExactSolana', () => {
+  test('valid feePayer returns no issues', () => {
+    expect(validateExactSolana(makeEntry(), 'accepts[0]')).toHaveLength(0)
+  })
+
+  test('missing extra returns MISSING_FEE_PAYER error', () => {
+    const issues = validateExactSolana(makeEntry({ extra: undefined }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.MISSING_FEE_PAYER)
+    expect(issues[0]!.severity).toBe('error')
+    expect(issues[0]!.field).toBe('accepts[0].extra.feePayer')
+  })
+
+  test('empty feePayer returns MISSING_FEE_PAYER error', () => {
+    const issues = validateExactSolana(makeEntry({ extra: { feePayer: '' } }), 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.MISSING_FEE_PAYER)
+  })
+
+  test('malformed feePayer returns INVALID_SOLANA_ADDRESS', () => {
+    const issues = validateExactSolana(makeEntry({ extra: { feePayer: '0xdeadbeef' } }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_SOLANA_ADDRESS)
+    expect(issues[0]!.field).toBe('accepts[0].extra.feePayer')
+  })
+
+  test('non-string feePayer returns INVALID_SOLANA_ADDRESS', () => {
+    const issues = validateExactSolana(makeEntry({ extra: { feePayer: 42 } }), 'accepts[0]')
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_SOLANA_ADDRESS)
+  })
+
+  test('feePayer equal to payTo warns', () => {
+    const issues = validateExactSolana(makeEntry({ extra: { feePayer: PAY_TO } }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.FEE_PAYER_IS_PAY_TO)
+    expect(issues[0]!.severity).toBe('warning')
+  })
+
+  test('feePayer equal to the asset mint warns', () => {
+    const issues = validateExactSolana(makeEntry({ extra: { feePayer: USDC_MINT } }), 'accepts[0]')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.FEE_PAYER_IS_ASSET)
+  })
+})
+
+describe('validate() with exact Solana entries', () => {
+  test('missing feePayer invalidates the config', () => {
+    const result = validate({
+      x402Version: 2,
+      accepts: [makeEntry({ extra: undefined, maxTimeoutSeconds: 60 })],
+      resource: { url: 'https://example.com' },
+    })
+    expect(result.valid).toBe(false)
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.MISSING_FEE_PAYER])
+  })
+
+  test('EVM exact entries are not checked for feePayer', () => {
+    const result = validate({
+      x402Version: 2,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: 'eip155:8453',
+          amount: '1000000',
+          asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+          payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+          maxTimeoutSeconds: 60,
+          extra: { name: 'USD Coin', version: '2' },
+        },
+      ],
+      resource: { url: 'https://example.com' },
+    })
+    expect(result.errors).toHaveLength(0)
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'vitest'
+import { registerSchemeValidator, validateSchemeEntry } from '../../../src/validation/schemes'
+import { validate } from '../../../src/validation/orchestrator'
+import type { AcceptsEntry } from '../../../src/types/config'
+
+const entry: AcceptsEntry = {
+  scheme: 'test-scheme',
+  network: 'eip155:8453',
+  amount: '1000000',
+  asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  payTo: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  maxTimeoutSeconds: 60,
+}
+
+describe('scheme validators', () => {
+  registerSchemeValidator('test-scheme', (e, fieldPath) => [
+    { code: 'CUSTOM_RULE', field: `${fieldPath}.scheme`, message: `any ${e.network}`, severity: 'warning' },
+  ])
+  registerSchemeValidator(
+    'test-scheme',
+    (_e, fieldPath) => [{ code: 'CUSTOM_RULE', field: fieldPath, message: 'solana only', severity: 'error' }],
+    'solana',
+  )
+
+  test('runs validators matching the scheme and namespace', () => {
+    const issues = validateSchemeEntry(entry, 'accepts[0]')
+    expect(issues.map((i) => i.message)).toEqual(['any eip155:8453'])
+  })
+
+  test('entries using other schemes are untouched', () => {
+    expect(validateSchemeEntry({ ...entry, scheme: 'other' }, 'accepts[0]')).toEqual([])
+  })
+
+  test('validate() dispatches scheme validator issues by severity', () => {
+    const result = validate({
+      x402Version: 2,
+      accepts: [{ ...entry, network: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp' }],
+      resource: { url: 'https://example.com' },
+    })
+    expect(result.errors.some((e) => e.message === 'solana only')).toBe(true)
+    expect(result.warnings.some((w) => w.message === 'any solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp')).toBe(true)
+  })
+})
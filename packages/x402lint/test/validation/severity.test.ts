@@ -0,0 +1,195 @@
+import { describe, test, expect } from 'vitest'
+import { applySeverity, isIgnoredField } from '../../src/validation/severity'
+import { validate } from '../../src/validation/orchestrator'
+import { validateManifest } from '../../src/validation/manifest'
+import { ErrorCode } from '../../src/types/errors'
+import type { ValidationIssue } from '../../src/types/validation'
+import type { V2Config } from '../../src/types/config'
+
+function issue(code: ValidationIssue['code'], severity: ValidationIssue['severity']): ValidationIssue {
+  return { code, field: '$', message: code, severity }
+}
+
+/** Helper: valid v2 config with lowercase payTo (NO_EVM_CHECKSUM) and no schema (MISSING_INPUT_SCHEMA) */
+function v2Config(overrides: Partial<V2Config> = {}): V2Config {
+  return {
+    x402Version: 2,
+    accepts: [
+      {
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: '1000000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed',
+        maxTimeoutSeconds: 300,
+        extra: { name: 'USD Coin', version: '2' },
+      },
+    ],
+    resource: { url: 'https://example.com/api/data' },
+    ...overrides,
+  }
+}
+
+describe('applySeverity', () => {
+  test('no settings returns issues unchanged', () => {
+    const errors = [issue(ErrorCode.INVALID_AMOUNT, 'error')]
+    const warnings = [issue(ErrorCode.UNKNOWN_ASSET, 'warning')]
+    const result = applySeverity(errors, warnings, undefined)
+    expect(result.errors).toEqual(errors)
+    expect(result.warnings).toEqual(warnings)
+  })
+
+  test('"off" drops the issue', () => {
+    const result = applySeverity([], [issue(ErrorCode.MISSING_INPUT_SCHEMA, 'warning')], {
+      rules: { MISSING_INPUT_SCHEMA: 'off' },
+    })
+    expect(result.errors).toHaveLength(0)
+    expect(result.warnings).toHaveLength(0)
+  })
+
+  test('"error" promotes a warning and "warning" demotes an error', () => {
+    const result = applySeverity(
+      [issue(ErrorCode.INVALID_URL, 'error')],
+      [issue(ErrorCode.NO_EVM_CHECKSUM, 'warning')],
+      { rules: { NO_EVM_CHECKSUM: 'error', INVALID_URL: 'warning' } },
+    )
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.NO_EVM_CHECKSUM])
+    expect(result.errors[0]!.severity).toBe('error')
+    expect(result.warnings.map((w) => w.code)).toEqual([ErrorCode.INVALID_URL])
+    expect(result.warnings[0]!.severity).toBe('warning')
+  })
+
+  test('strict promotes warnings without explicit overrides', () => {
+    const result = applySeverity(
+      [],
+      [issue(ErrorCode.UNKNOWN_ASSET, 'warning'), issue(ErrorCode.MISSING_INPUT_SCHEMA, 'warning')],
+      { strict: true, rules: { MISSING_INPUT_SCHEMA: 'warning' } },
+    )
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.UNKNOWN_ASSET])
+    expect(result.warnings.map((w) => w.code)).toEqual([ErrorCode.MISSING_INPUT_SCHEMA])
+  })
+
+  test('does not mutate input issues', () => {
+    const warning = issue(ErrorCode.UNKNOWN_ASSET, 'warning')
+    applySeverity([], [warning], { strict: true })
+    expect(warning.severity).toBe('warning')
+  })
+})
+
+describe('isIgnoredField', () => {
+  test('matches the path itself and nested paths', () => {
+    expect(isIgnoredField('extensions', ['extensions'])).toBe(true)
+    expect(isIgnoredField('extensions.bazaar.info', ['extensions'])).toBe(true)
+    expect(isIgnoredField('accepts[0].payTo', ['accepts'])).toBe(true)
+  })
+
+  test('does not match sibling paths sharing a prefix', () => {
+    expect(isIgnoredField('resource.url', ['resource.u'])).toBe(false)
+    expect(isIgnoredField('accepts[10].payTo', ['accepts[1]'])).toBe(false)
+  })
+
+  test('* matches a single index or key', () => {
+    expect(isIgnoredField('accepts[3].payTo', ['accepts[*].payTo'])).toBe(true)
+    expect(isIgnoredField('accepts[3].asset', ['accepts[*].payTo'])).toBe(false)
+    expect(isIgnoredField('endpoints["api"].resource', ['endpoints[*].resource'])).toBe(true)
+  })
+})
+
+describe('validate() with ignore option', () => {
+  test('drops issues under ignored paths', () => {
+    const result = validate(v2Config(), { ignore: ['extensions', 'accepts[*].payTo'] })
+    expect(result.warnings).toHaveLength(0)
+  })
+
+  test('ignored errors no longer invalidate the config', () => {
+    const config = v2Config()
+    config.accepts[0]!.amount = '0'
+    const result = validate(config, { ignore: ['accepts[0].amount'] })
+    expect(result.valid).toBe(true)
+  })
+
+  test('manifest endpoints honour prefixed ignore patterns', () => {
+    const result = validateManifest(
+      { endpoints: { a: v2Config(), b: v2Config({ resource: { url: 'https://example.com/b' } }) } },
+      { ignore: ['endpoints["a"]'] },
+    )
+    expect(result.endpointResults['a']!.warnings).toHaveLength(0)
+    expect(result.endpointResults['b']!.warnings.length).toBeGreaterThan(0)
+  })
+})
+
+describe('validate() with rules option', () => {
+  test('baseline config has NO_EVM_CHECKSUM and MISSING_INPUT_SCHEMA warnings', () => {
+    const result = validate(v2Config())
+    expect(result.valid).toBe(true)
+    const codes = result.warnings.map((w) => w.code)
+    expect(codes).toContain(ErrorCode.NO_EVM_CHECKSUM)
+    expect(codes).toContain(ErrorCode.MISSING_INPUT_SCHEMA)
+  })
+
+  test('strict CI without discoverability hints', () => {
+    const result = validate(v2Config(), { strict: true, rules: { MISSING_INPUT_SCHEMA: 'off' } })
+    expect(result.valid).toBe(false)
+    expect(result.errors.map((e) => e.code)).toEqual([ErrorCode.NO_EVM_CHECKSUM])
+    expect(result.warnings).toHaveLength(0)
+  })
+
+  test('turning off every warning leaves a clean result', () => {
+    const result = validate(v2Config(), {
+      strict: true,
+      rules: { MISSING_INPUT_SCHEMA: 'off', NO_EVM_CHECKSUM: 'off' },
+    })
+    expect(result.valid).toBe(true)
+    expect(result.errors).toHaveLength(0)
+  })
+
+  test('demoting an error makes the config valid', () => {
+    const config = v2Config()
+    config.accepts[0]!.amount = '0'
+    expect(validate(config).valid).toBe(false)
+
+    const result = validate(config, { rules: { ZERO_AMOUNT: 'warning' } })
+    expect(result.valid).toBe(true)
+    expect(result.warnings.some((w) => w.code === ErrorCode.ZERO_AMOUNT)).toBe(true)
+  })
+})
+
+describe('validateManifest() with rules option', () => {
+  const testnet = v2Config()
+  testnet.accepts[0]!.network = 'eip155:84532'
+  testnet.accepts[0]!.asset = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+  testnet.resource = { url: 'https://example.com/api/testnet' }
+
+  test('overrides apply to cross-endpoint checks', () => {
+    const manifest = { endpoints: { main: v2Config(), test: testnet } }
+
+    const normal = validateManifest(manifest)
+    expect(normal.warnings.map((w) => w.code)).toContain(ErrorCode.MIXED_NETWORKS)
+
+    const promoted = validateManifest(manifest, { rules: { MIXED_NETWORKS: 'error' } })
+    expect(promoted.valid).toBe(false)
+    expect(promoted.errors.map((e) => e.code)).toContain(ErrorCode.MIXED_NETWORKS)
+
+    const off = validateManifest(manifest, { rules: { MIXED_NETWORKS: 'off' } })
+    expect(off.warnings).toHaveLength(0)
+    expect(off.errors).toHaveLength(0)
+  })
+
+  test('overrides and strict mode apply to endpoint results', () => {
+    const manifest = { endpoints: { main: v2Config() } }
+    const result = validateManifest(manifest, { strict: true, rules: { MISSING_INPUT_SCHEMA: 'off' } })
+
+    const endpoint = result.endpointResults['main']!
+    expect(endpoint.valid).toBe(false)
+    expect(endpoint.errors.map((e) => e.code)).toEqual([ErrorCode.NO_EVM_CHECKSUM])
+    expect(endpoint.warnings).toHaveLength(0)
+  })
+
+  test('strict mode promotes manifest-level warnings', () => {
+    const manifest = { endpoints: { main: v2Config(), test: testnet } }
+    const result = validateManifest(manifest, { strict: true })
+    expect(result.valid).toBe(false)
+    expect(result.warnings).toHaveLength(0)
+    expect(result.errors.map((e) => e.code)).toContain(ErrorCode.MIXED_NETWORKS)
+  })
+})
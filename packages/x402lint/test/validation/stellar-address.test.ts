@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest'
+import { validateStellarAddress, validateStellarAsset } from '../../src/validation/stellar-address'
+import { ErrorCode } from '../../src/types/errors'
+
+const ACCOUNT = 'GA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJVSGZ'
+const MUXED = 'MA7QYNF7SOWQ3GLR2BGMZEHXAVIRZA4KVWLTJJFC7MGXUA74P7UJUAAAAAAAAAAAACJUQ'
+const CONTRACT = 'CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE'
+const SECRET = 'SBU2RRGLXH3E5CQHTD3ODLDF2BWDCYUSSBLLZ5GNW7JXHDIYKXZWHOKR'
+
+describe('validateStellarAddress', () => {
+  describe('valid addresses', () => {
+    test.each([
+      ['account (G)', ACCOUNT],
+      ['muxed account (M)', MUXED],
+      ['contract (C)', CONTRACT],
+    ])('%s', (_label, address) => {
+      expect(validateStellarAddress(address, 'accepts[0].payTo')).toHaveLength(0)
+    })
+  })
+
+  describe('invalid addresses', () => {
+    test('bad checksum produces BAD_STELLAR_CHECKSUM', () => {
+      const issues = validateStellarAddress(ACCOUNT.slice(0, -1) + 'A', 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.BAD_STELLAR_CHECKSUM)
+      expect(issues[0]!.severity).toBe('error')
+    })
+
+    test('characters outside base32 produce INVALID_STELLAR_ADDRESS', () => {
+      const issues = validateStellarAddress('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ADDRESS)
+    })
+
+    test('secret seed is rejected with a warning not to publish it', () => {
+      const issues = validateStellarAddress(SECRET, 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ADDRESS)
+      expect(issues[0]!.message).toContain('secret seed')
+    })
+
+    test('truncated key produces INVALID_STELLAR_ADDRESS', () => {
+      const issues = validateStellarAddress(ACCOUNT.slice(0, 40), 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ADDRESS)
+    })
+
+    test('lowercase key gets a safe uppercase suggestion', () => {
+      const issues = validateStellarAddress(ACCOUNT.toLowerCase(), 'accepts[0].payTo')
+      expect(issues).toHaveLength(1)
+      expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ADDRESS)
+      expect(issues[0]!.suggestions).toEqual([
+        {
+          label: 'Uppercase the StrKey',
+          safe: true,
+          patch: [{ op: 'replace', path: '/accepts/0/payTo', value: ACCOUNT }],
+        },
+      ])
+    })
+  })
+})
+
+describe('validateStellarAsset', () => {
+  test('accepts a token contract ID', () => {
+    expect(validateStellarAsset(CONTRACT, 'accepts[0].asset')).toHaveLength(0)
+  })
+
+  test('accepts a classic CODE:ISSUER asset', () => {
+    expect(validateStellarAsset(`USDC:${ACCOUNT}`, 'accepts[0].asset')).toHaveLength(0)
+    expect(validateStellarAsset(`LONGCODE1234:${ACCOUNT}`, 'accepts[0].asset')).toHaveLength(0)
+  })
+
+  test('accepts native', () => {
+    expect(validateStellarAsset('native', 'accepts[0].asset')).toHaveLength(0)
+  })
+
+  test('rejects an account key as the asset', () => {
+    const issues = validateStellarAsset(ACCOUNT, 'accepts[0].asset')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ASSET)
+  })
+
+  test('rejects an asset code longer than 12 characters', () => {
+    const issues = validateStellarAsset(`THIRTEENCHARS:${ACCOUNT}`, 'accepts[0].asset')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ASSET)
+  })
+
+  test('rejects a non-account issuer', () => {
+    const issues = validateStellarAsset(`USDC:${CONTRACT}`, 'accepts[0].asset')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.INVALID_STELLAR_ASSET)
+  })
+
+  test('bad issuer checksum produces BAD_STELLAR_CHECKSUM', () => {
+    const issues = validateStellarAsset(`USDC:${ACCOUNT.slice(0, -1)}A`, 'accepts[0].asset')
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.code).toBe(ErrorCode.BAD_STELLAR_CHECKSUM)
+  })
+
+  test('lowercase issuer suggestion keeps the asset code', () => {
+    const issues = validateStellarAsset(`USDC:${ACCOUNT.toLowerCase()}`, 'accepts[0].asset')
+    expect(issues[0]!.suggestions?.[0]?.patch).toEqual([
+      { op: 'replace', path: '/accepts/0/asset', value: `USDC:${ACCOUNT}` },
+    ])
+  })
+})